@@ -0,0 +1,65 @@
+import { PDFDocument } from 'pdf-lib'
+import { removeUnreachableObjects, stripExtras } from '../shared/pdfPruning.mjs'
+
+// qFactor is Ghostscript's JPEG quantisation scale: lower keeps more detail.
+export const COMPRESSION_PRESETS = {
+  low: { dpi: 200, qFactor: 0.4 },
+  medium: { dpi: 150, qFactor: 0.76 },
+  high: { dpi: 96, qFactor: 1.3 }
+}
+
+export function ghostscriptCompressArgs(preset, inputPath, outputPath) {
+  const { dpi, qFactor } = preset
+  const imageDict = `<< /QFactor ${qFactor} /Blend 1 /HSamples [2 1 1 2] /VSamples [2 1 1 2] >>`
+  return [
+    '-sDEVICE=pdfwrite',
+    '-dCompatibilityLevel=1.5',
+    '-dNOPAUSE',
+    '-dBATCH',
+    '-dQUIET',
+    '-dSAFER',
+    '-dDetectDuplicateImages=true',
+    '-dCompressFonts=true',
+    '-dSubsetFonts=true',
+    '-dDownsampleColorImages=true',
+    '-dDownsampleGrayImages=true',
+    '-dDownsampleMonoImages=true',
+    '-dColorImageDownsampleType=/Bicubic',
+    '-dGrayImageDownsampleType=/Bicubic',
+    `-dColorImageResolution=${dpi}`,
+    `-dGrayImageResolution=${dpi}`,
+    `-dMonoImageResolution=${Math.max(300, dpi * 2)}`,
+    '-dColorImageDownsampleThreshold=1.0',
+    '-dGrayImageDownsampleThreshold=1.0',
+    '-dAutoFilterColorImages=false',
+    '-dAutoFilterGrayImages=false',
+    '-dColorImageFilter=/DCTEncode',
+    '-dGrayImageFilter=/DCTEncode',
+    `-sOutputFile=${outputPath}`,
+    '-c',
+    `<< /ColorImageDict ${imageDict} /GrayImageDict ${imageDict} >> setdistillerparams`,
+    '-f',
+    inputPath
+  ]
+}
+
+export function qpdfCompressArgs(inputPath, outputPath) {
+  return [
+    '--object-streams=generate',
+    '--compress-streams=y',
+    '--recompress-flate',
+    '--compression-level=9',
+    '--remove-unreferenced-resources=yes',
+    inputPath,
+    outputPath
+  ]
+}
+
+// Same clean-up as the browser engine (see shared/pdfPruning.mjs), then
+// saved with object streams.
+export async function stripPdfExtras(buffer, stripMetadata) {
+  const doc = await PDFDocument.load(buffer, { updateMetadata: !stripMetadata })
+  stripExtras(doc, stripMetadata)
+  removeUnreachableObjects(doc)
+  return doc.save({ useObjectStreams: true })
+}
@@ -0,0 +1,774 @@
+import {
+  PDFArray,
+  PDFDocument,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  StandardFontEmbedder,
+  StandardFonts,
+  decodePDFRawStream
+} from 'pdf-lib'
+import { displayRectToUserBounds, pageGeometry } from '../shared/pageGeometry.mjs'
+import { boxesForRange, openTextDocument, readPageText } from './textLayer.mjs'
+
+// Content-level redaction: removes glyphs, images and annotations that sit
+// under redaction rectangles while leaving everything else on the page as
+// vector content. Works on pdf-lib documents and the page's own operators.
+
+const IDENTITY = [1, 0, 0, 1, 0, 0]
+const GLYPH_OVERLAP_RATIO = 0.3
+const MAX_FORM_DEPTH = 8
+const STANDARD_FONT_NAMES = new Set(Object.values(StandardFonts))
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20])
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25])
+
+function multiply(m1, m2) {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5]
+  ]
+}
+
+function transformPoint(m, x, y) {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]]
+}
+
+function transformRect(m, x1, y1, x2, y2) {
+  const points = [
+    transformPoint(m, x1, y1),
+    transformPoint(m, x2, y1),
+    transformPoint(m, x1, y2),
+    transformPoint(m, x2, y2)
+  ]
+  const xs = points.map(([x]) => x)
+  const ys = points.map(([, y]) => y)
+  return { x1: Math.min(...xs), y1: Math.min(...ys), x2: Math.max(...xs), y2: Math.max(...ys) }
+}
+
+function overlapArea(a, b) {
+  const width = Math.min(a.x2, b.x2) - Math.max(a.x1, b.x1)
+  const height = Math.min(a.y2, b.y2) - Math.max(a.y1, b.y1)
+  return width > 0 && height > 0 ? width * height : 0
+}
+
+function area(rect) {
+  return Math.max(0, rect.x2 - rect.x1) * Math.max(0, rect.y2 - rect.y1)
+}
+
+function isCoveredBy(rect, rects, ratio) {
+  const size = area(rect)
+  if (size === 0) {
+    return rects.some((box) => rect.x1 >= box.x1 && rect.x2 <= box.x2 && rect.y1 >= box.y1 && rect.y2 <= box.y2)
+  }
+  return rects.some((box) => overlapArea(rect, box) / size > ratio)
+}
+
+function isInside(rect, rects) {
+  return rects.some((box) => rect.x1 >= box.x1 - 0.5 && rect.x2 <= box.x2 + 0.5 && rect.y1 >= box.y1 - 0.5 && rect.y2 <= box.y2 + 0.5)
+}
+
+function intersectsAny(rect, rects) {
+  return rects.some((box) => overlapArea(rect, box) > 0)
+}
+
+function numberArray(array, context) {
+  if (!(array instanceof PDFArray)) return null
+  return array.asArray().map((item) => {
+    const value = context.lookup(item)
+    return value instanceof PDFNumber ? value.asNumber() : 0
+  })
+}
+
+export function readStreamBytes(stream) {
+  if (stream instanceof PDFRawStream) {
+    return decodePDFRawStream(stream).decode()
+  }
+  if (typeof stream.getUnencodedContents === 'function') {
+    return stream.getUnencodedContents()
+  }
+  return stream.getContents()
+}
+
+export function readPageContent(page) {
+  const { context } = page.doc
+  const contents = page.node.Contents()
+  if (!contents) return ''
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map((item) => context.lookup(item)).filter((item) => item instanceof PDFStream)
+    : [contents]
+  return streams.map((stream) => Buffer.from(readStreamBytes(stream)).toString('latin1')).join('\n')
+}
+
+// ---------------------------------------------------------------------------
+// Content stream lexer
+
+export function tokenize(source) {
+  const operations = []
+  let operands = []
+  let index = 0
+  let opStart = -1
+
+  const skipWhitespace = () => {
+    while (index < source.length) {
+      const code = source.charCodeAt(index)
+      if (WHITESPACE.has(code)) {
+        index += 1
+      } else if (code === 0x25) {
+        while (index < source.length && source[index] !== '\n' && source[index] !== '\r') index += 1
+      } else {
+        break
+      }
+    }
+  }
+
+  const readLiteralString = () => {
+    const bytes = []
+    let depth = 1
+    index += 1
+    while (index < source.length && depth > 0) {
+      const char = source[index]
+      if (char === '\\') {
+        const next = source[index + 1]
+        index += 2
+        if (next === 'n') bytes.push(10)
+        else if (next === 'r') bytes.push(13)
+        else if (next === 't') bytes.push(9)
+        else if (next === 'b') bytes.push(8)
+        else if (next === 'f') bytes.push(12)
+        else if (next === '\r') {
+          if (source[index] === '\n') index += 1
+        } else if (next === '\n') {
+          // line continuation
+        } else if (next >= '0' && next <= '7') {
+          let octal = next
+          while (octal.length < 3 && source[index] >= '0' && source[index] <= '7') {
+            octal += source[index]
+            index += 1
+          }
+          bytes.push(parseInt(octal, 8) & 0xff)
+        } else if (next !== undefined) {
+          bytes.push(next.charCodeAt(0))
+        }
+        continue
+      }
+      if (char === '(') depth += 1
+      if (char === ')') {
+        depth -= 1
+        if (depth === 0) {
+          index += 1
+          break
+        }
+      }
+      bytes.push(source.charCodeAt(index))
+      index += 1
+    }
+    return { type: 'string', bytes }
+  }
+
+  const readHexString = () => {
+    index += 1
+    let hex = ''
+    while (index < source.length && source[index] !== '>') {
+      if (/[0-9a-fA-F]/.test(source[index])) hex += source[index]
+      index += 1
+    }
+    index += 1
+    if (hex.length % 2) hex += '0'
+    const bytes = []
+    for (let offset = 0; offset < hex.length; offset += 2) {
+      bytes.push(parseInt(hex.slice(offset, offset + 2), 16))
+    }
+    return { type: 'string', bytes }
+  }
+
+  const readRegular = () => {
+    const start = index
+    while (index < source.length) {
+      const code = source.charCodeAt(index)
+      if (WHITESPACE.has(code) || DELIMITERS.has(code)) break
+      index += 1
+    }
+    return source.slice(start, index)
+  }
+
+  const readObject = () => {
+    skipWhitespace()
+    const char = source[index]
+    if (char === '(') return readLiteralString()
+    if (char === '<' && source[index + 1] === '<') {
+      index += 2
+      const entries = []
+      while (index < source.length) {
+        skipWhitespace()
+        if (source[index] === '>' && source[index + 1] === '>') {
+          index += 2
+          break
+        }
+        const item = readObject()
+        if (!item) break
+        entries.push(item)
+      }
+      return { type: 'dict', entries }
+    }
+    if (char === '<') return readHexString()
+    if (char === '[') {
+      index += 1
+      const items = []
+      while (index < source.length) {
+        skipWhitespace()
+        if (source[index] === ']') {
+          index += 1
+          break
+        }
+        const item = readObject()
+        if (!item) break
+        items.push(item)
+      }
+      return { type: 'array', items }
+    }
+    if (char === '/') {
+      index += 1
+      return { type: 'name', value: readRegular() }
+    }
+    if (char === ')' || char === '>' || char === ']' || char === '}' || char === '{') {
+      index += 1
+      return { type: 'other' }
+    }
+    const word = readRegular()
+    if (!word) {
+      index += 1
+      return { type: 'other' }
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return { type: 'number', value: Number(word) }
+    if (word === 'true' || word === 'false') return { type: 'bool', value: word === 'true' }
+    if (word === 'null') return { type: 'null' }
+    return { type: 'operator', value: word }
+  }
+
+  while (index < source.length) {
+    skipWhitespace()
+    if (index >= source.length) break
+    if (opStart < 0) opStart = index
+    const token = readObject()
+    if (!token) break
+    if (token.type !== 'operator') {
+      operands.push(token)
+      continue
+    }
+
+    if (token.value === 'BI') {
+      // Inline image: skip the dictionary and binary data through EI.
+      const dataStart = source.indexOf('ID', index)
+      let end = dataStart < 0 ? source.length : dataStart + 3
+      while (end < source.length) {
+        const found = source.indexOf('EI', end)
+        if (found < 0) {
+          end = source.length
+          break
+        }
+        const before = source.charCodeAt(found - 1)
+        const after = source.charCodeAt(found + 2)
+        if (WHITESPACE.has(before) && (Number.isNaN(after) || WHITESPACE.has(after))) {
+          end = found + 2
+          break
+        }
+        end = found + 2
+      }
+      index = end
+    }
+
+    operations.push({ operator: token.value, operands, start: opStart, end: index })
+    operands = []
+    opStart = -1
+  }
+
+  return operations
+}
+
+// ---------------------------------------------------------------------------
+// Fonts
+
+const fontCache = new WeakMap()
+
+function standardWidths(baseFont) {
+  const name = baseFont.replace(/^[A-Z]{6}\+/, '')
+  if (!STANDARD_FONT_NAMES.has(name)) return null
+  const embedder = StandardFontEmbedder.for(name)
+  return (code) => {
+    try {
+      return embedder.widthOfTextAtSize(String.fromCharCode(code), 1000)
+    } catch {
+      return 500
+    }
+  }
+}
+
+function cidWidths(descendant, context) {
+  const widths = new Map()
+  const defaultWidth = descendant.lookupMaybe(PDFName.of('DW'), PDFNumber)?.asNumber() ?? 1000
+  const w = descendant.lookupMaybe(PDFName.of('W'), PDFArray)
+  if (w) {
+    const items = w.asArray().map((item) => context.lookup(item))
+    for (let index = 0; index < items.length;) {
+      const first = items[index]
+      const second = items[index + 1]
+      if (!(first instanceof PDFNumber)) break
+      if (second instanceof PDFArray) {
+        second.asArray().forEach((value, offset) => {
+          const resolved = context.lookup(value)
+          if (resolved instanceof PDFNumber) widths.set(first.asNumber() + offset, resolved.asNumber())
+        })
+        index += 2
+      } else {
+        const last = second instanceof PDFNumber ? second.asNumber() : first.asNumber()
+        const width = items[index + 2] instanceof PDFNumber ? items[index + 2].asNumber() : defaultWidth
+        for (let cid = first.asNumber(); cid <= last; cid += 1) widths.set(cid, width)
+        index += 3
+      }
+    }
+  }
+  return (code) => widths.get(code) ?? defaultWidth
+}
+
+function loadFont(fontDict, context) {
+  if (!fontDict) {
+    return { bytesPerCode: 1, widthOf: () => 500, scale: 0.001 }
+  }
+  const cached = fontCache.get(fontDict)
+  if (cached) return cached
+
+  const subtype = fontDict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText()
+  const baseFont = fontDict.lookupMaybe(PDFName.of('BaseFont'), PDFName)?.decodeText() || ''
+  let font
+
+  if (subtype === 'Type0') {
+    const descendants = fontDict.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)
+    const descendant = descendants ? context.lookup(descendants.get(0)) : null
+    font = {
+      bytesPerCode: 2,
+      widthOf: descendant instanceof PDFDict ? cidWidths(descendant, context) : () => 1000,
+      scale: 0.001
+    }
+  } else {
+    const widths = numberArray(fontDict.lookupMaybe(PDFName.of('Widths'), PDFArray), context)
+    const firstChar = fontDict.lookupMaybe(PDFName.of('FirstChar'), PDFNumber)?.asNumber() ?? 0
+    const descriptor = fontDict.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict)
+    const missingWidth = descriptor?.lookupMaybe(PDFName.of('MissingWidth'), PDFNumber)?.asNumber() ?? 0
+    const fallback = standardWidths(baseFont)
+    const matrix = numberArray(fontDict.lookupMaybe(PDFName.of('FontMatrix'), PDFArray), context)
+    font = {
+      bytesPerCode: 1,
+      widthOf: (code) => {
+        if (widths) {
+          const width = widths[code - firstChar]
+          if (width !== undefined) return width
+          return missingWidth
+        }
+        return fallback ? fallback(code) : 500
+      },
+      scale: subtype === 'Type3' && matrix ? matrix[0] : 0.001
+    }
+  }
+
+  fontCache.set(fontDict, font)
+  return font
+}
+
+function splitCodes(bytes, bytesPerCode) {
+  const codes = []
+  for (let index = 0; index < bytes.length; index += bytesPerCode) {
+    const chunk = bytes.slice(index, index + bytesPerCode)
+    codes.push({ bytes: chunk, code: chunk.reduce((value, byte) => value * 256 + byte, 0) })
+  }
+  return codes
+}
+
+// ---------------------------------------------------------------------------
+// Interpreter
+
+function toHex(bytes) {
+  return `<${bytes.map((byte) => byte.toString(16).padStart(2, '0')).join('')}>`
+}
+
+function formatNumber(value) {
+  return Number(value.toFixed(4)).toString()
+}
+
+function lookupResource(resources, category, name) {
+  const dict = resources?.lookupMaybe(PDFName.of(category), PDFDict)
+  if (!dict) return { dict: null, value: null, ref: null }
+  const raw = dict.get(PDFName.of(name))
+  return { dict, value: raw ? dict.context.lookup(raw) : null, ref: raw instanceof PDFRef ? raw : null }
+}
+
+function processContent(source, { resources, ctm, rects, context, rewrite, depth, stats }) {
+  const operations = tokenize(source)
+  const output = []
+  const droppedImages = new Set()
+  let changed = false
+
+  const stack = []
+  let state = { ctm, font: null, fontSize: 0, charSpacing: 0, wordSpacing: 0, hScale: 1, leading: 0, rise: 0 }
+  let tm = IDENTITY
+  let tlm = IDENTITY
+
+  const moveLine = (tx, ty) => {
+    tlm = multiply([1, 0, 0, 1, tx, ty], tlm)
+    tm = tlm
+  }
+
+  const showText = (items) => {
+    const font = loadFont(state.font, context)
+    const rebuilt = []
+    let current = []
+    let removedAny = false
+
+    const flush = () => {
+      if (current.length) rebuilt.push(toHex(current))
+      current = []
+    }
+
+    items.forEach((item) => {
+      if (item.type === 'number') {
+        flush()
+        rebuilt.push(formatNumber(item.value))
+        tm = multiply([1, 0, 0, 1, (-item.value / 1000) * state.fontSize * state.hScale, 0], tm)
+        return
+      }
+      if (item.type !== 'string') return
+
+      splitCodes(item.bytes, font.bytesPerCode).forEach(({ bytes, code }) => {
+        const w0 = font.widthOf(code) * font.scale
+        const spacing = state.charSpacing + (font.bytesPerCode === 1 && code === 32 ? state.wordSpacing : 0)
+        const advance = (w0 * state.fontSize + spacing) * state.hScale
+        const trm = multiply(multiply([state.fontSize * state.hScale, 0, 0, state.fontSize, 0, state.rise], tm), state.ctm)
+        const glyphRect = transformRect(trm, 0, -0.25, Math.max(w0, 0.05), 1)
+
+        if (isCoveredBy(glyphRect, rects, GLYPH_OVERLAP_RATIO)) {
+          removedAny = true
+          stats.glyphs += 1
+          flush()
+          if (state.fontSize && state.hScale) {
+            rebuilt.push(formatNumber((-advance / (state.fontSize * state.hScale)) * 1000))
+          }
+        } else {
+          current.push(...bytes)
+        }
+        tm = multiply([1, 0, 0, 1, advance, 0], tm)
+      })
+    })
+    flush()
+
+    return removedAny ? `[${rebuilt.join(' ')}] TJ` : null
+  }
+
+  operations.forEach((operation) => {
+    const { operator, operands } = operation
+    const raw = source.slice(operation.start, operation.end)
+    const num = (index) => (operands[index]?.type === 'number' ? operands[index].value : 0)
+    let replacement = null
+
+    switch (operator) {
+      case 'q':
+        stack.push({ ...state })
+        break
+      case 'Q':
+        if (stack.length) state = stack.pop()
+        break
+      case 'cm':
+        state.ctm = multiply([num(0), num(1), num(2), num(3), num(4), num(5)], state.ctm)
+        break
+      case 'BT':
+        tm = IDENTITY
+        tlm = IDENTITY
+        break
+      case 'Tf': {
+        const name = operands[0]?.type === 'name' ? operands[0].value : ''
+        const { value } = lookupResource(resources, 'Font', name)
+        state.font = value instanceof PDFDict ? value : null
+        state.fontSize = num(1)
+        break
+      }
+      case 'Tc':
+        state.charSpacing = num(0)
+        break
+      case 'Tw':
+        state.wordSpacing = num(0)
+        break
+      case 'Tz':
+        state.hScale = num(0) / 100
+        break
+      case 'TL':
+        state.leading = num(0)
+        break
+      case 'Ts':
+        state.rise = num(0)
+        break
+      case 'Td':
+        moveLine(num(0), num(1))
+        break
+      case 'TD':
+        state.leading = -num(1)
+        moveLine(num(0), num(1))
+        break
+      case 'Tm':
+        tlm = [num(0), num(1), num(2), num(3), num(4), num(5)]
+        tm = tlm
+        break
+      case 'T*':
+        moveLine(0, -state.leading)
+        break
+      case 'Tj': {
+        const shown = showText(operands.slice(0, 1))
+        if (shown) replacement = shown
+        break
+      }
+      case 'TJ': {
+        const shown = showText(operands[0]?.type === 'array' ? operands[0].items : [])
+        if (shown) replacement = shown
+        break
+      }
+      case "'": {
+        moveLine(0, -state.leading)
+        const shown = showText(operands.slice(0, 1))
+        if (shown) replacement = `T* ${shown}`
+        break
+      }
+      case '"': {
+        state.wordSpacing = num(0)
+        state.charSpacing = num(1)
+        moveLine(0, -state.leading)
+        const shown = showText(operands.slice(2, 3))
+        if (shown) replacement = `${formatNumber(num(0))} Tw ${formatNumber(num(1))} Tc T* ${shown}`
+        break
+      }
+      case 'BI': {
+        const imageRect = transformRect(state.ctm, 0, 0, 1, 1)
+        if (intersectsAny(imageRect, rects)) {
+          if (isInside(imageRect, rects)) {
+            replacement = ''
+            stats.images += 1
+          } else {
+            stats.partialImages += 1
+          }
+        }
+        break
+      }
+      case 'Do': {
+        const name = operands[0]?.type === 'name' ? operands[0].value : ''
+        const { dict, value } = lookupResource(resources, 'XObject', name)
+        if (!(value instanceof PDFStream)) break
+        const subtype = value.dict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText()
+
+        if (subtype === 'Image') {
+          const imageRect = transformRect(state.ctm, 0, 0, 1, 1)
+          if (intersectsAny(imageRect, rects)) {
+            if (isInside(imageRect, rects)) {
+              replacement = ''
+              droppedImages.add(name)
+              stats.images += 1
+            } else {
+              stats.partialImages += 1
+            }
+          }
+          break
+        }
+
+        if (subtype === 'Form' && depth < MAX_FORM_DEPTH) {
+          const matrix = numberArray(value.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray), context) || IDENTITY
+          const bbox = numberArray(value.dict.lookupMaybe(PDFName.of('BBox'), PDFArray), context)
+          const formCtm = multiply(matrix, state.ctm)
+          if (bbox && !intersectsAny(transformRect(formCtm, bbox[0], bbox[1], bbox[2], bbox[3]), rects)) break
+
+          const ownResources = value.dict.lookupMaybe(PDFName.of('Resources'), PDFDict)
+          const formResources = ownResources || resources
+          const formSource = Buffer.from(readStreamBytes(value)).toString('latin1')
+          const result = processContent(formSource, {
+            resources: formResources,
+            ctm: formCtm,
+            rects,
+            context,
+            rewrite,
+            depth: depth + 1,
+            stats
+          })
+          if (rewrite && result.changed && dict) {
+            const entries = {}
+            value.dict.entries().forEach(([key, entry]) => {
+              const keyName = key.decodeText()
+              if (!['Length', 'Filter', 'DecodeParms'].includes(keyName)) entries[keyName] = entry
+            })
+            if (ownResources) {
+              entries.Resources = withoutUnusedImages(ownResources, result.droppedImages, result.content, context)
+            }
+            const copyRef = context.register(context.flateStream(Buffer.from(result.content, 'latin1'), entries))
+            const copyName = `${name}R${copyRef.objectNumber}`
+            dict.set(PDFName.of(copyName), copyRef)
+            stats.forms += 1
+            replacement = `/${copyName} Do`
+          }
+        }
+        break
+      }
+      default:
+        break
+    }
+
+    if (replacement !== null) {
+      changed = true
+      output.push(replacement)
+    } else {
+      output.push(raw)
+    }
+  })
+
+  const content = output.join('\n')
+  return { content, changed, droppedImages }
+}
+
+// Drops image XObjects that no operator references any more from a copy of
+// the resource dictionary, so the image data is not left in the file.
+function withoutUnusedImages(resources, droppedImages, content, context) {
+  const unused = Array.from(droppedImages).filter((name) => !content.includes(`/${name} Do`))
+  const xobjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict)
+  if (!unused.length || !xobjects) return resources
+  const xobjectsCopy = xobjects.clone(context)
+  unused.forEach((name) => xobjectsCopy.delete(PDFName.of(name)))
+  const resourcesCopy = resources.clone(context)
+  resourcesCopy.set(PDFName.of('XObject'), xobjectsCopy)
+  return resourcesCopy
+}
+
+function coveredAnnotations(page, rects, remove) {
+  const { context } = page.doc
+  const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray)
+  if (!annots) return 0
+  let covered = 0
+  for (let index = annots.size() - 1; index >= 0; index -= 1) {
+    const annot = context.lookup(annots.get(index))
+    if (!(annot instanceof PDFDict)) continue
+    const rect = numberArray(annot.lookupMaybe(PDFName.of('Rect'), PDFArray), context)
+    if (!rect) continue
+    const annotRect = { x1: Math.min(rect[0], rect[2]), y1: Math.min(rect[1], rect[3]), x2: Math.max(rect[0], rect[2]), y2: Math.max(rect[1], rect[3]) }
+    if (intersectsAny(annotRect, rects)) {
+      if (remove) annots.remove(index)
+      covered += 1
+    }
+  }
+  return covered
+}
+
+function emptyStats() {
+  return { glyphs: 0, images: 0, partialImages: 0, forms: 0, annotations: 0 }
+}
+
+// Rewrites the page content so nothing under `rects` (user space) remains.
+export function redactPageContent(page, rects) {
+  const { context } = page.doc
+  const stats = emptyStats()
+  const source = readPageContent(page)
+  const result = processContent(source, {
+    resources: page.node.Resources(),
+    ctm: IDENTITY,
+    rects,
+    context,
+    rewrite: true,
+    depth: 0,
+    stats
+  })
+
+  if (result.changed) {
+    const stream = context.flateStream(Buffer.from(result.content, 'latin1'))
+    page.node.set(PDFName.of('Contents'), context.register(stream))
+    const resources = page.node.Resources()
+    if (resources && result.droppedImages.size) {
+      page.node.set(PDFName.of('Resources'), withoutUnusedImages(resources, result.droppedImages, result.content, context))
+    }
+  }
+  stats.annotations = coveredAnnotations(page, rects, true)
+  return stats
+}
+
+// Read-only pass used to verify a saved document: counts glyphs and images
+// that still sit under the redaction rectangles.
+export function inspectPageContent(page, rects) {
+  const stats = emptyStats()
+  processContent(readPageContent(page), {
+    resources: page.node.Resources(),
+    ctm: IDENTITY,
+    rects,
+    context: page.doc.context,
+    rewrite: false,
+    depth: 0,
+    stats
+  })
+  stats.annotations = coveredAnnotations(page, rects, false)
+  return stats
+}
+
+export function redactionRectsByPage(doc, redactions) {
+  const byPage = new Map()
+  redactions.forEach((entry) => {
+    const index = entry.page - 1
+    if (index < 0 || index >= doc.getPageCount()) return
+    const rect = displayRectToUserBounds(pageGeometry(doc.getPage(index)), entry)
+    byPage.set(index, [...(byPage.get(index) || []), rect])
+  })
+  return byPage
+}
+
+// Characters pdfjs extracts from the saved output whose centre falls inside a
+// redaction box. pdfjs parses the file independently of the interpreter above,
+// so glyphs the redactor failed to recognise still show up here.
+async function textUnderBoxes(pdf, pageNumber, boxes) {
+  const page = await pdf.getPage(pageNumber)
+  try {
+    const pageText = await readPageText(page)
+    let count = 0
+    for (let index = 0; index < pageText.text.length; index += 1) {
+      if (!pageText.chars[index] || /\s/.test(pageText.text[index])) continue
+      const [glyph] = boxesForRange(pageText, index, index + 1)
+      if (!glyph) continue
+      const cx = glyph.x + glyph.width / 2
+      const cy = glyph.y + glyph.height / 2
+      if (boxes.some((box) => cx >= box.x && cx <= box.x + box.width && cy >= box.y && cy <= box.y + box.height)) {
+        count += 1
+      }
+    }
+    return count
+  } finally {
+    page.cleanup()
+  }
+}
+
+// Re-reads the saved output and lists pages where text, images or
+// annotations still sit under a box. Text is extracted with pdfjs rather than
+// the content interpreter that did the redaction. Rasterized pages are
+// image-only, so only stray text counts there.
+export async function findRedactionLeaks(bytes, redactions, rasterized) {
+  const doc = await PDFDocument.load(bytes)
+  const rectsByPage = redactionRectsByPage(doc, redactions)
+  const pdf = await openTextDocument(bytes)
+  const leaks = []
+  try {
+    for (const [index, rects] of rectsByPage) {
+      const boxes = redactions.filter((entry) => entry.page === index + 1)
+      const glyphs = await textUnderBoxes(pdf, index + 1, boxes)
+      const stats = inspectPageContent(doc.getPage(index), rects)
+      const imageLeaks = rasterized.has(index) ? 0 : stats.images + stats.partialImages
+      if (glyphs || imageLeaks || stats.annotations) {
+        leaks.push({ page: index + 1, glyphs, images: imageLeaks, annotations: stats.annotations })
+      }
+    }
+  } finally {
+    await pdf.destroy()
+  }
+  return leaks
+}
@@ -3,13 +3,41 @@ import cors from 'cors'
 import multer from 'multer'
 import pdfParse from 'pdf-parse'
 import { PDFDocument, rgb } from 'pdf-lib'
-import { createWorker } from 'tesseract.js'
-import { mkdtemp, readFile, access, rm, writeFile, readdir } from 'node:fs/promises'
+import { mkdtemp, mkdir, readFile, access, rm, writeFile, readdir } from 'node:fs/promises'
 import { constants as fsConstants } from 'node:fs'
 import os from 'node:os'
 import path from 'node:path'
 import { execFile } from 'node:child_process'
 import { promisify } from 'node:util'
+import { findRedactionLeaks, redactPageContent, redactionRectsByPage } from './contentRedaction.mjs'
+import { pageGeometry } from '../shared/pageGeometry.mjs'
+import { removeUnreachableObjects } from '../shared/pdfPruning.mjs'
+import { COMPRESSION_PRESETS, ghostscriptCompressArgs, qpdfCompressArgs, stripPdfExtras } from './compression.mjs'
+import {
+  OperationError,
+  describeJob,
+  discardJob,
+  getJob,
+  jobQueueStats,
+  submitJob,
+  takeJobResult
+} from './jobs.mjs'
+import { INVALID_PASSWORD, inspectPdfSecurity } from './inspection.mjs'
+import { OcrRequestError, detectOrientation, listOcrLanguages, parseOcrLanguages, runOcr } from './ocr.mjs'
+import { OCR_FORMATS, parseOcrStructure, serializeOcr } from './ocrFormats.mjs'
+import {
+  PDFA_LEVELS,
+  findIccProfile,
+  ghostscriptPdfaArgs,
+  libreOfficePdfaArgs,
+  validatePdfA,
+  writePdfaDefinition
+} from './pdfa.mjs'
+import { parseProtectionOptions, qpdfEncryptArgs } from './protection.mjs'
+import { parseSanitizeOptions, sanitizePdf } from './sanitize.mjs'
+import { parseSignatureBox, readPkcs12, signPdf } from './signing.mjs'
+import { verifyPdfSignatures } from './verification.mjs'
+import { SearchRuleError, findRedactionMatches, matchesToRedactions, parseSearchRules } from './redaction.mjs'
 
 const execFileAsync = promisify(execFile)
 const app = express()
@@ -21,6 +49,7 @@ const allowedOrigins = String(process.env.FRONTEND_ORIGIN || '')
   .filter(Boolean)
 
 app.use(cors({
+  exposedHeaders: ['X-Redaction-Report', 'X-Compression-Report', 'X-Ocr-Report', 'X-Pdfa-Report', 'X-Sanitize-Report', 'X-Signature-Report'],
   origin(origin, callback) {
     if (!origin || allowedOrigins.length === 0 || allowedOrigins.includes(origin)) {
       callback(null, true)
@@ -74,17 +103,46 @@ async function resolvePdftoppmBinary() {
   ].filter(Boolean))
 }
 
+async function resolveGhostscriptBinary() {
+  return findBinary([
+    process.env.GHOSTSCRIPT_PATH,
+    'gs',
+    '/usr/bin/gs',
+    'C:/Program Files/gs/bin/gswin64c.exe'
+  ].filter(Boolean))
+}
+
+// Ghostscript only counts as a PDF/A engine when an sRGB ICC profile for
+// the output intent can be found as well.
+async function resolvePdfaEngines() {
+  const ghostscript = await resolveGhostscriptBinary()
+  const iccProfile = ghostscript ? await findIccProfile() : null
+  return {
+    ghostscript: ghostscript && iccProfile ? { binary: ghostscript, iccProfile } : null,
+    libreoffice: await resolveLibreOfficeBinary(),
+    ghostscriptWithoutProfile: Boolean(ghostscript && !iccProfile)
+  }
+}
+
 app.get('/api/health', async (_req, res) => {
   const qpdf = await resolveQpdfBinary()
   const soffice = await resolveLibreOfficeBinary()
   const pdftoppm = await resolvePdftoppmBinary()
+  const ghostscript = await resolveGhostscriptBinary()
+  const pdfa = await resolvePdfaEngines()
   res.json({
     ok: true,
     binaries: {
       qpdf: Boolean(qpdf),
       libreoffice: Boolean(soffice),
-      pdftoppm: Boolean(pdftoppm)
-    }
+      pdftoppm: Boolean(pdftoppm),
+      ghostscript: Boolean(ghostscript)
+    },
+    pdfa: {
+      ghostscript: Boolean(pdfa.ghostscript),
+      libreoffice: Boolean(pdfa.libreoffice)
+    },
+    jobs: jobQueueStats()
   })
 })
 
@@ -118,82 +176,290 @@ function parseRedactions(raw) {
       && entry.height > 0)
 }
 
-app.post('/api/redact-pdf', upload.single('file'), async (req, res) => {
-  const pdftoppm = await resolvePdftoppmBinary()
-  if (!pdftoppm) {
-    res.status(501).json({ error: 'pdftoppm binary not found. Install poppler-utils or set PDFTOPPM_PATH.' })
+app.post('/api/redact-search', upload.single('file'), async (req, res) => {
+  if (!req.file) {
+    res.status(400).json({ error: 'file and search rules are required' })
     return
   }
 
-  const redactions = parseRedactions(req.body.redactions)
-  if (!req.file || redactions.length === 0) {
-    res.status(400).json({ error: 'file and redactions are required' })
-    return
+  try {
+    const rules = parseSearchRules(req.body.search)
+    if (rules.length === 0) {
+      res.status(400).json({ error: 'file and search rules are required' })
+      return
+    }
+    const matches = await findRedactionMatches(req.file.buffer, rules)
+    res.json({ matches })
+  } catch (error) {
+    const status = error instanceof SearchRuleError ? 400 : 500
+    res.status(status).json({ error: error instanceof Error ? error.message : 'Search failed' })
+  }
+})
+
+const REDACTION_MODES = ['flatten', 'preserve', 'rasterize-affected']
+
+function drawRedactionRects(page, rects) {
+  rects.forEach((rect) => {
+    page.drawRectangle({
+      x: rect.x1,
+      y: rect.y1,
+      width: Math.max(1, rect.x2 - rect.x1),
+      height: Math.max(1, rect.y2 - rect.y1),
+      color: rgb(0, 0, 0)
+    })
+  })
+}
+
+async function rasterizePages(bytes, pageIndices, pdftoppm, tempDir) {
+  const doc = await PDFDocument.load(bytes)
+  const stagePath = path.join(tempDir, 'stage-partial.pdf')
+  await writeFile(stagePath, bytes)
+
+  for (const index of pageIndices) {
+    const pageNumber = index + 1
+    const prefix = `partial-${pageNumber}`
+    await execFileAsync(pdftoppm, ['-jpeg', '-r', '220', '-f', String(pageNumber), '-l', String(pageNumber), stagePath, path.join(tempDir, prefix)])
+    const imageName = (await readdir(tempDir)).find((name) => name.startsWith(`${prefix}-`) && name.endsWith('.jpg'))
+    if (!imageName) {
+      throw new Error(`Failed to rasterize page ${pageNumber}`)
+    }
+
+    const { viewWidth, viewHeight } = pageGeometry(doc.getPage(index))
+    const embedded = await doc.embedJpg(await readFile(path.join(tempDir, imageName)))
+    const page = doc.insertPage(index, [viewWidth, viewHeight])
+    page.drawImage(embedded, { x: 0, y: 0, width: viewWidth, height: viewHeight })
+    doc.removePage(index + 1)
   }
 
+  removeUnreachableObjects(doc)
+  return doc.save()
+}
+
+function formatPageList(pages) {
+  return pages.map((entry) => entry.page ?? entry).join(', ')
+}
+
+async function withTempDir(fn) {
   const tempDir = await mkdtemp(path.join(os.tmpdir(), 'pdf-toolkit-'))
   try {
-    const stagePath = path.join(tempDir, 'stage-redacted.pdf')
-    const source = await PDFDocument.load(req.file.buffer)
+    return await fn(tempDir)
+  } finally {
+    await rm(tempDir, { recursive: true, force: true })
+  }
+}
 
-    redactions.forEach((entry) => {
-      const index = entry.page - 1
-      if (index < 0 || index >= source.getPageCount()) return
-      const page = source.getPage(index)
-      const { width, height } = page.getSize()
-
-      const rectX = entry.x * width
-      const rectWidth = Math.min(width - rectX, entry.width * width)
-      const rectHeight = Math.min(height, entry.height * height)
-      const topOriginY = entry.y * height
-      const rectY = Math.max(0, height - topOriginY - rectHeight)
-
-      page.drawRectangle({
-        x: rectX,
-        y: rectY,
-        width: Math.max(1, rectWidth),
-        height: Math.max(1, rectHeight),
-        color: rgb(0, 0, 0)
-      })
-    })
+function sendResult(res, { body, filename, contentType, headers = {} }) {
+  Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value))
+  res.setHeader('Content-Type', contentType)
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+  res.send(body)
+}
 
-    await writeFile(stagePath, await source.save())
+// Reports can quote names and addresses from the file; header values must
+// be ASCII, so everything else is escaped the way JSON.parse reads it back.
+function jsonHeader(value) {
+  return JSON.stringify(value).replace(/[\u007f-\uffff]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`)
+}
 
-    const imagePrefix = path.join(tempDir, 'redacted-page')
-    await execFileAsync(pdftoppm, ['-jpeg', '-r', '220', stagePath, imagePrefix])
+// Long-running routes validate the request, then hand the work to the job
+// queue so per-binary concurrency limits hold for every caller. With
+// `async=true` the route answers 202 with the job straight away and the
+// client polls /api/jobs/:id; otherwise it waits and replies as before.
+function jobRoute(operation, prepare) {
+  return async (req, res) => {
+    let task
+    try {
+      task = await prepare(req)
+    } catch (error) {
+      res
+        .status(error instanceof OperationError ? error.status : 500)
+        .json({ error: error instanceof Error ? error.message : 'Request failed' })
+      return
+    }
 
-    const generated = (await readdir(tempDir))
-      .filter((name) => /^redacted-page-\d+\.jpg$/i.test(name))
-      .sort((a, b) => {
-        const numA = Number(a.match(/(\d+)/)?.[0] || 0)
-        const numB = Number(b.match(/(\d+)/)?.[0] || 0)
-        return numA - numB
+    const job = submitJob({ operation, ...task })
+    if (String(req.body.async ?? req.query.async ?? '') === 'true') {
+      res.status(202).json(describeJob(job))
+      return
+    }
+    await job.settled
+    if (job.status === 'failed') {
+      discardJob(job.id)
+      res.status(job.errorStatus).json({ error: job.error })
+      return
+    }
+    sendResult(res, takeJobResult(job.id))
+  }
+}
+
+app.get('/api/jobs/:id', (req, res) => {
+  const job = getJob(req.params.id)
+  if (!job) {
+    res.status(404).json({ error: 'Job not found. It may have expired or its result was already downloaded.' })
+    return
+  }
+  res.json(describeJob(job))
+})
+
+app.get('/api/jobs/:id/result', (req, res) => {
+  const job = getJob(req.params.id)
+  if (!job) {
+    res.status(404).json({ error: 'Job not found. It may have expired or its result was already downloaded.' })
+    return
+  }
+  if (job.status !== 'done') {
+    res.status(409).json({ error: job.status === 'failed' ? job.error : `Job is ${job.status}`, status: job.status })
+    return
+  }
+  sendResult(res, takeJobResult(job.id))
+})
+
+async function redactPdf({ file, mode, rules, redactions, pdftoppm }, { progress }) {
+  return withTempDir(async (tempDir) => {
+    if (rules.length) {
+      progress(0, 1, 'Searching for matching text')
+      const matches = await findRedactionMatches(file.buffer, rules).catch((error) => {
+        throw error instanceof SearchRuleError ? new OperationError(error.message) : error
       })
+      redactions.push(...matchesToRedactions(matches))
+    }
+    if (redactions.length === 0) {
+      throw new OperationError('No text matched the search rules')
+    }
 
-    if (generated.length === 0) {
-      res.status(500).json({ error: 'No rasterized pages were generated for redaction output.' })
-      return
+    const source = await PDFDocument.load(file.buffer)
+    const rectsByPage = redactionRectsByPage(source, redactions)
+
+    if (mode === 'flatten') {
+      const stagePath = path.join(tempDir, 'stage-redacted.pdf')
+      rectsByPage.forEach((rects, index) => drawRedactionRects(source.getPage(index), rects))
+      await writeFile(stagePath, await source.save())
+
+      progress(0, source.getPageCount(), 'Rasterizing pages')
+      const imagePrefix = path.join(tempDir, 'redacted-page')
+      await execFileAsync(pdftoppm, ['-jpeg', '-r', '220', stagePath, imagePrefix])
+
+      const generated = (await readdir(tempDir))
+        .filter((name) => /^redacted-page-\d+\.jpg$/i.test(name))
+        .sort((a, b) => {
+          const numA = Number(a.match(/(\d+)/)?.[0] || 0)
+          const numB = Number(b.match(/(\d+)/)?.[0] || 0)
+          return numA - numB
+        })
+
+      if (generated.length === 0) {
+        throw new OperationError('No rasterized pages were generated for redaction output.', 500)
+      }
+
+      const out = await PDFDocument.create()
+      for (const [index, imageName] of generated.entries()) {
+        const imagePath = path.join(tempDir, imageName)
+        const imageBytes = await readFile(imagePath)
+        const embedded = await out.embedJpg(imageBytes)
+        const page = out.addPage([embedded.width, embedded.height])
+        page.drawImage(embedded, { x: 0, y: 0, width: embedded.width, height: embedded.height })
+        progress(index + 1, generated.length, 'Assembling pages')
+      }
+
+      const bytes = await out.save()
+      progress(0, 1, 'Verifying redactions')
+      const allPages = new Set(out.getPageIndices())
+      const leaks = await findRedactionLeaks(bytes, redactions, allPages)
+      if (leaks.length) {
+        throw new OperationError(`Verification failed: content remains under redaction boxes on page(s) ${formatPageList(leaks)}.`, 500)
+      }
+
+      return {
+        body: Buffer.from(bytes),
+        filename: 'redacted.pdf',
+        contentType: 'application/pdf',
+        headers: { 'X-Redaction-Report': jsonHeader({ mode, pagesRasterized: out.getPageCount(), verified: true }) }
+      }
+    }
+
+    const report = { mode, pagesRedacted: rectsByPage.size, pagesRasterized: [], glyphsRemoved: 0, imagesRemoved: 0, annotationsRemoved: 0, verified: false }
+    const rasterized = new Set()
+
+    let redacted = 0
+    rectsByPage.forEach((rects, index) => {
+      const page = source.getPage(index)
+      if (mode === 'preserve') {
+        const stats = redactPageContent(page, rects)
+        report.glyphsRemoved += stats.glyphs
+        report.imagesRemoved += stats.images
+        report.annotationsRemoved += stats.annotations
+        if (stats.partialImages) rasterized.add(index)
+      } else {
+        rasterized.add(index)
+      }
+      drawRedactionRects(page, rects)
+      redacted += 1
+      progress(redacted, rectsByPage.size, 'Redacting pages')
+    })
+
+    if (rasterized.size && !pdftoppm) {
+      const pages = Array.from(rasterized, (index) => index + 1)
+      throw new OperationError(
+        `Images on page(s) ${formatPageList(pages)} are only partly covered and must be rasterized. Install poppler-utils or set PDFTOPPM_PATH.`,
+        501
+      )
     }
 
-    const out = await PDFDocument.create()
-    for (const imageName of generated) {
-      const imagePath = path.join(tempDir, imageName)
-      const imageBytes = await readFile(imagePath)
-      const embedded = await out.embedJpg(imageBytes)
-      const page = out.addPage([embedded.width, embedded.height])
-      page.drawImage(embedded, { x: 0, y: 0, width: embedded.width, height: embedded.height })
+    removeUnreachableObjects(source)
+    let bytes = await source.save()
+    if (rasterized.size) {
+      progress(0, 1, `Rasterizing ${rasterized.size} page(s)`)
+      bytes = await rasterizePages(bytes, rasterized, pdftoppm, tempDir)
     }
 
-    const bytes = await out.save()
-    res.setHeader('Content-Type', 'application/pdf')
-    res.setHeader('Content-Disposition', 'attachment; filename="redacted.pdf"')
-    res.send(Buffer.from(bytes))
+    progress(0, 1, 'Verifying redactions')
+    let leaks = await findRedactionLeaks(bytes, redactions, rasterized)
+    if (leaks.length && pdftoppm) {
+      leaks.forEach((leak) => rasterized.add(leak.page - 1))
+      bytes = await rasterizePages(bytes, leaks.map((leak) => leak.page - 1), pdftoppm, tempDir)
+      leaks = await findRedactionLeaks(bytes, redactions, rasterized)
+    }
+    if (leaks.length) {
+      throw new OperationError(`Verification failed: content remains under redaction boxes on page(s) ${formatPageList(leaks)}.`, 500)
+    }
+
+    report.pagesRasterized = Array.from(rasterized, (index) => index + 1).sort((a, b) => a - b)
+    report.verified = true
+    return {
+      body: Buffer.from(bytes),
+      filename: 'redacted.pdf',
+      contentType: 'application/pdf',
+      headers: { 'X-Redaction-Report': jsonHeader(report) }
+    }
+  })
+}
+
+app.post('/api/redact-pdf', upload.single('file'), jobRoute('redact-pdf', async (req) => {
+  const mode = REDACTION_MODES.includes(req.body.mode) ? req.body.mode : 'flatten'
+  const pdftoppm = await resolvePdftoppmBinary()
+  if (!pdftoppm && mode !== 'preserve') {
+    throw new OperationError('pdftoppm binary not found. Install poppler-utils or set PDFTOPPM_PATH.', 501)
+  }
+
+  if (!req.file) {
+    throw new OperationError('file and redactions are required')
+  }
+
+  let rules
+  try {
+    rules = parseSearchRules(req.body.search)
   } catch (error) {
-    res.status(500).json({ error: error instanceof Error ? error.message : 'Redaction failed' })
-  } finally {
-    await rm(tempDir, { recursive: true, force: true })
+    throw new OperationError(error instanceof Error ? error.message : 'Invalid search rules')
+  }
+
+  const redactions = parseRedactions(req.body.redactions)
+  if (redactions.length === 0 && rules.length === 0) {
+    throw new OperationError('file and redactions are required')
   }
-})
+
+  const input = { file: req.file, mode, rules, redactions, pdftoppm }
+  return { binaries: pdftoppm ? ['pdftoppm'] : [], run: (context) => redactPdf(input, context) }
+}))
 
 app.post('/api/pdf-to-text', upload.single('file'), async (req, res) => {
   try {
@@ -208,165 +474,624 @@ app.post('/api/pdf-to-text', upload.single('file'), async (req, res) => {
   }
 })
 
-app.post('/api/ocr', upload.single('file'), async (req, res) => {
-  let worker
+function parseOcrPages(raw) {
+  if (!raw) return null
+  let parsed
   try {
-    if (!req.file) {
-      res.status(400).json({ error: 'Missing file' })
-      return
+    parsed = JSON.parse(String(raw))
+  } catch {
+    throw new OcrRequestError('pages must be a JSON array of page numbers')
+  }
+  if (!Array.isArray(parsed)) throw new OcrRequestError('pages must be a JSON array of page numbers')
+  return parsed.map(Number)
+}
+
+app.get('/api/ocr/languages', async (_req, res) => {
+  res.json({ languages: await listOcrLanguages() })
+})
+
+function ocrRequestError(error) {
+  return error instanceof OcrRequestError ? new OperationError(error.message) : error
+}
+
+// Tesseract.js runs in-process, so recognition takes a `tesseract` slot in the
+// job queue (JOB_CONCURRENCY_TESSERACT) on top of pdftoppm for PDFs.
+async function prepareOcr(req) {
+  const file = req.file
+  if (!file) {
+    throw new OperationError('Missing file')
+  }
+
+  const isPdf = file.mimetype === 'application/pdf' || /\.pdf$/i.test(file.originalname || '')
+  const output = String(req.body.output || 'text')
+  if (!['text', 'pdf', ...Object.keys(OCR_FORMATS)].includes(output)) {
+    throw new OperationError(`output must be one of text, pdf, ${Object.keys(OCR_FORMATS).join(', ')}`)
+  }
+  if (!isPdf && !file.mimetype.startsWith('image/')) {
+    throw new OperationError('file must be a PDF or an image')
+  }
+  if (!isPdf && output === 'pdf' && !['image/png', 'image/jpeg'].includes(file.mimetype)) {
+    throw new OperationError('Searchable PDF output supports PDF, PNG and JPEG files')
+  }
+  const pdftoppm = isPdf ? await resolvePdftoppmBinary() : null
+  if (isPdf && !pdftoppm) {
+    throw new OperationError('pdftoppm binary not found. Install poppler-utils or set PDFTOPPM_PATH.', 501)
+  }
+
+  try {
+    return {
+      binaries: isPdf ? ['pdftoppm', 'tesseract'] : ['tesseract'],
+      input: {
+        file,
+        isPdf,
+        output,
+        pdftoppm,
+        skipText: String(req.body.skipText ?? 'true') !== 'false',
+        languages: await parseOcrLanguages(req.body.languages),
+        pages: parseOcrPages(req.body.pages)
+      }
     }
-    worker = await createWorker('eng')
-    const out = await worker.recognize(req.file.buffer)
-    res.json({ text: out.data?.text || '' })
   } catch (error) {
-    res.status(500).json({ error: error instanceof Error ? error.message : 'OCR failed' })
-  } finally {
-    if (worker) {
-      await worker.terminate()
+    throw ocrRequestError(error)
+  }
+}
+
+async function recognize(input, { progress }, onPage) {
+  return withTempDir(async (tempDir) => {
+    const result = await runOcr({
+      ...input,
+      tempDir,
+      onProgress: (update) => {
+        progress(update.done, update.total, `Recognized page ${update.page}`)
+        onPage?.(update)
+      }
+    }).catch((error) => {
+      throw ocrRequestError(error)
+    })
+    const document = OCR_FORMATS[input.output]
+      ? serializeOcr(input.output, result.structure, input.file.originalname || 'OCR output')
+      : undefined
+    return { result, document }
+  })
+}
+
+const ocrJobRoute = jobRoute('ocr', async (req) => {
+  const { binaries, input } = await prepareOcr(req)
+  return {
+    binaries,
+    run: async (context) => {
+      const { result, document } = await recognize(input, context)
+      const headers = { 'X-Ocr-Report': jsonHeader(result.report) }
+      if (result.pdf) {
+        return { body: Buffer.from(result.pdf), filename: 'searchable.pdf', contentType: 'application/pdf', headers }
+      }
+      const format = OCR_FORMATS[input.output]
+      if (format) {
+        return { body: document, filename: `ocr.${format.extension}`, contentType: format.contentType, headers }
+      }
+      return {
+        body: JSON.stringify({ text: result.text, pages: result.pages, structure: result.structure, report: result.report }),
+        filename: 'ocr.json',
+        contentType: 'application/json; charset=utf-8'
+      }
     }
   }
 })
 
-app.post('/api/protect-pdf', upload.single('file'), async (req, res) => {
-  const qpdf = await resolveQpdfBinary()
-  if (!qpdf) {
-    res.status(501).json({ error: 'qpdf binary not found. Set QPDF_PATH or install qpdf.' })
+// Streamed responses are newline-delimited JSON: one `progress` line per
+// recognized page, then a `done` line (or an `error` line). The job still
+// waits for its queue slots; lines start once it is running.
+async function streamOcr(req, res) {
+  let task
+  try {
+    task = await prepareOcr(req)
+  } catch (error) {
+    res
+      .status(error instanceof OperationError ? error.status : 500)
+      .json({ error: error instanceof Error ? error.message : 'OCR failed' })
     return
   }
 
-  const password = String(req.body.password || '')
-  if (!req.file || !password) {
-    res.status(400).json({ error: 'file and password are required' })
+  const sendLine = (line) => res.write(`${JSON.stringify(line)}\n`)
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.flushHeaders()
+
+  const job = submitJob({
+    operation: 'ocr',
+    binaries: task.binaries,
+    run: (context) => recognize(task.input, context, (update) => sendLine({ type: 'progress', ...update }))
+  })
+  await job.settled
+  if (job.status === 'failed') {
+    discardJob(job.id)
+    sendLine({ type: 'error', error: job.error })
+    res.end()
     return
   }
 
-  const tempDir = await mkdtemp(path.join(os.tmpdir(), 'pdf-toolkit-'))
+  const { result, document } = takeJobResult(job.id)
+  sendLine({
+    type: 'done',
+    report: result.report,
+    text: result.text,
+    pages: result.pages,
+    structure: result.structure || undefined,
+    document,
+    pdf: result.pdf ? Buffer.from(result.pdf).toString('base64') : undefined
+  })
+  res.end()
+}
+
+app.post('/api/ocr', upload.single('file'), (req, res) => (
+  String(req.body.stream || '') === 'true' ? streamOcr(req, res) : ocrJobRoute(req, res)
+))
+
+// Re-serializes an OCR structure, typically after low-confidence words were
+// corrected by hand in the browser.
+app.post('/api/ocr/format', upload.none(), (req, res) => {
   try {
-    const inputPath = path.join(tempDir, sanitizeBasename(req.file.originalname || 'input.pdf'))
-    const outputPath = path.join(tempDir, 'protected.pdf')
-    await writeFile(inputPath, req.file.buffer)
-
-    await execFileAsync(qpdf, [
-      '--encrypt',
-      password,
-      password,
-      '256',
-      '--',
-      inputPath,
-      outputPath
-    ])
-
-    const out = await readFile(outputPath)
-    res.setHeader('Content-Type', 'application/pdf')
-    res.setHeader('Content-Disposition', 'attachment; filename="protected.pdf"')
-    res.send(out)
+    const output = String(req.body.output || '')
+    const format = OCR_FORMATS[output]
+    if (!format) {
+      res.status(400).json({ error: `output must be one of ${Object.keys(OCR_FORMATS).join(', ')}` })
+      return
+    }
+    const document = serializeOcr(output, parseOcrStructure(req.body.structure), String(req.body.title || 'OCR output'))
+    res.setHeader('Content-Type', format.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="ocr.${format.extension}"`)
+    res.send(document)
   } catch (error) {
-    res.status(500).json({ error: error instanceof Error ? error.message : 'Protection failed' })
-  } finally {
-    await rm(tempDir, { recursive: true, force: true })
+    res
+      .status(error instanceof OcrRequestError ? 400 : 500)
+      .json({ error: error instanceof Error ? error.message : 'Formatting failed' })
   }
 })
 
-app.post('/api/unlock-pdf', upload.single('file'), async (req, res) => {
+app.post('/api/ocr/orientation', upload.array('pages'), jobRoute('ocr-orientation', async (req) => {
+  const files = req.files || []
+  if (!files.length) {
+    throw new OperationError('Missing page images')
+  }
+  return {
+    binaries: ['tesseract'],
+    run: async () => ({
+      body: JSON.stringify({ pages: await detectOrientation(files.map((file) => file.buffer)) }),
+      filename: 'orientation.json',
+      contentType: 'application/json; charset=utf-8'
+    })
+  }
+}))
+
+app.post('/api/protect-pdf', upload.single('file'), jobRoute('protect-pdf', async (req) => {
   const qpdf = await resolveQpdfBinary()
   if (!qpdf) {
-    res.status(501).json({ error: 'qpdf binary not found. Set QPDF_PATH or install qpdf.' })
-    return
+    throw new OperationError('qpdf binary not found. Set QPDF_PATH or install qpdf.', 501)
+  }
+
+  const file = req.file
+  if (!file) {
+    throw new OperationError('file is required')
+  }
+  const options = parseProtectionOptions(req.body)
+
+  return {
+    binaries: ['qpdf'],
+    run: () => withTempDir(async (tempDir) => {
+      const inputPath = path.join(tempDir, sanitizeBasename(file.originalname || 'input.pdf'))
+      const outputPath = path.join(tempDir, 'protected.pdf')
+      await writeFile(inputPath, file.buffer)
+
+      await execFileAsync(qpdf, qpdfEncryptArgs(options, inputPath, outputPath))
+
+      return { body: await readFile(outputPath), filename: 'protected.pdf', contentType: 'application/pdf' }
+    })
+  }
+}))
+
+app.post('/api/unlock-pdf', upload.single('file'), jobRoute('unlock-pdf', async (req) => {
+  const qpdf = await resolveQpdfBinary()
+  if (!qpdf) {
+    throw new OperationError('qpdf binary not found. Set QPDF_PATH or install qpdf.', 501)
   }
 
   const password = String(req.body.password || '')
-  if (!req.file) {
-    res.status(400).json({ error: 'file is required' })
-    return
+  const file = req.file
+  if (!file) {
+    throw new OperationError('file is required')
   }
 
-  const tempDir = await mkdtemp(path.join(os.tmpdir(), 'pdf-toolkit-'))
-  try {
-    const inputPath = path.join(tempDir, sanitizeBasename(req.file.originalname || 'input.pdf'))
-    const outputPath = path.join(tempDir, 'unlocked.pdf')
-    await writeFile(inputPath, req.file.buffer)
-
-    const args = password
-      ? [`--password=${password}`, '--decrypt', inputPath, outputPath]
-      : ['--decrypt', inputPath, outputPath]
-    await execFileAsync(qpdf, args)
-
-    const out = await readFile(outputPath)
-    res.setHeader('Content-Type', 'application/pdf')
-    res.setHeader('Content-Disposition', 'attachment; filename="unlocked.pdf"')
-    res.send(out)
-  } catch (error) {
-    res.status(500).json({ error: error instanceof Error ? error.message : 'Unlock failed' })
-  } finally {
-    await rm(tempDir, { recursive: true, force: true })
+  return {
+    binaries: ['qpdf'],
+    run: () => withTempDir(async (tempDir) => {
+      const inputPath = path.join(tempDir, sanitizeBasename(file.originalname || 'input.pdf'))
+      const outputPath = path.join(tempDir, 'unlocked.pdf')
+      await writeFile(inputPath, file.buffer)
+
+      const args = password
+        ? [`--password=${password}`, '--decrypt', inputPath, outputPath]
+        : ['--decrypt', inputPath, outputPath]
+      await execFileAsync(qpdf, args)
+
+      return { body: await readFile(outputPath), filename: 'unlocked.pdf', contentType: 'application/pdf' }
+    })
   }
-})
+}))
 
-app.post('/api/repair-pdf', upload.single('file'), async (req, res) => {
+app.post('/api/repair-pdf', upload.single('file'), jobRoute('repair-pdf', async (req) => {
   const qpdf = await resolveQpdfBinary()
   if (!qpdf) {
-    res.status(501).json({ error: 'qpdf binary not found. Set QPDF_PATH or install qpdf.' })
-    return
+    throw new OperationError('qpdf binary not found. Set QPDF_PATH or install qpdf.', 501)
   }
 
-  if (!req.file) {
-    res.status(400).json({ error: 'file is required' })
-    return
+  const file = req.file
+  if (!file) {
+    throw new OperationError('file is required')
   }
 
-  const tempDir = await mkdtemp(path.join(os.tmpdir(), 'pdf-toolkit-'))
+  return {
+    binaries: ['qpdf'],
+    run: () => withTempDir(async (tempDir) => {
+      const inputPath = path.join(tempDir, sanitizeBasename(file.originalname || 'input.pdf'))
+      const outputPath = path.join(tempDir, 'repaired.pdf')
+      await writeFile(inputPath, file.buffer)
+
+      await execFileAsync(qpdf, ['--linearize', inputPath, outputPath])
+
+      return { body: await readFile(outputPath), filename: 'repaired.pdf', contentType: 'application/pdf' }
+    })
+  }
+}))
+
+// qpdf exits with 3 when it finished with warnings and 2 on errors such as
+// a wrong password; the inspector needs the output in every case.
+async function runQpdfForOutput(qpdf, args) {
   try {
-    const inputPath = path.join(tempDir, sanitizeBasename(req.file.originalname || 'input.pdf'))
-    const outputPath = path.join(tempDir, 'repaired.pdf')
-    await writeFile(inputPath, req.file.buffer)
+    const { stdout, stderr } = await execFileAsync(qpdf, args)
+    return { code: 0, output: `${stdout}${stderr}` }
+  } catch (error) {
+    if (typeof error.code !== 'number') throw error
+    return { code: error.code, output: `${error.stdout || ''}${error.stderr || ''}` }
+  }
+}
+
+// Tries the file with no password (an empty user password) and then with the
+// supplied one, checks whichever opens it and keeps a decrypted copy for the
+// content scan.
+async function inspectWithQpdf(qpdf, inputPath, password, tempDir) {
+  const open = await runQpdfForOutput(qpdf, ['--show-encryption', inputPath])
+  const userPasswordRequired = INVALID_PASSWORD.test(open.output)
+  let encryption = userPasswordRequired ? null : open
+  let passwordArgs = []
+  let passwordAccepted = null
+  if (password) {
+    const supplied = await runQpdfForOutput(qpdf, [`--password=${password}`, '--show-encryption', inputPath])
+    passwordAccepted = !INVALID_PASSWORD.test(supplied.output)
+    if (passwordAccepted) {
+      encryption = supplied
+      passwordArgs = [`--password=${password}`]
+    }
+  }
+  if (!encryption) {
+    return { encryptionOutput: null, checkOutput: null, userPasswordRequired, passwordAccepted, decrypted: null }
+  }
+
+  const check = await runQpdfForOutput(qpdf, [...passwordArgs, '--check', inputPath])
+  let decrypted = null
+  if (!/File is not encrypted/.test(encryption.output)) {
+    const outputPath = path.join(tempDir, 'decrypted.pdf')
+    const result = await runQpdfForOutput(qpdf, [...passwordArgs, '--decrypt', inputPath, outputPath])
+    if (result.code === 0 || result.code === 3) decrypted = await readFile(outputPath)
+  }
+  return { encryptionOutput: encryption.output, checkOutput: check.output, userPasswordRequired, passwordAccepted, decrypted }
+}
+
+app.post('/api/inspect-pdf', upload.single('file'), jobRoute('inspect-pdf', async (req) => {
+  const file = req.file
+  if (!file) {
+    throw new OperationError('file is required')
+  }
+  const password = String(req.body.password || '')
+  const qpdf = await resolveQpdfBinary()
+
+  return {
+    binaries: qpdf ? ['qpdf'] : [],
+    run: async () => {
+      const report = await withTempDir(async (tempDir) => {
+        if (!qpdf) return inspectPdfSecurity(file.buffer)
+        const inputPath = path.join(tempDir, sanitizeBasename(file.originalname || 'input.pdf'))
+        await writeFile(inputPath, file.buffer)
+        return inspectPdfSecurity(file.buffer, await inspectWithQpdf(qpdf, inputPath, password, tempDir))
+      })
+      return { body: JSON.stringify(report), filename: 'inspection.json', contentType: 'application/json; charset=utf-8' }
+    }
+  }
+}))
 
-    await execFileAsync(qpdf, ['--linearize', inputPath, outputPath])
+app.post('/api/sanitize-pdf', upload.single('file'), jobRoute('sanitize-pdf', async (req) => {
+  const file = req.file
+  if (!file) {
+    throw new OperationError('file is required')
+  }
+  const options = parseSanitizeOptions(req.body)
+  const password = String(req.body.password || '')
+  const qpdf = await resolveQpdfBinary()
+
+  return {
+    binaries: qpdf ? ['qpdf'] : [],
+    run: () => withTempDir(async (tempDir) => {
+      // pdf-lib cannot rewrite an encrypted file, so qpdf decrypts it first;
+      // the sanitized copy is written without encryption.
+      let input = file.buffer
+      const probe = await PDFDocument.load(input, { ignoreEncryption: true, updateMetadata: false })
+      if (probe.isEncrypted) {
+        if (!qpdf) {
+          throw new OperationError('The file is encrypted and qpdf is needed to decrypt it. Set QPDF_PATH or install qpdf.', 501)
+        }
+        const inputPath = path.join(tempDir, sanitizeBasename(file.originalname || 'input.pdf'))
+        const decryptedPath = path.join(tempDir, 'decrypted.pdf')
+        await writeFile(inputPath, file.buffer)
+        const passwordArgs = password ? [`--password=${password}`] : []
+        const result = await runQpdfForOutput(qpdf, [...passwordArgs, '--decrypt', inputPath, decryptedPath])
+        if (INVALID_PASSWORD.test(result.output)) {
+          throw new OperationError(password ? 'The password is not correct' : 'The file needs a password to open')
+        }
+        if (result.code !== 0 && result.code !== 3) {
+          throw new OperationError(`qpdf could not decrypt the file: ${result.output.trim()}`, 500)
+        }
+        input = await readFile(decryptedPath)
+      }
+
+      const { bytes, report } = await sanitizePdf(input, options)
+      return {
+        body: Buffer.from(bytes),
+        filename: 'sanitized.pdf',
+        contentType: 'application/pdf',
+        headers: { 'X-Sanitize-Report': jsonHeader({ ...report, decrypted: probe.isEncrypted }) }
+      }
+    })
+  }
+}))
+
+// Each call appends one signature as an incremental update, so a signed
+// output can be sent back to add further signatures.
+app.post(
+  '/api/sign-pdf',
+  upload.fields([
+    { name: 'file', maxCount: 1 },
+    { name: 'certificate', maxCount: 1 }
+  ]),
+  jobRoute('sign-pdf', async (req) => {
+    const file = req.files?.file?.[0]
+    const certificate = req.files?.certificate?.[0]
+    if (!file || !certificate) {
+      throw new OperationError('file and certificate are required')
+    }
+    const page = req.body.page ? Number(req.body.page) : null
+    if (page !== null && !Number.isInteger(page)) {
+      throw new OperationError('page must be a whole number')
+    }
+    const signing = readPkcs12(certificate.buffer, String(req.body.password || ''))
+    const options = {
+      page,
+      box: parseSignatureBox(req.body.box),
+      reason: String(req.body.reason || '').trim(),
+      location: String(req.body.location || '').trim(),
+      contactInfo: String(req.body.contactInfo || '').trim(),
+      fieldName: String(req.body.fieldName || '').trim()
+    }
+
+    // Signing runs in-process; the `signing` slot (JOB_CONCURRENCY_SIGNING)
+    // keeps a burst of requests from tying up the server.
+    return {
+      binaries: ['signing'],
+      run: async () => {
+        const { bytes, report } = await signPdf(file.buffer, signing, options)
+        return {
+          body: bytes,
+          filename: 'signed.pdf',
+          contentType: 'application/pdf',
+          headers: { 'X-Signature-Report': jsonHeader(report) }
+        }
+      }
+    }
+  })
+)
 
-    const out = await readFile(outputPath)
-    res.setHeader('Content-Type', 'application/pdf')
-    res.setHeader('Content-Disposition', 'attachment; filename="repaired.pdf"')
-    res.send(out)
+app.post('/api/verify-signatures', upload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'file is required' })
+      return
+    }
+    res.json(await verifyPdfSignatures(req.file.buffer))
   } catch (error) {
-    res.status(500).json({ error: error instanceof Error ? error.message : 'Repair failed' })
-  } finally {
-    await rm(tempDir, { recursive: true, force: true })
+    res
+      .status(error instanceof OperationError ? error.status : 500)
+      .json({ error: error instanceof Error ? error.message : 'Verification failed' })
   }
 })
 
-app.post('/api/convert', upload.single('file'), async (req, res) => {
+app.post('/api/compress-pdf', upload.single('file'), jobRoute('compress-pdf', async (req) => {
+  const ghostscript = await resolveGhostscriptBinary()
+  const qpdf = await resolveQpdfBinary()
+  if (!ghostscript && !qpdf) {
+    throw new OperationError('Ghostscript or qpdf is required. Set GHOSTSCRIPT_PATH / QPDF_PATH or install them.', 501)
+  }
+
+  const file = req.file
+  if (!file) {
+    throw new OperationError('file is required')
+  }
+
+  const presetName = String(req.body.preset || 'medium')
+  const preset = COMPRESSION_PRESETS[presetName]
+  if (!preset) {
+    throw new OperationError(`preset must be one of: ${Object.keys(COMPRESSION_PRESETS).join(', ')}`)
+  }
+  const stripMetadata = String(req.body.stripMetadata ?? 'true') !== 'false'
+  const steps = 1 + Number(Boolean(ghostscript)) + Number(Boolean(qpdf))
+
+  return {
+    binaries: [ghostscript && 'ghostscript', qpdf && 'qpdf'].filter(Boolean),
+    run: ({ progress }) => withTempDir(async (tempDir) => {
+      const inputPath = path.join(tempDir, 'input.pdf')
+      const engines = []
+      let current = file.buffer
+      await writeFile(inputPath, current)
+
+      // Ghostscript rewrites every image at the preset DPI and JPEG quality.
+      if (ghostscript) {
+        progress(engines.length, steps, 'Downsampling images with Ghostscript')
+        const outputPath = path.join(tempDir, 'downsampled.pdf')
+        await execFileAsync(ghostscript, ghostscriptCompressArgs(preset, inputPath, outputPath), { windowsHide: true })
+        current = await readFile(outputPath)
+        engines.push('ghostscript')
+      }
+
+      progress(engines.length, steps, 'Removing unused objects')
+      current = Buffer.from(await stripPdfExtras(current, stripMetadata))
+      engines.push('pdf-lib')
+
+      if (qpdf) {
+        progress(engines.length, steps, 'Recompressing streams with qpdf')
+        const strippedPath = path.join(tempDir, 'stripped.pdf')
+        const outputPath = path.join(tempDir, 'compressed.pdf')
+        await writeFile(strippedPath, current)
+        await execFileAsync(qpdf, qpdfCompressArgs(strippedPath, outputPath))
+        current = await readFile(outputPath)
+        engines.push('qpdf')
+      }
+
+      const out = current.length < file.buffer.length ? current : file.buffer
+      return {
+        body: out,
+        filename: 'compressed.pdf',
+        contentType: 'application/pdf',
+        headers: {
+          'X-Compression-Report': jsonHeader({
+            preset: presetName,
+            before: file.buffer.length,
+            after: out.length,
+            engines,
+            imagesDownsampled: Boolean(ghostscript)
+          })
+        }
+      }
+    })
+  }
+}))
+
+app.post('/api/convert', upload.single('file'), jobRoute('convert', async (req) => {
   const soffice = await resolveLibreOfficeBinary()
   if (!soffice) {
-    res.status(501).json({ error: 'LibreOffice binary not found. Set LIBREOFFICE_PATH or install LibreOffice.' })
-    return
+    throw new OperationError('LibreOffice binary not found. Set LIBREOFFICE_PATH or install LibreOffice.', 501)
   }
 
   const target = String(req.body.target || '').toLowerCase()
-  if (!req.file || !target) {
-    res.status(400).json({ error: 'file and target are required' })
-    return
+  const file = req.file
+  if (!file || !target) {
+    throw new OperationError('file and target are required')
   }
 
-  const tempDir = await mkdtemp(path.join(os.tmpdir(), 'pdf-toolkit-'))
-  try {
-    const inputName = sanitizeBasename(req.file.originalname || 'input.bin')
-    const inputPath = path.join(tempDir, inputName)
-    await writeFile(inputPath, req.file.buffer)
+  return {
+    binaries: ['soffice'],
+    run: () => withTempDir(async (tempDir) => {
+      const inputName = sanitizeBasename(file.originalname || 'input.bin')
+      const inputPath = path.join(tempDir, inputName)
+      await writeFile(inputPath, file.buffer)
 
-    await execFileAsync(soffice, ['--headless', '--convert-to', target, '--outdir', tempDir, inputPath], {
-      windowsHide: true
+      await execFileAsync(soffice, ['--headless', '--convert-to', target, '--outdir', tempDir, inputPath], {
+        windowsHide: true
+      })
+
+      const base = inputName.includes('.') ? inputName.slice(0, inputName.lastIndexOf('.')) : inputName
+      const outputPath = path.join(tempDir, `${base}.${target}`)
+      return { body: await readFile(outputPath), filename: `${base}.${target}`, contentType: 'application/octet-stream' }
     })
+  }
+}))
 
-    const base = inputName.includes('.') ? inputName.slice(0, inputName.lastIndexOf('.')) : inputName
-    const outputPath = path.join(tempDir, `${base}.${target}`)
-    const out = await readFile(outputPath)
+function parsePdfaLevel(raw) {
+  const level = String(raw || '2b').toLowerCase()
+  if (!PDFA_LEVELS[level]) {
+    throw new OperationError(`level must be one of: ${Object.keys(PDFA_LEVELS).join(', ')}`)
+  }
+  return level
+}
 
-    res.setHeader('Content-Type', 'application/octet-stream')
-    res.setHeader('Content-Disposition', `attachment; filename="${base}.${target}"`)
-    res.send(out)
+const PDFA_ENGINES = ['auto', 'ghostscript', 'libreoffice']
+
+app.post('/api/pdf-to-pdfa', upload.single('file'), jobRoute('pdf-to-pdfa', async (req) => {
+  const file = req.file
+  if (!file) {
+    throw new OperationError('file is required')
+  }
+  const level = parsePdfaLevel(req.body.level)
+  const requested = String(req.body.engine || 'auto')
+  if (!PDFA_ENGINES.includes(requested)) {
+    throw new OperationError(`engine must be one of: ${PDFA_ENGINES.join(', ')}`)
+  }
+
+  const engines = await resolvePdfaEngines()
+  const engine = requested === 'auto'
+    ? ['ghostscript', 'libreoffice'].find((name) => engines[name])
+    : requested
+  if (!engine || !engines[engine]) {
+    const hint = engines.ghostscriptWithoutProfile
+      ? ' Ghostscript was found but no sRGB ICC profile; set PDFA_ICC_PROFILE.'
+      : ' Set GHOSTSCRIPT_PATH / LIBREOFFICE_PATH or install them.'
+    throw new OperationError(`No PDF/A engine available (${requested === 'auto' ? 'Ghostscript or LibreOffice' : requested}).${hint}`, 501)
+  }
+
+  return {
+    binaries: [engine === 'ghostscript' ? 'ghostscript' : 'soffice'],
+    run: ({ progress }) => withTempDir(async (tempDir) => {
+      const inputName = sanitizeBasename(file.originalname || 'input.pdf').replace(/\.pdf$/i, '') || 'input'
+      const inputPath = path.join(tempDir, `${inputName}.pdf`)
+      await writeFile(inputPath, file.buffer)
+
+      let outputPath
+      progress(0, 2, `Converting to PDF/A-${level} with ${engine === 'ghostscript' ? 'Ghostscript' : 'LibreOffice'}`)
+      if (engine === 'ghostscript') {
+        const { binary, iccProfile } = engines.ghostscript
+        const definitionPath = await writePdfaDefinition(tempDir, iccProfile)
+        outputPath = path.join(tempDir, 'pdfa-output.pdf')
+        await execFileAsync(binary, ghostscriptPdfaArgs(level, definitionPath, iccProfile, inputPath, outputPath), {
+          windowsHide: true
+        })
+      } else {
+        // The export keeps the input's name, so it goes to its own folder.
+        const outDir = path.join(tempDir, 'out')
+        await mkdir(outDir)
+        await execFileAsync(engines.libreoffice, libreOfficePdfaArgs(level, inputPath, outDir), { windowsHide: true })
+        outputPath = path.join(outDir, `${inputName}.pdf`)
+      }
+
+      const out = await readFile(outputPath)
+      progress(1, 2, 'Validating the result')
+      const report = { engine, ...(await validatePdfA(out, level)) }
+      return {
+        body: out,
+        filename: `${inputName}-pdfa.pdf`,
+        contentType: 'application/pdf',
+        headers: { 'X-Pdfa-Report': jsonHeader(report) }
+      }
+    })
+  }
+}))
+
+app.post('/api/pdfa/validate', upload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'file is required' })
+      return
+    }
+    res.json(await validatePdfA(req.file.buffer, parsePdfaLevel(req.body.level)))
   } catch (error) {
-    res.status(500).json({ error: error instanceof Error ? error.message : 'Conversion failed' })
-  } finally {
-    await rm(tempDir, { recursive: true, force: true })
+    res
+      .status(error instanceof OperationError ? error.status : 500)
+      .json({ error: error instanceof Error ? error.message : 'Validation failed' })
   }
 })
 
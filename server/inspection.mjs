@@ -0,0 +1,270 @@
+import { PDFDict, PDFDocument, PDFName, PDFNumber, PDFRef, PDFStream } from 'pdf-lib'
+import { forEachDict, nameOf, plural, textOf } from './pdfObjects.mjs'
+
+// "Is this PDF safe to open": encryption and permissions, structure, and the
+// active or external content a file can carry. qpdf answers what pdf-lib
+// cannot (whether a user password is needed, linearization, damage) and
+// decrypts the file so its objects can be scanned; without qpdf the report
+// is built from pdf-lib alone.
+
+export const INVALID_PASSWORD = /invalid password/i
+
+const QPDF_PERMISSIONS = {
+  'extract for any purpose': 'copy',
+  'modify other': 'modify',
+  'modify annotations': 'annotate',
+  'modify forms': 'forms',
+  'modify document assembly': 'assembly',
+  'extract for accessibility': 'accessibility'
+}
+
+const QPDF_METHODS = { AESv3: 'AES-256', AESv2: 'AES-128', RC4: 'RC4', None: 'none' }
+
+// Attachments that run code when opened from the viewer.
+const EXECUTABLE_EXTENSION = /\.(exe|com|bat|cmd|scr|msi|js|jse|vbs|vbe|wsf|ps1|jar|app|sh|lnk|hta|dll)$/i
+
+// Bits of the /P entry (ISO 32000-1, table 22), numbered from 1.
+function permissionsFromBits(p, revision) {
+  const bit = (n) => (p & (1 << (n - 1))) !== 0
+  const print = bit(3) ? (revision >= 3 && !bit(12) ? 'low' : 'full') : 'none'
+  if (revision < 3) {
+    return { print, copy: bit(5), modify: bit(4), annotate: bit(6), forms: bit(6), assembly: bit(4), accessibility: bit(5) }
+  }
+  return { print, copy: bit(5), modify: bit(4), annotate: bit(6), forms: bit(9), assembly: bit(11), accessibility: bit(10) }
+}
+
+function encryptionAlgorithm(encrypt) {
+  const filter = nameOf(encrypt.get(PDFName.of('Filter')))
+  if (filter && filter !== 'Standard') return `${filter} security handler`
+  const version = encrypt.lookupMaybe(PDFName.of('V'), PDFNumber)?.asNumber() ?? 0
+  const length = encrypt.lookupMaybe(PDFName.of('Length'), PDFNumber)?.asNumber() ?? 40
+  if (version === 1) return 'RC4 40-bit'
+  if (version === 2 || version === 3) return `RC4 ${length}-bit`
+  if (version >= 4) {
+    const streamFilter = nameOf(encrypt.get(PDFName.of('StmF'))) || 'Identity'
+    const cryptFilter = encrypt.lookupMaybe(PDFName.of('CF'), PDFDict)?.lookupMaybe(PDFName.of(streamFilter), PDFDict)
+    const method = nameOf(cryptFilter?.get(PDFName.of('CFM')))
+    if (method === 'AESV3' || version === 5) return 'AES-256'
+    if (method === 'AESV2') return 'AES-128'
+    if (method === 'V2') return 'RC4 128-bit'
+    return 'none (identity crypt filter)'
+  }
+  return 'unknown'
+}
+
+function readEncryption(context) {
+  const encrypt = context.lookup(context.trailerInfo.Encrypt)
+  if (!(encrypt instanceof PDFDict)) return null
+  const revision = encrypt.lookupMaybe(PDFName.of('R'), PDFNumber)?.asNumber() ?? 0
+  const p = encrypt.lookupMaybe(PDFName.of('P'), PDFNumber)?.asNumber() ?? -1
+  const encryptMetadata = encrypt.get(PDFName.of('EncryptMetadata'))
+  return {
+    algorithm: encryptionAlgorithm(encrypt),
+    revision,
+    permissionBits: p,
+    permissions: permissionsFromBits(p, revision),
+    metadataEncrypted: encryptMetadata ? encryptMetadata.toString() !== 'false' : true
+  }
+}
+
+export function parseQpdfEncryption(output) {
+  if (/File is not encrypted/.test(output)) return null
+  const permissions = {}
+  for (const [label, key] of Object.entries(QPDF_PERMISSIONS)) {
+    const match = output.match(new RegExp(`^${label}: (allowed|not allowed)`, 'm'))
+    if (match) permissions[key] = match[1] === 'allowed'
+  }
+  const high = output.match(/^print high resolution: (allowed|not allowed)/m)
+  const low = output.match(/^print low resolution: (allowed|not allowed)/m)
+  if (high && low) {
+    permissions.print = high[1] === 'allowed' ? 'full' : low[1] === 'allowed' ? 'low' : 'none'
+  }
+  const method = output.match(/^stream encryption method: (\S+)/m)?.[1]
+  return {
+    permissions,
+    method: method ? QPDF_METHODS[method] || method : null,
+    ownerPasswordSupplied: /Supplied password is owner password/.test(output)
+  }
+}
+
+export function parseQpdfCheck(output) {
+  const linearized = /File is linearized/.test(output) ? true : /File is not linearized/.test(output) ? false : null
+  const problems = output
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => /^WARNING:|^ERROR:|linearization data/i.test(line) && !/^checking /.test(line))
+  return {
+    linearized,
+    version: output.match(/^PDF Version: (\S+)/m)?.[1] || null,
+    clean: /No syntax or stream encoding errors found/.test(output) && !problems.length,
+    problems
+  }
+}
+
+function fileSpecName(value, context) {
+  const spec = context.lookup(value)
+  if (spec instanceof PDFDict) {
+    return textOf(spec.lookup(PDFName.of('UF'))) || textOf(spec.lookup(PDFName.of('F'))) || null
+  }
+  return textOf(spec)
+}
+
+function attachmentSize(spec) {
+  const files = spec.lookupMaybe(PDFName.of('EF'), PDFDict)
+  const stream = files?.lookupMaybe(PDFName.of('UF'), PDFStream) || files?.lookupMaybe(PDFName.of('F'), PDFStream)
+  if (!stream) return null
+  const declared = stream.dict.lookupMaybe(PDFName.of('Params'), PDFDict)?.lookupMaybe(PDFName.of('Size'), PDFNumber)
+  return declared ? declared.asNumber() : null
+}
+
+// Walks every object for actions, triggers, attachments and outside
+// references. Strings in an encrypted file are unreadable, so targets are
+// only named when the scan runs on a decrypted copy.
+function scanContent(doc) {
+  const { context, catalog } = doc
+  const found = {
+    javascript: 0,
+    launchActions: [],
+    automaticActions: [],
+    attachments: [],
+    externalLinks: [],
+    xfa: false
+  }
+
+  const openAction = catalog.get(PDFName.of('OpenAction'))
+  const openActionDict = openAction instanceof PDFRef || openAction instanceof PDFDict ? context.lookup(openAction) : null
+  if (openActionDict instanceof PDFDict && openActionDict.has(PDFName.of('S'))) {
+    found.automaticActions.push(`OpenAction (${nameOf(openActionDict.get(PDFName.of('S')))})`)
+  }
+  if (catalog.has(PDFName.of('AA'))) found.automaticActions.push('document additional actions')
+  const form = catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict)
+  found.xfa = Boolean(form?.has(PDFName.of('XFA')))
+
+  const pageNumbers = new Map(doc.getPages().map((page, index) => [page.node, index + 1]))
+  let triggeredAnnotations = 0
+
+  forEachDict(context, (dict, object) => {
+    const type = nameOf(dict.get(PDFName.of('Type')))
+    const action = nameOf(dict.get(PDFName.of('S')))
+
+    if (pageNumbers.has(object) && dict.has(PDFName.of('AA'))) {
+      found.automaticActions.push(`page ${pageNumbers.get(object)} open/close actions`)
+    } else if (dict !== catalog && !pageNumbers.has(object) && dict.has(PDFName.of('AA'))) {
+      triggeredAnnotations += 1
+    }
+
+    if (action === 'JavaScript' || (action === 'Rendition' && dict.has(PDFName.of('JS')))) {
+      found.javascript += 1
+    } else if (action === 'Launch') {
+      const windows = dict.lookupMaybe(PDFName.of('Win'), PDFDict)
+      const target = fileSpecName(dict.get(PDFName.of('F')), context) || textOf(windows?.lookup(PDFName.of('F')))
+      found.launchActions.push(target || '(unreadable target)')
+    } else if (action === 'URI') {
+      found.externalLinks.push({ type: 'URI', target: textOf(context.lookup(dict.get(PDFName.of('URI')))) })
+    } else if (['GoToR', 'GoToE', 'SubmitForm', 'ImportData'].includes(action)) {
+      found.externalLinks.push({ type: action, target: fileSpecName(dict.get(PDFName.of('F')), context) })
+    }
+
+    if (type === 'Filespec' && dict.has(PDFName.of('EF'))) {
+      found.attachments.push({ name: fileSpecName(object, context) || '(unnamed)', size: attachmentSize(dict) })
+    }
+  })
+
+  if (triggeredAnnotations) {
+    found.automaticActions.push(`${plural(triggeredAnnotations, 'field or annotation')} with trigger actions`)
+  }
+  return found
+}
+
+// Without the password an encrypted file's strings are ciphertext; the
+// counts still hold but the names and targets are meaningless.
+function hideEncryptedStrings(content) {
+  return {
+    ...content,
+    launchActions: content.launchActions.map(() => '(encrypted target)'),
+    attachments: content.attachments.map((file) => ({ ...file, name: '(encrypted name)' })),
+    externalLinks: content.externalLinks.map((link) => ({ ...link, target: null }))
+  }
+}
+
+function summarize(report) {
+  const findings = []
+  const add = (severity, message) => findings.push({ severity, message })
+  const { content, encryption, qpdf } = report
+
+  if (content.javascript) add('high', `${plural(content.javascript, 'JavaScript action')}.`)
+  if (content.launchActions.length) {
+    add('high', `${plural(content.launchActions.length, 'launch action')} that can start programs: ${content.launchActions.join(', ')}.`)
+  }
+  const executables = content.attachments.filter((file) => EXECUTABLE_EXTENSION.test(file.name))
+  if (executables.length) {
+    add('high', `Executable attachments: ${executables.map((file) => file.name).join(', ')}.`)
+  }
+  if (content.attachments.length > executables.length) {
+    add('medium', `${plural(content.attachments.length - executables.length, 'other attachment')}.`)
+  }
+  if (content.automaticActions.length) {
+    add('medium', `Runs actions without a click: ${content.automaticActions.join(', ')}.`)
+  }
+  if (content.xfa) add('medium', 'The form is an XFA form, which some viewers run as a scripted application.')
+  const outbound = content.externalLinks.filter((link) => link.type !== 'URI')
+  if (outbound.length) {
+    add('medium', `${plural(outbound.length, 'action')} that open other files or send form data (${[...new Set(outbound.map((link) => link.type))].join(', ')}).`)
+  }
+  const uris = content.externalLinks.length - outbound.length
+  if (uris) add('low', `${plural(uris, 'link')} to web addresses.`)
+  if (encryption) {
+    add('low', `Encrypted with ${encryption.algorithm}${encryption.userPasswordRequired ? '; a password is needed to open it' : ''}.`)
+  }
+  if (!report.scannedDecrypted && encryption) {
+    add('low', 'The objects are encrypted and could not be decrypted, so the content scan may be incomplete.')
+  }
+  if (qpdf?.check && !qpdf.check.clean) {
+    add('medium', `qpdf reported ${plural(qpdf.check.problems.length, 'structural problem')}.`)
+  }
+
+  const verdict = findings.some((finding) => finding.severity === 'high')
+    ? 'unsafe'
+    : findings.some((finding) => finding.severity === 'medium')
+      ? 'caution'
+      : 'safe'
+  return { verdict, findings }
+}
+
+function headerVersion(buffer) {
+  return Buffer.from(buffer.subarray(0, 1024)).toString('latin1').match(/%PDF-(\d\.\d)/)?.[1] || null
+}
+
+// `qpdf` carries the raw output of the qpdf runs and the decrypted bytes
+// when they could be produced: { encryptionOutput, checkOutput,
+// userPasswordRequired, passwordAccepted, decrypted }.
+export async function inspectPdfSecurity(buffer, qpdf = null) {
+  const original = await PDFDocument.load(buffer, { ignoreEncryption: true, updateMetadata: false })
+  const encryption = readEncryption(original.context)
+  const scanned = qpdf?.decrypted
+    ? await PDFDocument.load(qpdf.decrypted, { updateMetadata: false })
+    : original
+
+  const scannedDecrypted = !encryption || Boolean(qpdf?.decrypted)
+  const catalogVersion = nameOf(original.catalog.get(PDFName.of('Version')))
+  const check = qpdf?.checkOutput ? parseQpdfCheck(qpdf.checkOutput) : null
+  const fromQpdf = qpdf?.encryptionOutput ? parseQpdfEncryption(qpdf.encryptionOutput) : null
+
+  const report = {
+    version: catalogVersion || check?.version || headerVersion(buffer),
+    pages: original.getPageCount(),
+    linearized: check?.linearized ?? /\/Linearized\b/.test(Buffer.from(buffer.subarray(0, 1024)).toString('latin1')),
+    encryption: encryption && {
+      ...encryption,
+      algorithm: fromQpdf?.method && encryption.algorithm === 'unknown' ? fromQpdf.method : encryption.algorithm,
+      permissions: { ...encryption.permissions, ...fromQpdf?.permissions },
+      userPasswordRequired: qpdf ? qpdf.userPasswordRequired : null,
+      passwordAccepted: qpdf?.passwordAccepted ?? null,
+      ownerPasswordSupplied: fromQpdf?.ownerPasswordSupplied ?? false
+    },
+    content: scannedDecrypted ? scanContent(scanned) : hideEncryptedStrings(scanContent(scanned)),
+    scannedDecrypted,
+    qpdf: qpdf ? { available: true, check } : { available: false, check: null }
+  }
+  return { ...report, ...summarize(report) }
+}
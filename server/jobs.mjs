@@ -0,0 +1,145 @@
+import { randomUUID } from 'node:crypto'
+
+// Raised by an operation while it checks a request, before anything is
+// queued, or by a running job; `status` becomes the HTTP status.
+export class OperationError extends Error {
+  constructor(message, status = 400) {
+    super(message)
+    this.status = status
+  }
+}
+
+const DEFAULT_CONCURRENCY = 2
+
+// LibreOffice shares one user profile between processes, and a second
+// soffice started while one is converting fails or hands its work to the
+// first, so conversions are serialized unless configured otherwise.
+const BINARY_CONCURRENCY = { soffice: 1 }
+
+const RESULT_TTL_MS = Number(process.env.JOB_RESULT_TTL_MINUTES || 60) * 60 * 1000
+
+const jobs = new Map()
+const queue = []
+const running = new Map()
+
+// JOB_CONCURRENCY_<BINARY> (e.g. JOB_CONCURRENCY_SOFFICE) wins over the
+// built-in default for that binary, which wins over JOB_CONCURRENCY.
+export function concurrencyLimit(binary) {
+  const configured = process.env[`JOB_CONCURRENCY_${binary.toUpperCase()}`]
+    ?? BINARY_CONCURRENCY[binary]
+    ?? process.env.JOB_CONCURRENCY
+    ?? DEFAULT_CONCURRENCY
+  const limit = Math.floor(Number(configured))
+  return Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_CONCURRENCY
+}
+
+function canStart(job) {
+  return job.binaries.every((binary) => (running.get(binary) || 0) < concurrencyLimit(binary))
+}
+
+// Starts every queued job whose binaries all have a free slot, oldest
+// first; a job waiting on a busy binary does not hold up the others.
+function dispatch() {
+  for (let index = 0; index < queue.length;) {
+    if (canStart(queue[index])) {
+      start(queue.splice(index, 1)[0])
+    } else {
+      index += 1
+    }
+  }
+}
+
+function start(job) {
+  job.binaries.forEach((binary) => running.set(binary, (running.get(binary) || 0) + 1))
+  job.status = 'running'
+  job.startedAt = new Date().toISOString()
+  const progress = (done, total, message) => {
+    job.progress = { done, total }
+    if (message) job.message = message
+  }
+
+  job.run({ progress })
+    .then((result) => {
+      job.status = 'done'
+      job.result = result
+      job.progress = job.progress && { done: job.progress.total, total: job.progress.total }
+    })
+    .catch((error) => {
+      job.status = 'failed'
+      job.error = error instanceof Error ? error.message : String(error)
+      job.errorStatus = error instanceof OperationError ? error.status : 500
+    })
+    .finally(() => {
+      job.binaries.forEach((binary) => running.set(binary, running.get(binary) - 1))
+      job.finishedAt = new Date().toISOString()
+      // Unclaimed results are dropped so the memory they hold is released.
+      setTimeout(() => jobs.delete(job.id), RESULT_TTL_MS).unref()
+      job.resolve(job)
+      dispatch()
+    })
+}
+
+// Queues `run({ progress })`, which resolves to { body, filename,
+// contentType, headers }. `binaries` are the external programs the job
+// starts; each one's concurrency limit applies across all jobs.
+export function submitJob({ operation, binaries = [], run }) {
+  const job = {
+    id: randomUUID(),
+    operation,
+    binaries,
+    run,
+    status: 'queued',
+    progress: null,
+    message: '',
+    error: null,
+    result: null,
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null
+  }
+  job.settled = new Promise((resolve) => {
+    job.resolve = resolve
+  })
+  jobs.set(job.id, job)
+  queue.push(job)
+  dispatch()
+  return job
+}
+
+export function getJob(id) {
+  return jobs.get(id) || null
+}
+
+// Results can be downloaded once; the job is forgotten afterwards.
+export function takeJobResult(id) {
+  const job = jobs.get(id)
+  if (!job || job.status !== 'done') return null
+  jobs.delete(id)
+  return job.result
+}
+
+export function discardJob(id) {
+  jobs.delete(id)
+}
+
+export function describeJob(job) {
+  return {
+    id: job.id,
+    operation: job.operation,
+    status: job.status,
+    position: job.status === 'queued' ? queue.indexOf(job) + 1 : null,
+    progress: job.progress,
+    message: job.message,
+    error: job.error,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt
+  }
+}
+
+export function jobQueueStats() {
+  return {
+    queued: queue.length,
+    running: Object.fromEntries(Array.from(running).filter(([, count]) => count > 0))
+  }
+}
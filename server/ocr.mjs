@@ -0,0 +1,357 @@
+import path from 'node:path'
+import { access, readFile, readdir, writeFile } from 'node:fs/promises'
+import { execFile } from 'node:child_process'
+import { fileURLToPath } from 'node:url'
+import { promisify } from 'node:util'
+import { OEM, createWorker } from 'tesseract.js'
+import {
+  PDFDocument,
+  StandardFonts,
+  TextRenderingMode,
+  beginText,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  setCharacterSqueeze,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText
+} from 'pdf-lib'
+import { displayToUser, pageGeometry } from '../shared/pageGeometry.mjs'
+import { openTextDocument } from './textLayer.mjs'
+
+const execFileAsync = promisify(execFile)
+
+export const OCR_DPI = 300
+
+// Traineddata bundled with the server (the Docker image downloads it at
+// build time) so OCR works offline. Languages that are not installed
+// locally fall back to the tesseract.js CDN, which needs network access.
+const TESSDATA_DIR = process.env.TESSDATA_PATH || path.join(path.dirname(fileURLToPath(import.meta.url)), 'tessdata')
+
+export class OcrRequestError extends Error {}
+
+export async function listOcrLanguages() {
+  try {
+    return (await readdir(TESSDATA_DIR))
+      .filter((name) => name.endsWith('.traineddata') && name !== 'osd.traineddata')
+      .map((name) => name.replace(/\.traineddata$/, ''))
+      .sort()
+  } catch {
+    return []
+  }
+}
+
+// Accepts Tesseract's `eng+deu` form. When traineddata is bundled, only
+// installed languages are allowed so a typo cannot trigger a download.
+export async function parseOcrLanguages(raw) {
+  const languages = String(raw || 'eng')
+    .split('+')
+    .map((value) => value.trim())
+    .filter(Boolean)
+  if (!languages.length) throw new OcrRequestError('At least one OCR language is required')
+  const invalid = languages.find((language) => !/^[a-z]{3}(_[a-z]+)?$/i.test(language))
+  if (invalid) throw new OcrRequestError(`Invalid OCR language code: ${invalid}`)
+  const installed = await listOcrLanguages()
+  const missing = languages.filter((language) => !installed.includes(language))
+  if (installed.length && missing.length) {
+    throw new OcrRequestError(`OCR language not installed: ${missing.join(', ')}. Installed: ${installed.join(', ')}`)
+  }
+  return languages.join('+')
+}
+
+async function hasLocalData(languages) {
+  try {
+    await Promise.all(languages.split('+').map((language) => access(path.join(TESSDATA_DIR, `${language}.traineddata`))))
+    return true
+  } catch {
+    return false
+  }
+}
+
+// tesseract.js rethrows worker failures outside any promise unless an
+// errorHandler is set, and never settles createWorker when a model fails to
+// load, so the handler rejects the pending creation instead.
+async function startWorker(languages, oem, options = {}) {
+  // Local files are read as plain .traineddata (gzip is still detected by
+  // content) and are not copied into tesseract.js's cache in the cwd.
+  const local = (await hasLocalData(languages)) ? { langPath: TESSDATA_DIR, gzip: false, cacheMethod: 'none' } : {}
+  return new Promise((resolve, reject) => {
+    createWorker(languages, oem, {
+      ...local,
+      ...options,
+      errorHandler: (error) => reject(new Error(`Tesseract failed: ${error}`))
+    }).then(resolve, reject)
+  })
+}
+
+// Orientation and script detection only exists in Tesseract's legacy engine,
+// so the OSD worker loads the legacy core and the `osd` model.
+function createOsdWorker() {
+  return startWorker('osd', OEM.TESSERACT_ONLY, { legacyCore: true, legacyLang: true })
+}
+
+export function createOcrWorker(languages = 'eng') {
+  return startWorker(languages, OEM.LSTM_ONLY)
+}
+
+// For each image, the clockwise rotation (0, 90, 180 or 270) that makes its
+// text upright, with Tesseract's confidence. Pages without enough text to
+// decide (blank pages, photos) come back as null.
+export async function detectOrientation(images) {
+  const worker = await createOsdWorker()
+  try {
+    const results = []
+    for (const image of images) {
+      try {
+        const { data } = await worker.detect(image)
+        results.push(
+          data.orientation_degrees === null
+            ? null
+            : { rotate: data.orientation_degrees, confidence: data.orientation_confidence, script: data.script }
+        )
+      } catch {
+        results.push(null)
+      }
+    }
+    return results
+  } finally {
+    await worker.terminate()
+  }
+}
+
+// Recognizes one page image and flattens Tesseract's block tree to lines,
+// each keeping its words with pixel bounding boxes. The tree itself is
+// returned too for the structured output formats.
+export async function recognizeLines(worker, image) {
+  const { data } = await worker.recognize(image, {}, { text: true, blocks: true, hocr: false, tsv: false })
+  const blocks = data.blocks || []
+  const lines = blocks.flatMap((block) => block.paragraphs.flatMap((paragraph) => paragraph.lines))
+  return { text: data.text || '', confidence: data.confidence, lines, blocks }
+}
+
+function roundConfidence(value) {
+  return Math.round((value || 0) * 100) / 100
+}
+
+function plainBox({ x0, y0, x1, y1 }) {
+  return { x0, y0, x1, y1 }
+}
+
+// Tesseract's blocks link back to their parents (and carry symbols), so they
+// cannot be serialized as is. This keeps blocks, paragraphs, lines and words
+// with pixel boxes and 0-100 confidences, dropping empty words.
+function toOcrBlocks(blocks) {
+  return blocks
+    .map((block) => ({
+      bbox: plainBox(block.bbox),
+      confidence: roundConfidence(block.confidence),
+      paragraphs: block.paragraphs
+        .map((paragraph) => ({
+          bbox: plainBox(paragraph.bbox),
+          confidence: roundConfidence(paragraph.confidence),
+          lines: paragraph.lines
+            .map((line) => ({
+              bbox: plainBox(line.bbox),
+              confidence: roundConfidence(line.confidence),
+              baseline: line.baseline?.has_baseline === false ? null : line.baseline ? plainBox(line.baseline) : null,
+              words: line.words
+                .filter((word) => (word.text || '').trim())
+                .map((word) => ({
+                  text: word.text.trim(),
+                  bbox: plainBox(word.bbox),
+                  confidence: roundConfidence(word.confidence)
+                }))
+            }))
+            .filter((line) => line.words.length)
+        }))
+        .filter((paragraph) => paragraph.lines.length)
+    }))
+    .filter((block) => block.paragraphs.length)
+}
+
+export function pngSize(buffer) {
+  if (buffer.length < 24 || buffer.toString('latin1', 1, 4) !== 'PNG') throw new Error('Not a PNG image')
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) }
+}
+
+// Walks the JPEG markers up to the first start-of-frame segment.
+function jpegSize(buffer) {
+  let offset = 2
+  while (offset + 9 < buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1]
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) }
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2)
+  }
+  return null
+}
+
+function imageSize(buffer, mimetype) {
+  try {
+    if (mimetype === 'image/png') return pngSize(buffer)
+    if (mimetype === 'image/jpeg') return jpegSize(buffer)
+  } catch {
+    // Fall through: the size is then taken from the recognized content.
+  }
+  return null
+}
+
+function baselineAt(baseline, x) {
+  if (!baseline || baseline.has_baseline === false || baseline.x1 === baseline.x0) return null
+  return baseline.y0 + ((baseline.y1 - baseline.y0) * (x - baseline.x0)) / (baseline.x1 - baseline.x0)
+}
+
+// Writes the recognized words as invisible text (rendering mode 3) over the
+// page, so it can be searched and selected without changing how it looks.
+// Each word is stretched to its bounding box; characters the font cannot
+// encode become '?'. The image is the page as displayed (CropBox and /Rotate
+// applied), so positions go through the shared display-to-user mapping.
+export function addInvisibleTextLayer(page, font, lines, imageWidth, imageHeight) {
+  const geometry = pageGeometry(page)
+  const fontKey = page.node.newFontDictionary(font.name, font.ref)
+  const supported = new Set(font.getCharacterSet())
+  const angle = (geometry.rotation * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const pointsPerPixel = geometry.viewWidth / imageWidth
+  const operators = [pushGraphicsState(), beginText(), setTextRenderingMode(TextRenderingMode.Invisible)]
+  let words = 0
+
+  lines.forEach((line) => {
+    const lineHeight = line.rowAttributes?.row_height || line.bbox.y1 - line.bbox.y0
+    const size = Math.max(1, lineHeight * pointsPerPixel)
+    line.words.forEach((word) => {
+      const text = Array.from((word.text || '').trim())
+        .map((char) => (supported.has(char.codePointAt(0)) ? char : '?'))
+        .join('')
+      if (!text) return
+      const { x0, x1, y1 } = word.bbox
+      const baseline = baselineAt(line.baseline, (x0 + x1) / 2) ?? y1
+      const [x, y] = displayToUser(geometry, x0 / imageWidth, baseline / imageHeight)
+      const natural = font.widthOfTextAtSize(text, size)
+      const squeeze = natural > 0 ? (100 * (x1 - x0) * pointsPerPixel) / natural : 100
+      operators.push(
+        setFontAndSize(fontKey, size),
+        setCharacterSqueeze(squeeze),
+        setTextMatrix(cos, sin, -sin, cos, x, y),
+        showText(font.encodeText(text))
+      )
+      words += 1
+    })
+  })
+
+  operators.push(endText(), popGraphicsState())
+  if (words) page.pushOperators(...operators)
+  return words
+}
+
+// Pages that already carry a text layer are skipped for searchable output so
+// digital PDFs do not end up with their text duplicated.
+async function pagesWithText(buffer) {
+  const doc = await openTextDocument(buffer)
+  try {
+    const found = new Set()
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber += 1) {
+      const content = await (await doc.getPage(pageNumber)).getTextContent()
+      if (content.items.some((item) => 'str' in item && item.str.trim())) found.add(pageNumber - 1)
+    }
+    return found
+  } finally {
+    await doc.destroy()
+  }
+}
+
+// -cropbox renders what viewers show, matching the text layer's mapping.
+async function rasterizePage(pdftoppm, inputPath, pageNumber, tempDir) {
+  const prefix = path.join(tempDir, `ocr-page-${pageNumber}`)
+  const page = String(pageNumber)
+  await execFileAsync(pdftoppm, ['-png', '-gray', '-cropbox', '-singlefile', '-r', String(OCR_DPI), '-f', page, '-l', page, inputPath, prefix])
+  const image = await readFile(`${prefix}.png`)
+  return { image, ...pngSize(image) }
+}
+
+// OCRs a PDF (selected pages, rasterized one at a time) or a single image.
+// For 'pdf' output the PDF keeps every page untouched and adds an invisible
+// text layer to the recognized ones; every other output also returns the
+// page structure (see toOcrBlocks) that ocrFormats.mjs serializes.
+// onProgress is called after each page with { page, done, total }.
+export async function runOcr({ file, isPdf, pages, languages, output, skipText, pdftoppm, tempDir, onProgress }) {
+  const searchable = output === 'pdf'
+  let doc = null
+  let targets = [0]
+  let sourceSize = { width: 0, height: 0 }
+  const skipped = []
+
+  if (isPdf) {
+    doc = await PDFDocument.load(file.buffer)
+    const count = doc.getPageCount()
+    const requested = pages?.length ? pages : Array.from({ length: count }, (_, index) => index + 1)
+    const outOfRange = requested.find((page) => !Number.isInteger(page) || page < 1 || page > count)
+    if (outOfRange !== undefined) throw new OcrRequestError(`Page ${outOfRange} is out of range (1-${count})`)
+    const withText = searchable && skipText ? await pagesWithText(file.buffer) : new Set()
+    targets = requested.map((page) => page - 1).filter((index) => !withText.has(index))
+    skipped.push(...requested.filter((page) => withText.has(page - 1)))
+  } else if (searchable) {
+    doc = await PDFDocument.create()
+    const embedded = file.mimetype === 'image/png' ? await doc.embedPng(file.buffer) : await doc.embedJpg(file.buffer)
+    const page = doc.addPage([embedded.width, embedded.height])
+    page.drawImage(embedded, { x: 0, y: 0, width: embedded.width, height: embedded.height })
+    sourceSize = { width: embedded.width, height: embedded.height }
+  } else {
+    sourceSize = imageSize(file.buffer, file.mimetype) || sourceSize
+  }
+
+  const inputPath = path.join(tempDir, 'input.pdf')
+  if (isPdf) await writeFile(inputPath, file.buffer)
+  const font = searchable ? await doc.embedFont(StandardFonts.Helvetica) : null
+  const results = []
+  const structure = []
+  let words = 0
+  const worker = targets.length ? await createOcrWorker(languages) : null
+  try {
+    for (const index of targets) {
+      const { image, width, height } = isPdf
+        ? await rasterizePage(pdftoppm, inputPath, index + 1, tempDir)
+        : { image: file.buffer, ...sourceSize }
+      const { text, confidence, lines, blocks } = await recognizeLines(worker, image)
+      words += searchable
+        ? addInvisibleTextLayer(doc.getPage(index), font, lines, width, height)
+        : lines.reduce((sum, line) => sum + line.words.length, 0)
+      results.push({ page: index + 1, text, confidence })
+      if (!searchable) {
+        const ocrBlocks = toOcrBlocks(blocks)
+        // Image sizes are only known for PNG and JPEG; otherwise the page
+        // is taken to end at the furthest recognized box.
+        structure.push({
+          page: index + 1,
+          width: width || Math.max(0, ...ocrBlocks.map((block) => block.bbox.x1)),
+          height: height || Math.max(0, ...ocrBlocks.map((block) => block.bbox.y1)),
+          dpi: isPdf ? OCR_DPI : null,
+          confidence: roundConfidence(confidence),
+          blocks: ocrBlocks
+        })
+      }
+      onProgress?.({ page: index + 1, done: results.length, total: targets.length })
+    }
+  } finally {
+    if (worker) await worker.terminate()
+  }
+
+  const report = {
+    pages: doc ? doc.getPageCount() : 1,
+    recognized: results.map((result) => result.page),
+    skipped,
+    words,
+    languages,
+    confidence: results.length
+      ? Math.round(results.reduce((sum, result) => sum + result.confidence, 0) / results.length)
+      : null
+  }
+  const text = results.length > 1
+    ? results.map((result) => `--- Page ${result.page} ---\n${result.text.trim()}`).join('\n\n')
+    : results[0]?.text || ''
+  return { report, pages: results, text, structure: searchable ? null : structure, pdf: searchable ? await doc.save() : null }
+}
@@ -0,0 +1,233 @@
+import { OcrRequestError } from './ocr.mjs'
+
+// Serializers for the page structure returned by runOcr: a list of
+// { page, width, height, dpi, confidence, blocks } where blocks hold
+// paragraphs, lines and words with pixel boxes ({ x0, y0, x1, y1 }, top-left
+// origin) and 0-100 confidences.
+
+export const OCR_FORMATS = {
+  hocr: { extension: 'hocr', contentType: 'text/html; charset=utf-8' },
+  alto: { extension: 'xml', contentType: 'application/xml; charset=utf-8' },
+  tsv: { extension: 'tsv', contentType: 'text/tab-separated-values; charset=utf-8' },
+  json: { extension: 'json', contentType: 'application/json; charset=utf-8' }
+}
+
+function escapeXml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// hOCR baselines are a slope and an offset from the bottom-left corner of
+// the line box.
+function hocrBaseline(line) {
+  const { baseline, bbox } = line
+  if (!baseline || baseline.x1 === baseline.x0) return ''
+  const slope = (baseline.y1 - baseline.y0) / (baseline.x1 - baseline.x0)
+  const offset = baseline.y0 + slope * (bbox.x0 - baseline.x0) - bbox.y1
+  return `; baseline ${slope.toFixed(3)} ${Math.round(offset)}`
+}
+
+function hocrBox({ x0, y0, x1, y1 }) {
+  return `bbox ${x0} ${y0} ${x1} ${y1}`
+}
+
+function toHocr(pages, title) {
+  const body = pages.map((page) => {
+    const id = page.page
+    const scan = page.dpi ? `; scan_res ${page.dpi} ${page.dpi}` : ''
+    const blocks = page.blocks.map((block, blockIndex) => {
+      const paragraphs = block.paragraphs.map((paragraph, paragraphIndex) => {
+        const lines = paragraph.lines.map((line, lineIndex) => {
+          const words = line.words
+            .map(
+              (word, wordIndex) =>
+                `      <span class="ocrx_word" id="word_${id}_${blockIndex + 1}_${paragraphIndex + 1}_${lineIndex + 1}_${wordIndex + 1}" title="${hocrBox(word.bbox)}; x_wconf ${Math.round(word.confidence)}">${escapeXml(word.text)}</span>`
+            )
+            .join('\n')
+          return `     <span class="ocr_line" id="line_${id}_${blockIndex + 1}_${paragraphIndex + 1}_${lineIndex + 1}" title="${hocrBox(line.bbox)}${hocrBaseline(line)}">\n${words}\n     </span>`
+        })
+        return `    <p class="ocr_par" id="par_${id}_${blockIndex + 1}_${paragraphIndex + 1}" title="${hocrBox(paragraph.bbox)}">\n${lines.join('\n')}\n    </p>`
+      })
+      return `   <div class="ocr_carea" id="block_${id}_${blockIndex + 1}" title="${hocrBox(block.bbox)}">\n${paragraphs.join('\n')}\n   </div>`
+    })
+    return `  <div class="ocr_page" id="page_${id}" title="${hocrBox({ x0: 0, y0: 0, x1: page.width, y1: page.height })}; ppageno ${id - 1}${scan}">\n${blocks.join('\n')}\n  </div>`
+  })
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">
+ <head>
+  <title>${escapeXml(title)}</title>
+  <meta http-equiv="Content-Type" content="text/html;charset=utf-8" />
+  <meta name="ocr-system" content="tesseract.js" />
+  <meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word ocrp_wconf" />
+ </head>
+ <body>
+${body.join('\n')}
+ </body>
+</html>
+`
+}
+
+function altoBox({ x0, y0, x1, y1 }) {
+  return `HPOS="${x0}" VPOS="${y0}" WIDTH="${x1 - x0}" HEIGHT="${y1 - y0}"`
+}
+
+// ALTO v4 has no paragraph level, so paragraphs are flattened into their
+// text block. WC is the word confidence scaled to 0-1.
+function toAlto(pages, title) {
+  const layout = pages.map((page) => {
+    const id = page.page
+    const blocks = page.blocks.map((block, blockIndex) => {
+      const lines = block.paragraphs
+        .flatMap((paragraph) => paragraph.lines)
+        .map((line, lineIndex) => {
+          const strings = line.words
+            .map(
+              (word, wordIndex) =>
+                `<String ID="string_${id}_${blockIndex + 1}_${lineIndex + 1}_${wordIndex + 1}" ${altoBox(word.bbox)} WC="${(word.confidence / 100).toFixed(2)}" CONTENT="${escapeXml(word.text)}"/>`
+            )
+            .join('<SP/>')
+          return `          <TextLine ID="line_${id}_${blockIndex + 1}_${lineIndex + 1}" ${altoBox(line.bbox)}>${strings}</TextLine>`
+        })
+      return `        <TextBlock ID="block_${id}_${blockIndex + 1}" ${altoBox(block.bbox)}>\n${lines.join('\n')}\n        </TextBlock>`
+    })
+    const size = `WIDTH="${page.width}" HEIGHT="${page.height}"`
+    return `    <Page ID="page_${id}" PHYSICAL_IMG_NR="${id}" ${size}>\n      <PrintSpace HPOS="0" VPOS="0" ${size}>\n${blocks.join('\n')}\n      </PrintSpace>\n    </Page>`
+  })
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/alto/v4/alto-4-2.xsd">
+  <Description>
+    <MeasurementUnit>pixel</MeasurementUnit>
+    <sourceImageInformation>
+      <fileName>${escapeXml(title)}</fileName>
+    </sourceImageInformation>
+    <OCRProcessing ID="ocr_0">
+      <ocrProcessingStep>
+        <processingSoftware>
+          <softwareName>tesseract.js</softwareName>
+        </processingSoftware>
+      </ocrProcessingStep>
+    </OCRProcessing>
+  </Description>
+  <Layout>
+${layout.join('\n')}
+  </Layout>
+</alto>
+`
+}
+
+// Same columns and levels as `tesseract ... tsv`: 1 page, 2 block,
+// 3 paragraph, 4 line, 5 word. Only words carry text; other levels use -1
+// for the confidence as Tesseract does.
+function toTsv(pages) {
+  const rows = [['level', 'page_num', 'block_num', 'par_num', 'line_num', 'word_num', 'left', 'top', 'width', 'height', 'conf', 'text']]
+  const row = (level, numbers, { x0, y0, x1, y1 }, confidence = -1, text = '') =>
+    rows.push([level, ...numbers, x0, y0, x1 - x0, y1 - y0, confidence, text.replace(/[\t\r\n]+/g, ' ')])
+  pages.forEach((page) => {
+    row(1, [page.page, 0, 0, 0, 0], { x0: 0, y0: 0, x1: page.width, y1: page.height })
+    page.blocks.forEach((block, blockIndex) => {
+      row(2, [page.page, blockIndex + 1, 0, 0, 0], block.bbox)
+      block.paragraphs.forEach((paragraph, paragraphIndex) => {
+        row(3, [page.page, blockIndex + 1, paragraphIndex + 1, 0, 0], paragraph.bbox)
+        paragraph.lines.forEach((line, lineIndex) => {
+          row(4, [page.page, blockIndex + 1, paragraphIndex + 1, lineIndex + 1, 0], line.bbox)
+          line.words.forEach((word, wordIndex) =>
+            row(5, [page.page, blockIndex + 1, paragraphIndex + 1, lineIndex + 1, wordIndex + 1], word.bbox, word.confidence, word.text)
+          )
+        })
+      })
+    })
+  })
+  return `${rows.map((values) => values.join('\t')).join('\n')}\n`
+}
+
+// Blocks, lines and words; paragraphs only group lines, so they are folded
+// into their block.
+function toJson(pages) {
+  return `${JSON.stringify(
+    {
+      pages: pages.map((page) => ({
+        page: page.page,
+        width: page.width,
+        height: page.height,
+        dpi: page.dpi,
+        confidence: page.confidence,
+        blocks: page.blocks.map((block) => ({
+          bbox: block.bbox,
+          confidence: block.confidence,
+          lines: block.paragraphs.flatMap((paragraph) =>
+            paragraph.lines.map((line) => ({
+              bbox: line.bbox,
+              confidence: line.confidence,
+              baseline: line.baseline,
+              // Words fixed during review keep their original confidence
+              // and are flagged so indexers can tell them apart.
+              words: line.words.map((word) => ({
+                text: word.text,
+                bbox: word.bbox,
+                confidence: word.confidence,
+                ...(word.corrected ? { corrected: true } : {})
+              }))
+            }))
+          )
+        }))
+      }))
+    },
+    null,
+    2
+  )}\n`
+}
+
+export function serializeOcr(format, pages, title = 'OCR output') {
+  if (format === 'hocr') return toHocr(pages, title)
+  if (format === 'alto') return toAlto(pages, title)
+  if (format === 'tsv') return toTsv(pages)
+  if (format === 'json') return toJson(pages)
+  throw new OcrRequestError(`Unknown OCR format: ${format}`)
+}
+
+function isBox(value) {
+  return Boolean(value) && ['x0', 'y0', 'x1', 'y1'].every((key) => Number.isFinite(value[key]))
+}
+
+// Checks a structure sent back by the client (after manual corrections)
+// before it is serialized.
+export function parseOcrStructure(raw) {
+  let pages
+  try {
+    pages = JSON.parse(String(raw || ''))
+  } catch {
+    throw new OcrRequestError('structure must be JSON')
+  }
+  const valid =
+    Array.isArray(pages) &&
+    pages.every(
+      (page) =>
+        Number.isInteger(page?.page) &&
+        Number.isFinite(page.width) &&
+        Number.isFinite(page.height) &&
+        Array.isArray(page.blocks) &&
+        page.blocks.every(
+          (block) =>
+            isBox(block?.bbox) &&
+            Array.isArray(block.paragraphs) &&
+            block.paragraphs.every(
+              (paragraph) =>
+                isBox(paragraph?.bbox) &&
+                Array.isArray(paragraph.lines) &&
+                paragraph.lines.every(
+                  (line) =>
+                    isBox(line?.bbox) &&
+                    Array.isArray(line.words) &&
+                    line.words.every((word) => isBox(word?.bbox) && typeof word.text === 'string' && Number.isFinite(word.confidence))
+                )
+            )
+        )
+    )
+  if (!valid) throw new OcrRequestError('structure is not a list of OCR pages')
+  return pages
+}
@@ -0,0 +1,45 @@
+import { PDFArray, PDFDict, PDFHexString, PDFName, PDFRawStream, PDFStream, PDFString, decodePDFRawStream } from 'pdf-lib'
+
+// Low-level helpers shared by the modules that read pdf-lib's object graph
+// directly (PDF/A validation, security inspection).
+
+export function readStreamText(stream) {
+  const bytes = stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents()
+  return Buffer.from(bytes).toString('utf8')
+}
+
+export function nameOf(value) {
+  return value instanceof PDFName ? value.decodeText() : null
+}
+
+export function textOf(value) {
+  return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : null
+}
+
+export function filterNames(dict) {
+  const filter = dict.get(PDFName.of('Filter'))
+  if (filter instanceof PDFArray) return filter.asArray().map(nameOf).filter(Boolean)
+  return [nameOf(filter)].filter(Boolean)
+}
+
+// Calls visit for every dictionary (and stream) in the file, including the
+// ones nested directly inside others such as inline ExtGState resources.
+export function forEachDict(context, visit) {
+  const walkAll = (values) => values.forEach((value) => walk(value))
+  const walk = (object) => {
+    if (object instanceof PDFStream) {
+      visit(object.dict, object)
+      walkAll(object.dict.values())
+    } else if (object instanceof PDFDict) {
+      visit(object, object)
+      walkAll(object.values())
+    } else if (object instanceof PDFArray) {
+      walkAll(object.asArray())
+    }
+  }
+  context.enumerateIndirectObjects().forEach(([, object]) => walk(object))
+}
+
+export function plural(count, word) {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
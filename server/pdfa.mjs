@@ -0,0 +1,231 @@
+import path from 'node:path'
+import { access, readdir, writeFile } from 'node:fs/promises'
+import { constants as fsConstants } from 'node:fs'
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFStream } from 'pdf-lib'
+import { filterNames, forEachDict, nameOf, plural, readStreamText } from './pdfObjects.mjs'
+
+// PDF/A conversion (Ghostscript's pdfwrite or LibreOffice's PDF export) and
+// a structural pre-check of the result. The check covers the common causes
+// of non-conformance; it is not a replacement for a full validator such as
+// veraPDF.
+
+export const PDFA_LEVELS = {
+  '1b': { part: 1, conformance: 'B', version: '1.4' },
+  '2b': { part: 2, conformance: 'B', version: '1.7' },
+  '3b': { part: 3, conformance: 'B', version: '1.7' }
+}
+
+// Ghostscript needs an RGB ICC profile for the PDF/A output intent. Debian's
+// ghostscript package installs one under /usr/share/color/icc/ghostscript.
+async function iccCandidates() {
+  const candidates = [
+    process.env.PDFA_ICC_PROFILE,
+    '/usr/share/color/icc/ghostscript/srgb.icc',
+    '/usr/share/color/icc/sRGB.icc',
+    '/usr/share/color/icc/colord/sRGB.icc',
+    '/usr/share/ghostscript/iccprofiles/srgb.icc'
+  ]
+  for (const root of ['/usr/share/ghostscript', '/usr/local/share/ghostscript', 'C:/Program Files/gs']) {
+    try {
+      const versions = (await readdir(root)).sort().reverse()
+      candidates.push(...versions.map((version) => path.join(root, version, 'iccprofiles', 'srgb.icc')))
+    } catch {
+      continue
+    }
+  }
+  return candidates.filter(Boolean)
+}
+
+export async function findIccProfile() {
+  for (const candidate of await iccCandidates()) {
+    try {
+      await access(candidate, fsConstants.R_OK)
+      return candidate
+    } catch {
+      continue
+    }
+  }
+  return null
+}
+
+function postScriptString(value) {
+  return `(${value.replace(/[\\()]/g, (char) => `\\${char}`)})`
+}
+
+// The PostScript prologue Ghostscript reads before the input: it embeds the
+// ICC profile and declares it as the document's PDF/A output intent.
+export async function writePdfaDefinition(tempDir, iccPath) {
+  const definitionPath = path.join(tempDir, 'PDFA_def.ps')
+  await writeFile(definitionPath, [
+    '%!',
+    '[/_objdef {icc_PDFA} /type /stream /OBJ pdfmark',
+    '[{icc_PDFA} << /N 3 >> /PUT pdfmark',
+    `[{icc_PDFA} ${postScriptString(iccPath)} (r) file /PUT pdfmark`,
+    '[/_objdef {OutputIntent_PDFA} /type /dict /OBJ pdfmark',
+    '[{OutputIntent_PDFA} << /Type /OutputIntent /S /GTS_PDFA1 /DestOutputProfile {icc_PDFA} /OutputConditionIdentifier (sRGB) >> /PUT pdfmark',
+    '[{Catalog} << /OutputIntents [ {OutputIntent_PDFA} ] >> /PUT pdfmark',
+    ''
+  ].join('\n'))
+  return definitionPath
+}
+
+// PDFACompatibilityPolicy=1 lets Ghostscript drop or rewrite what PDF/A
+// forbids (transparency in PDF/A-1, for example) instead of giving up.
+export function ghostscriptPdfaArgs(level, definitionPath, iccPath, inputPath, outputPath) {
+  const { part, version } = PDFA_LEVELS[level]
+  return [
+    `-dPDFA=${part}`,
+    '-dBATCH',
+    '-dNOPAUSE',
+    '-dQUIET',
+    '-dSAFER',
+    '-dNOOUTERSAVE',
+    '-sDEVICE=pdfwrite',
+    `-dCompatibilityLevel=${version}`,
+    '-sColorConversionStrategy=RGB',
+    '-dPDFACompatibilityPolicy=1',
+    `--permit-file-read=${iccPath}`,
+    `-sOutputFile=${outputPath}`,
+    definitionPath,
+    inputPath
+  ]
+}
+
+// LibreOffice opens the PDF in Draw and exports it again; SelectPdfVersion
+// 1, 2 and 3 are PDF/A-1b, 2b and 3b.
+export function libreOfficePdfaArgs(level, inputPath, outDir) {
+  const filter = { SelectPdfVersion: { type: 'long', value: String(PDFA_LEVELS[level].part) } }
+  return ['--headless', '--convert-to', `pdf:draw_pdf_Export:${JSON.stringify(filter)}`, '--outdir', outDir, inputPath]
+}
+
+function xmpValue(xmp, property) {
+  const match = xmp.match(new RegExp(`pdfaid:${property}\\s*=\\s*["']([^"']*)["']`))
+    || xmp.match(new RegExp(`<pdfaid:${property}>\\s*([^<]*?)\\s*</pdfaid:${property}>`))
+  return match ? match[1] : null
+}
+
+// Lists what keeps a file from conforming to the PDF/A level. Errors break
+// conformance; warnings are requirements this check cannot fully verify.
+export async function validatePdfA(buffer, level) {
+  const { part, conformance } = PDFA_LEVELS[level]
+  const issues = []
+  const error = (message) => issues.push({ severity: 'error', message })
+  const warning = (message) => issues.push({ severity: 'warning', message })
+
+  const doc = await PDFDocument.load(buffer, { ignoreEncryption: true, updateMetadata: false })
+  const { context, catalog } = doc
+
+  if (doc.isEncrypted) error('The file is encrypted; PDF/A does not allow encryption.')
+
+  const header = Buffer.from(buffer.subarray(0, 16)).toString('latin1').match(/%PDF-(\d\.\d)/)
+  if (part === 1 && header && Number(header[1]) > 1.4) {
+    warning(`The header declares PDF ${header[1]}; PDF/A-1 is based on PDF 1.4.`)
+  }
+
+  if (!context.trailerInfo.ID) error('The trailer has no document ID.')
+
+  const metadata = catalog.lookupMaybe(PDFName.of('Metadata'), PDFStream)
+  if (!metadata) {
+    error('There is no XMP metadata stream.')
+  } else {
+    const xmp = readStreamText(metadata)
+    const declaredPart = xmpValue(xmp, 'part')
+    const declaredConformance = xmpValue(xmp, 'conformance')
+    if (!declaredPart) {
+      error('The XMP metadata does not identify the file as PDF/A (no pdfaid:part).')
+    } else if (Number(declaredPart) !== part || (declaredConformance || '').toUpperCase() !== conformance) {
+      error(`The XMP metadata declares PDF/A-${declaredPart}${(declaredConformance || '').toLowerCase()}, not PDF/A-${level}.`)
+    }
+  }
+
+  const intents = catalog.lookupMaybe(PDFName.of('OutputIntents'), PDFArray)
+  const hasIntent = intents?.asArray().some((entry) => {
+    const intent = context.lookup(entry)
+    return intent instanceof PDFDict
+      && nameOf(intent.get(PDFName.of('S'))) === 'GTS_PDFA1'
+      && intent.has(PDFName.of('DestOutputProfile'))
+  })
+  if (!hasIntent) error('There is no PDF/A output intent with an ICC profile.')
+
+  if (catalog.has(PDFName.of('AA'))) error('The document has additional actions (AA), which PDF/A forbids.')
+  const names = catalog.lookupMaybe(PDFName.of('Names'), PDFDict)
+  if (names?.has(PDFName.of('JavaScript'))) error('The document contains document-level JavaScript.')
+
+  const fontsWithoutFile = new Set()
+  const transparency = { softMasks: 0, alpha: 0, blendModes: 0, groups: 0 }
+  let lzwStreams = 0
+  let actions = 0
+  let embeddedFiles = 0
+  let filesWithoutRelationship = 0
+  let annotationsWithoutAppearance = 0
+  let annotationsNotPrinted = 0
+
+  forEachDict(context, (dict, object) => {
+    const type = nameOf(dict.get(PDFName.of('Type')))
+    const subtype = nameOf(dict.get(PDFName.of('Subtype')))
+
+    if (object instanceof PDFStream && filterNames(dict).includes('LZWDecode')) lzwStreams += 1
+
+    if (type === 'Font' && subtype && !['Type0', 'Type3'].includes(subtype)) {
+      const descriptor = dict.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict)
+      const embedded = ['FontFile', 'FontFile2', 'FontFile3'].some((key) => descriptor?.has(PDFName.of(key)))
+      if (!embedded) fontsWithoutFile.add(nameOf(dict.get(PDFName.of('BaseFont'))) || subtype)
+    }
+
+    const softMask = dict.get(PDFName.of('SMask'))
+    if (softMask && nameOf(softMask) !== 'None') transparency.softMasks += 1
+    for (const key of ['CA', 'ca']) {
+      const alpha = dict.lookupMaybe(PDFName.of(key), PDFNumber)
+      if (alpha && alpha.asNumber() < 1) {
+        transparency.alpha += 1
+        break
+      }
+    }
+    const blend = nameOf(dict.get(PDFName.of('BM')))
+    if (blend && !['Normal', 'Compatible'].includes(blend)) transparency.blendModes += 1
+    const group = dict.lookupMaybe(PDFName.of('Group'), PDFDict)
+    if (group && nameOf(group.get(PDFName.of('S'))) === 'Transparency') transparency.groups += 1
+
+    const action = nameOf(dict.get(PDFName.of('S')))
+    if (['JavaScript', 'Launch', 'ImportData', 'ResetForm', 'Movie', 'Sound'].includes(action)) actions += 1
+
+    if (type === 'EmbeddedFile') embeddedFiles += 1
+    if (type === 'Filespec' && dict.has(PDFName.of('EF')) && !dict.has(PDFName.of('AFRelationship'))) {
+      filesWithoutRelationship += 1
+    }
+
+    if (type === 'Annot' || (dict.has(PDFName.of('Rect')) && subtype && dict.has(PDFName.of('P')))) {
+      if (!['Popup', 'Link'].includes(subtype) && !dict.has(PDFName.of('AP'))) annotationsWithoutAppearance += 1
+      const flags = dict.lookupMaybe(PDFName.of('F'), PDFNumber)?.asNumber() ?? 0
+      if (subtype !== 'Popup' && (!(flags & 4) || flags & 0b100011)) annotationsNotPrinted += 1
+    }
+  })
+
+  if (fontsWithoutFile.size) {
+    error(`${plural(fontsWithoutFile.size, 'font')} not embedded: ${Array.from(fontsWithoutFile).join(', ')}.`)
+  }
+  const transparent = Object.values(transparency).reduce((sum, count) => sum + count, 0)
+  if (part === 1 && transparent) {
+    const parts = [
+      transparency.softMasks && plural(transparency.softMasks, 'soft mask'),
+      transparency.alpha && plural(transparency.alpha, 'constant alpha value') + ' below 1',
+      transparency.blendModes && plural(transparency.blendModes, 'non-normal blend mode'),
+      transparency.groups && plural(transparency.groups, 'transparency group')
+    ].filter(Boolean)
+    error(`Transparency is not allowed in PDF/A-1: ${parts.join(', ')}.`)
+  }
+  if (lzwStreams) error(`${plural(lzwStreams, 'stream')} use LZW compression, which PDF/A forbids.`)
+  if (actions) error(`${plural(actions, 'forbidden action')} (JavaScript, Launch, ImportData, ResetForm, Movie or Sound).`)
+  if (embeddedFiles) {
+    if (part === 1) error(`${plural(embeddedFiles, 'embedded file')}; PDF/A-1 does not allow attachments.`)
+    if (part === 2) warning(`${plural(embeddedFiles, 'embedded file')}; PDF/A-2 only allows attachments that are PDF/A themselves.`)
+    if (part === 3 && filesWithoutRelationship) {
+      error(`${plural(filesWithoutRelationship, 'attachment')} without the AFRelationship key PDF/A-3 requires.`)
+    }
+  }
+  if (annotationsWithoutAppearance) warning(`${plural(annotationsWithoutAppearance, 'annotation')} without an appearance stream.`)
+  if (annotationsNotPrinted) warning(`${plural(annotationsNotPrinted, 'annotation')} hidden or not set to print.`)
+
+  const errors = issues.filter((issue) => issue.severity === 'error').length
+  return { level, compliant: errors === 0, errors, warnings: issues.length - errors, issues }
+}
@@ -0,0 +1,63 @@
+import { OperationError } from './jobs.mjs'
+
+export const ENCRYPTION_METHODS = {
+  'aes-128': { keyLength: '128', extra: ['--use-aes=y'] },
+  'aes-256': { keyLength: '256', extra: [] }
+}
+
+export const PRINT_PERMISSIONS = ['full', 'low', 'none']
+
+// Form field -> qpdf restriction flag. Every permission is granted unless
+// the request sends `false` for it.
+const PERMISSION_FLAGS = {
+  allowCopy: 'extract',
+  allowModify: 'modify-other',
+  allowAnnotate: 'annotate',
+  allowForms: 'form',
+  allowAssembly: 'assemble',
+  allowAccessibility: 'accessibility'
+}
+
+function isAllowed(value) {
+  return String(value ?? 'true') !== 'false'
+}
+
+// The user password opens the file (empty means anyone can open it, with
+// the restrictions applied); the owner password lifts the restrictions.
+// A single `password` is still accepted and used for both.
+export function parseProtectionOptions(body) {
+  const legacy = String(body.password || '')
+  const userPassword = String(body.userPassword ?? legacy)
+  const ownerPassword = String(body.ownerPassword || legacy)
+  if (!ownerPassword) {
+    throw new OperationError('An owner password is required')
+  }
+
+  const encryption = String(body.encryption || 'aes-256')
+  if (!ENCRYPTION_METHODS[encryption]) {
+    throw new OperationError(`encryption must be one of: ${Object.keys(ENCRYPTION_METHODS).join(', ')}`)
+  }
+  const print = String(body.print || 'full')
+  if (!PRINT_PERMISSIONS.includes(print)) {
+    throw new OperationError(`print must be one of: ${PRINT_PERMISSIONS.join(', ')}`)
+  }
+
+  const permissions = Object.fromEntries(Object.keys(PERMISSION_FLAGS).map((field) => [field, isAllowed(body[field])]))
+  return { userPassword, ownerPassword, encryption, print, permissions }
+}
+
+export function qpdfEncryptArgs({ userPassword, ownerPassword, encryption, print, permissions }, inputPath, outputPath) {
+  const { keyLength, extra } = ENCRYPTION_METHODS[encryption]
+  return [
+    '--encrypt',
+    userPassword,
+    ownerPassword,
+    keyLength,
+    ...extra,
+    `--print=${print}`,
+    ...Object.entries(PERMISSION_FLAGS).map(([field, flag]) => `--${flag}=${permissions[field] ? 'y' : 'n'}`),
+    '--',
+    inputPath,
+    outputPath
+  ]
+}
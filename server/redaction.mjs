@@ -0,0 +1,147 @@
+import { Worker } from 'node:worker_threads'
+import { boxesForRange, openTextDocument, readPageText } from './textLayer.mjs'
+
+export const REDACTION_PRESETS = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  phone: /(?<![\w-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}(?![\w-])/g,
+  iban: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  ssn: /\b\d{3}-\d{2}-\d{4}\b/g,
+  'credit-card': /\b(?:\d{4}[ -]?){3}\d{1,4}\b/g
+}
+
+function escapeRegExp(value) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+export class SearchRuleError extends Error {}
+
+// User-supplied regular expressions run in a worker with a time limit, so a
+// pattern with catastrophic backtracking fails the request instead of
+// stalling every other one.
+const MAX_PATTERN_LENGTH = 500
+const PATTERN_TIMEOUT_MS = Number(process.env.REDACTION_REGEX_TIMEOUT_MS || 2000)
+
+export function parseSearchRules(raw) {
+  if (!raw) return []
+
+  let parsed
+  try {
+    parsed = JSON.parse(String(raw))
+  } catch {
+    throw new SearchRuleError('search must be valid JSON')
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new SearchRuleError('search must be a JSON object with presets, terms or patterns')
+  }
+
+  const caseSensitive = Boolean(parsed.caseSensitive)
+  const flags = caseSensitive ? 'g' : 'gi'
+  const rules = []
+
+  const presets = Array.isArray(parsed.presets) ? parsed.presets : []
+  presets.forEach((name) => {
+    const preset = REDACTION_PRESETS[name]
+    if (!preset) {
+      throw new SearchRuleError(`Unknown redaction preset: ${name}`)
+    }
+    rules.push({ label: name, pattern: new RegExp(preset.source, preset.flags) })
+  })
+
+  const terms = Array.isArray(parsed.terms) ? parsed.terms : []
+  terms
+    .map((term) => String(term).trim())
+    .filter(Boolean)
+    .forEach((term) => {
+      rules.push({ label: `term: ${term}`, pattern: new RegExp(escapeRegExp(term), flags) })
+    })
+
+  const patterns = Array.isArray(parsed.patterns) ? parsed.patterns : []
+  patterns
+    .map((source) => String(source).trim())
+    .filter(Boolean)
+    .forEach((source) => {
+      if (source.length > MAX_PATTERN_LENGTH) {
+        throw new SearchRuleError(`Regular expressions are limited to ${MAX_PATTERN_LENGTH} characters`)
+      }
+      try {
+        rules.push({ label: `regex: ${source}`, pattern: new RegExp(source, flags), untrusted: true })
+      } catch (error) {
+        throw new SearchRuleError(`Invalid regular expression ${source}: ${error instanceof Error ? error.message : 'syntax error'}`)
+      }
+    })
+
+  return rules
+}
+
+function matchPattern(pattern, texts) {
+  return texts.map((text) => {
+    pattern.lastIndex = 0
+    return Array.from(text.matchAll(pattern), (found) => [found.index, found[0].length])
+  })
+}
+
+function matchUntrustedPattern(rule, texts) {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./regexWorker.mjs', import.meta.url), {
+      workerData: { source: rule.pattern.source, flags: rule.pattern.flags, texts }
+    })
+    const timer = setTimeout(() => {
+      void worker.terminate()
+      reject(new SearchRuleError(`The regular expression ${rule.pattern.source} took too long to run; simplify it`))
+    }, PATTERN_TIMEOUT_MS)
+    worker.once('message', (ranges) => {
+      clearTimeout(timer)
+      resolve(ranges)
+    })
+    worker.once('error', (error) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+  })
+}
+
+export async function findRedactionMatches(buffer, rules) {
+  const doc = await openTextDocument(buffer)
+  const pages = []
+
+  try {
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber += 1) {
+      const page = await doc.getPage(pageNumber)
+      pages.push(await readPageText(page))
+      page.cleanup()
+    }
+  } finally {
+    await doc.destroy()
+  }
+
+  const texts = pages.map((pageText) => pageText.text)
+  const rangesByRule = []
+  for (const rule of rules) {
+    rangesByRule.push(rule.untrusted ? await matchUntrustedPattern(rule, texts) : matchPattern(rule.pattern, texts))
+  }
+
+  const matches = []
+  pages.forEach((pageText, index) => {
+    const pageNumber = index + 1
+    rules.forEach((rule, ruleIndex) => {
+      rangesByRule[ruleIndex][index].forEach(([start, length]) => {
+        if (!length) return
+        const boxes = boxesForRange(pageText, start, start + length)
+        if (!boxes.length) return
+        matches.push({
+          id: `${pageNumber}-${start}-${matches.length}`,
+          page: pageNumber,
+          rule: rule.label,
+          text: pageText.text.slice(start, start + length),
+          boxes
+        })
+      })
+    })
+  })
+
+  return matches
+}
+
+export function matchesToRedactions(matches) {
+  return matches.flatMap((match) => match.boxes.map((box) => ({ page: match.page, ...box })))
+}
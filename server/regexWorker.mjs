@@ -0,0 +1,10 @@
+import { parentPort, workerData } from 'node:worker_threads'
+
+// Runs one user-supplied pattern over every page's text. It lives in a
+// worker so a pattern that backtracks catastrophically can be stopped
+// without blocking the server; see matchUntrustedPattern in redaction.mjs.
+const { source, flags, texts } = workerData
+const pattern = new RegExp(source, flags)
+parentPort.postMessage(
+  texts.map((text) => Array.from(text.matchAll(pattern), (found) => [found.index, found[0].length]))
+)
@@ -0,0 +1,399 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFStream } from 'pdf-lib'
+import { removeUnreachableObjects } from '../shared/pdfPruning.mjs'
+import { readPageContent, readStreamBytes, tokenize } from './contentRedaction.mjs'
+import { OperationError } from './jobs.mjs'
+import { forEachDict, nameOf, plural, textOf } from './pdfObjects.mjs'
+
+// Removes active and concealed content from untrusted PDFs. Every removal is
+// recorded as { category, detail } so the caller can show exactly what went.
+
+// What each option removes when it is not sent: everything except
+// annotations, which are only removed on request.
+export const SANITIZE_DEFAULTS = {
+  javascript: true,
+  actions: true,
+  links: true,
+  attachments: true,
+  xfa: true,
+  hiddenLayers: true,
+  annotations: false
+}
+
+// Action types grouped under the option that removes them.
+const ACTION_CATEGORIES = {
+  JavaScript: 'javascript',
+  Launch: 'actions',
+  GoToR: 'actions',
+  GoToE: 'actions',
+  SubmitForm: 'actions',
+  ImportData: 'actions',
+  URI: 'links'
+}
+
+export function parseSanitizeOptions(body) {
+  return Object.fromEntries(
+    Object.entries(SANITIZE_DEFAULTS).map(([key, enabled]) => {
+      const value = body[key]
+      return [key, value === undefined || value === '' ? enabled : String(value) === 'true']
+    })
+  )
+}
+
+function nameTreeKeys(tree, context, keys = []) {
+  if (!(tree instanceof PDFDict)) return keys
+  const names = tree.lookupMaybe(PDFName.of('Names'), PDFArray)
+  names?.asArray().forEach((value, index) => {
+    if (index % 2 === 0) keys.push(textOf(context.lookup(value)) || '(unnamed)')
+  })
+  tree.lookupMaybe(PDFName.of('Kids'), PDFArray)?.asArray().forEach((kid) => nameTreeKeys(context.lookup(kid), context, keys))
+  return keys
+}
+
+// Action types in an action and the ones chained after it with /Next.
+function actionKinds(action, context, seen = new Set()) {
+  if (!(action instanceof PDFDict) || seen.has(action)) return []
+  seen.add(action)
+  const kind = action.has(PDFName.of('JS')) ? 'JavaScript' : nameOf(action.get(PDFName.of('S')))
+  const next = context.lookup(action.get(PDFName.of('Next')))
+  const following = next instanceof PDFArray
+    ? next.asArray().flatMap((item) => actionKinds(context.lookup(item), context, seen))
+    : actionKinds(next, context, seen)
+  return [kind, ...following].filter(Boolean)
+}
+
+function formatSize(size) {
+  return size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`
+}
+
+// Visibility of an /OC entry in the default configuration: an optional
+// content group listed under /OFF, or a membership dictionary whose policy
+// fails for the groups that are off. Returns the hidden layer's name.
+function hiddenLayerResolver(doc) {
+  const { context, catalog } = doc
+  const properties = catalog.lookupMaybe(PDFName.of('OCProperties'), PDFDict)
+  const defaults = properties?.lookupMaybe(PDFName.of('D'), PDFDict)
+  const off = new Set(
+    (defaults?.lookupMaybe(PDFName.of('OFF'), PDFArray)?.asArray() || [])
+      .map((item) => context.lookup(item))
+      .filter((item) => item instanceof PDFDict)
+  )
+  const layerName = (group) => textOf(group.lookup(PDFName.of('Name'))) || '(unnamed layer)'
+
+  const hiddenBy = (value) => {
+    const entry = context.lookup(value)
+    if (!(entry instanceof PDFDict) || !off.size) return null
+    if (nameOf(entry.get(PDFName.of('Type'))) !== 'OCMD') return off.has(entry) ? layerName(entry) : null
+
+    const groupsValue = context.lookup(entry.get(PDFName.of('OCGs')))
+    const groups = (groupsValue instanceof PDFArray ? groupsValue.asArray().map((item) => context.lookup(item)) : [groupsValue])
+      .filter((item) => item instanceof PDFDict)
+    if (!groups.length) return null
+    const hiddenGroups = groups.filter((group) => off.has(group))
+    const policy = nameOf(entry.get(PDFName.of('P'))) || 'AnyOn'
+    const hidden = {
+      AnyOn: hiddenGroups.length === groups.length,
+      AllOn: hiddenGroups.length > 0,
+      AnyOff: hiddenGroups.length === 0,
+      AllOff: hiddenGroups.length < groups.length
+    }[policy]
+    return hidden ? (hiddenGroups.length ? hiddenGroups : groups).map(layerName).join(' + ') : null
+  }
+
+  return { hasHiddenLayers: off.size > 0, hiddenBy }
+}
+
+// Drops marked-content sections tagged with a hidden layer and the XObjects
+// drawn from one. Returns null when nothing in the stream is hidden.
+function stripHiddenContent(source, resources, hiddenBy, removedByLayer) {
+  const properties = resources?.lookupMaybe(PDFName.of('Properties'), PDFDict)
+  const xobjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict)
+  const ranges = []
+  const stack = []
+  let skipping = null
+
+  tokenize(source).forEach((operation) => {
+    const { operator, operands } = operation
+    if (operator === 'BMC' || operator === 'BDC') {
+      let layer = null
+      if (!skipping && operator === 'BDC' && operands[0]?.value === 'OC' && operands[1]?.type === 'name') {
+        layer = hiddenBy(properties?.get(PDFName.of(operands[1].value)))
+      }
+      stack.push(operation)
+      if (layer) skipping = { start: operation.start, depth: stack.length, layer }
+    } else if (operator === 'EMC') {
+      if (skipping && stack.length === skipping.depth) {
+        ranges.push([skipping.start, operation.end])
+        removedByLayer(skipping.layer, 'content')
+        skipping = null
+      }
+      stack.pop()
+    } else if (!skipping && operator === 'Do' && operands[0]?.type === 'name') {
+      const xobject = xobjects?.lookupMaybe(PDFName.of(operands[0].value), PDFStream)
+      const layer = xobject && hiddenBy(xobject.dict.get(PDFName.of('OC')))
+      if (layer) {
+        ranges.push([operation.start, operation.end])
+        removedByLayer(layer, nameOf(xobject.dict.get(PDFName.of('Subtype'))) === 'Image' ? 'image' : 'form')
+      }
+    }
+  })
+  if (skipping) {
+    ranges.push([skipping.start, source.length])
+    removedByLayer(skipping.layer, 'content')
+  }
+  if (!ranges.length) return null
+
+  let content = ''
+  let position = 0
+  ranges.forEach(([start, end]) => {
+    content += source.slice(position, start)
+    position = end
+  })
+  return content + source.slice(position)
+}
+
+function removeHiddenLayers(doc, record) {
+  const { context, catalog } = doc
+  const { hasHiddenLayers, hiddenBy } = hiddenLayerResolver(doc)
+  if (!hasHiddenLayers) return
+
+  const counts = new Map()
+  const removedByLayer = (layer, kind) => {
+    const entry = counts.get(layer) || { content: 0, image: 0, form: 0 }
+    entry[kind] += 1
+    counts.set(layer, entry)
+  }
+
+  doc.getPages().forEach((page, index) => {
+    const content = stripHiddenContent(readPageContent(page), page.node.Resources(), hiddenBy, removedByLayer)
+    if (content !== null) {
+      page.node.set(PDFName.of('Contents'), context.register(context.flateStream(Buffer.from(content, 'latin1'))))
+    }
+    const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray)
+    for (let position = (annots?.size() ?? 0) - 1; position >= 0; position -= 1) {
+      const annot = context.lookup(annots.get(position))
+      const layer = annot instanceof PDFDict && hiddenBy(annot.get(PDFName.of('OC')))
+      if (layer) {
+        annots.remove(position)
+        record('hiddenLayers', `${nameOf(annot.get(PDFName.of('Subtype'))) || 'Unknown'} annotation on page ${index + 1} in hidden layer "${layer}"`)
+      }
+    }
+  })
+
+  context.enumerateIndirectObjects().forEach(([ref, object]) => {
+    if (!(object instanceof PDFStream) || nameOf(object.dict.get(PDFName.of('Subtype'))) !== 'Form') return
+    const resources = object.dict.lookupMaybe(PDFName.of('Resources'), PDFDict)
+    const source = Buffer.from(readStreamBytes(object)).toString('latin1')
+    const content = stripHiddenContent(source, resources, hiddenBy, removedByLayer)
+    if (content === null) return
+    const entries = {}
+    object.dict.entries().forEach(([key, value]) => {
+      if (!['Length', 'Filter', 'DecodeParms'].includes(key.decodeText())) entries[key.decodeText()] = value
+    })
+    context.assign(ref, context.flateStream(Buffer.from(content, 'latin1'), entries))
+  })
+
+  counts.forEach((entry, layer) => {
+    const parts = [
+      entry.content && plural(entry.content, 'content block'),
+      entry.image && plural(entry.image, 'image'),
+      entry.form && plural(entry.form, 'form XObject')
+    ].filter(Boolean)
+    if (parts.length) record('hiddenLayers', `Hidden layer "${layer}": ${parts.join(', ')}`)
+  })
+  // What was visible stays and becomes permanent; viewers can no longer
+  // switch a layer back on because the layer definitions are gone.
+  catalog.delete(PDFName.of('OCProperties'))
+  record('hiddenLayers', 'Layer definitions (remaining layers are merged into the page)')
+}
+
+// Describes where an action or trigger lives for the report.
+function ownerLabeler(doc) {
+  const { context, catalog } = doc
+  const pageNumbers = new Map()
+  const annotationPages = new Map()
+  doc.getPages().forEach((page, index) => {
+    pageNumbers.set(page.node, index + 1)
+    page.node.lookupMaybe(PDFName.of('Annots'), PDFArray)?.asArray().forEach((item) => {
+      const annot = context.lookup(item)
+      if (annot instanceof PDFDict) annotationPages.set(annot, index + 1)
+    })
+  })
+
+  return (dict) => {
+    if (dict === catalog) return 'the document'
+    if (pageNumbers.has(dict)) return `page ${pageNumbers.get(dict)}`
+    const fieldName = textOf(dict.lookup(PDFName.of('T')))
+    if (fieldName) return `form field "${fieldName}"`
+    if (annotationPages.has(dict)) {
+      return `${nameOf(dict.get(PDFName.of('Subtype'))) || 'an'} annotation on page ${annotationPages.get(dict)}`
+    }
+    const title = textOf(dict.lookup(PDFName.of('Title')))
+    if (title) return `bookmark "${title}"`
+    return 'an object'
+  }
+}
+
+function describeAction(kinds, action, context) {
+  const kind = kinds[0]
+  if (kind === 'URI') return `link to ${textOf(context.lookup(action.get(PDFName.of('URI')))) || '(unreadable address)'}`
+  if (kind === 'Launch') {
+    const file = context.lookup(action.get(PDFName.of('F')))
+    const target = file instanceof PDFDict
+      ? textOf(file.lookup(PDFName.of('UF'))) || textOf(file.lookup(PDFName.of('F')))
+      : textOf(file)
+    return `Launch action${target ? ` for ${target}` : ''}`
+  }
+  const label = kind === 'JavaScript' ? 'JavaScript' : `${kind} action`
+  return kinds.length > 1 ? `${label} (chained with ${kinds.slice(1).join(', ')})` : label
+}
+
+function removeActions(doc, options, record) {
+  const { context, catalog } = doc
+  const ownerOf = ownerLabeler(doc)
+  const clickCategory = (kinds) => {
+    return kinds.map((kind) => ACTION_CATEGORIES[kind]).find((category) => category && options[category]) || null
+  }
+  // Anything that runs without a click goes with the actions option.
+  const automaticCategory = (kinds) => clickCategory(kinds) || (options.actions ? 'actions' : null)
+
+  if (options.javascript) {
+    const names = catalog.lookupMaybe(PDFName.of('Names'), PDFDict)
+    const scripts = names?.lookupMaybe(PDFName.of('JavaScript'), PDFDict)
+    if (scripts) {
+      nameTreeKeys(scripts, context).forEach((name) => record('javascript', `Document-level script "${name}"`))
+      names.delete(PDFName.of('JavaScript'))
+    }
+  }
+
+  const openAction = context.lookup(catalog.get(PDFName.of('OpenAction')))
+  if (openAction instanceof PDFDict) {
+    const kinds = actionKinds(openAction, context)
+    const category = automaticCategory(kinds)
+    if (category) {
+      catalog.delete(PDFName.of('OpenAction'))
+      record(category, `${describeAction(kinds, openAction, context)} run when the document opens (OpenAction)`)
+    }
+  }
+
+  forEachDict(context, (dict) => {
+    const triggers = dict.lookupMaybe(PDFName.of('AA'), PDFDict)
+    if (triggers) {
+      triggers.entries().forEach(([trigger, value]) => {
+        const action = context.lookup(value)
+        const kinds = actionKinds(action, context)
+        const category = automaticCategory(kinds)
+        if (!category) return
+        triggers.delete(trigger)
+        record(category, `${describeAction(kinds, action, context)} on ${ownerOf(dict)} (trigger ${trigger.decodeText()})`)
+      })
+      if (!triggers.entries().length) dict.delete(PDFName.of('AA'))
+    }
+
+    const action = dict.lookupMaybe(PDFName.of('A'), PDFDict)
+    if (action) {
+      const kinds = actionKinds(action, context)
+      const category = clickCategory(kinds)
+      if (category) {
+        dict.delete(PDFName.of('A'))
+        record(category, `${describeAction(kinds, action, context)} on ${ownerOf(dict)}`)
+      }
+    }
+  })
+}
+
+function removeAttachments(doc, record) {
+  const { context, catalog } = doc
+  const names = catalog.lookupMaybe(PDFName.of('Names'), PDFDict)
+  names?.delete(PDFName.of('EmbeddedFiles'))
+  catalog.delete(PDFName.of('Collection'))
+  catalog.delete(PDFName.of('AF'))
+
+  doc.getPages().forEach((page, index) => {
+    page.node.delete(PDFName.of('AF'))
+    const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray)
+    for (let position = (annots?.size() ?? 0) - 1; position >= 0; position -= 1) {
+      const annot = context.lookup(annots.get(position))
+      if (annot instanceof PDFDict && nameOf(annot.get(PDFName.of('Subtype'))) === 'FileAttachment') {
+        annots.remove(position)
+        record('attachments', `File attachment annotation on page ${index + 1}`)
+      }
+    }
+  })
+
+  forEachDict(context, (dict) => {
+    const files = dict.lookupMaybe(PDFName.of('EF'), PDFDict)
+    if (!files) return
+    const name = textOf(dict.lookup(PDFName.of('UF'))) || textOf(dict.lookup(PDFName.of('F'))) || '(unnamed)'
+    const stream = files.lookupMaybe(PDFName.of('UF'), PDFStream) || files.lookupMaybe(PDFName.of('F'), PDFStream)
+    const size = stream?.dict.lookupMaybe(PDFName.of('Params'), PDFDict)?.lookupMaybe(PDFName.of('Size'), PDFNumber)
+    dict.delete(PDFName.of('EF'))
+    record('attachments', `Embedded file "${name}"${size ? ` (${formatSize(size.asNumber())})` : ''}`)
+  })
+}
+
+function removeXfa(doc, record) {
+  const form = doc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict)
+  const xfa = form && doc.context.lookup(form.get(PDFName.of('XFA')))
+  if (!xfa) return
+  const packets = xfa instanceof PDFArray ? xfa.size() / 2 : 1
+  form.delete(PDFName.of('XFA'))
+  doc.catalog.delete(PDFName.of('NeedsRendering'))
+  const fields = form.lookupMaybe(PDFName.of('Fields'), PDFArray)
+  record(
+    'xfa',
+    `XFA form (${plural(packets, 'packet')})${fields?.size() ? '' : '; the file had no AcroForm fields, so the form itself is gone'}`
+  )
+}
+
+// Form widgets are kept so fields still work; every other annotation goes.
+function removeAnnotations(doc, record) {
+  const { context } = doc
+  doc.getPages().forEach((page, index) => {
+    const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray)
+    if (!annots) return
+    const removed = new Map()
+    for (let position = annots.size() - 1; position >= 0; position -= 1) {
+      const annot = context.lookup(annots.get(position))
+      const subtype = annot instanceof PDFDict ? nameOf(annot.get(PDFName.of('Subtype'))) || 'Unknown' : 'Unknown'
+      if (subtype === 'Widget') continue
+      annots.remove(position)
+      removed.set(subtype, (removed.get(subtype) || 0) + 1)
+    }
+    if (removed.size) {
+      const parts = Array.from(removed).map(([subtype, count]) => `${count} ${subtype}`)
+      record('annotations', `Page ${index + 1}: ${parts.join(', ')}`)
+    }
+  })
+}
+
+// `bytes` must not be encrypted; the route decrypts with qpdf first.
+export async function sanitizePdf(bytes, options) {
+  let doc
+  try {
+    doc = await PDFDocument.load(bytes, { updateMetadata: false })
+  } catch (error) {
+    throw new OperationError(`Could not read the PDF: ${error instanceof Error ? error.message : error}`)
+  }
+  const removed = []
+  const record = (category, detail) => removed.push({ category, detail })
+  const steps = [
+    options.annotations && (() => removeAnnotations(doc, record)),
+    options.hiddenLayers && (() => removeHiddenLayers(doc, record)),
+    options.attachments && (() => removeAttachments(doc, record)),
+    options.xfa && (() => removeXfa(doc, record)),
+    (options.javascript || options.actions || options.links) && (() => removeActions(doc, options, record))
+  ].filter(Boolean)
+
+  // Objects nothing points to any more are dropped before every step, so
+  // what an earlier step cut off is neither reported again nor saved.
+  removeUnreachableObjects(doc)
+  steps.forEach((step) => {
+    step()
+    removeUnreachableObjects(doc)
+  })
+  const output = await doc.save({ useObjectStreams: true })
+  const counts = Object.fromEntries(
+    Object.keys(SANITIZE_DEFAULTS).map((key) => [key, removed.filter((entry) => entry.category === key).length])
+  )
+  return { bytes: output, report: { options, removed, counts, total: removed.length } }
+}
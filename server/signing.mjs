@@ -0,0 +1,525 @@
+import { createHash, sign as signDigest } from 'node:crypto'
+import forge from 'node-forge'
+import {
+  PDFArray,
+  PDFCrossRefStream,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRef,
+  PDFString,
+  StandardFontEmbedder,
+  StandardFonts
+} from 'pdf-lib'
+import { displayRectToUserBounds, pageGeometry } from '../shared/pageGeometry.mjs'
+import { OperationError } from './jobs.mjs'
+import { nameOf, textOf } from './pdfObjects.mjs'
+
+// PAdES signing: each signature is appended as an incremental update (new
+// and changed objects, an xref section and a trailer pointing back with
+// /Prev), so earlier revisions and the signatures over them stay
+// byte-for-byte intact. The CMS is a detached CAdES signature over the
+// /ByteRange, i.e. the whole file except the /Contents hex string.
+
+export const SIGNATURE_SUBFILTER = 'ETSI.CAdES.detached'
+
+// Bytes reserved for the CMS; enough for the signer and a few chain
+// certificates. The hex string in the file is twice as long.
+const SIGNATURE_SIZE = 16384
+const BYTE_RANGE_PLACEHOLDER = '0 0000000000 0000000000 0000000000'
+const DEFAULT_BOX = { x: 0.55, y: 0.82, width: 0.38, height: 0.1 }
+const APPEARANCE_FONT = StandardFontEmbedder.for(StandardFonts.Helvetica)
+
+const OIDS = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  rsaEncryption: '1.2.840.113549.1.1.1'
+}
+
+export function parseSignatureBox(raw) {
+  if (!raw) return DEFAULT_BOX
+  let parsed
+  try {
+    parsed = JSON.parse(String(raw))
+  } catch {
+    throw new OperationError('box must be JSON: {"x":0.5,"y":0.8,"width":0.4,"height":0.1}')
+  }
+  const box = ['x', 'y', 'width', 'height'].reduce((result, key) => ({ ...result, [key]: Number(parsed?.[key]) }), {})
+  const valid = Object.values(box).every(Number.isFinite)
+    && box.x >= 0 && box.y >= 0 && box.width > 0 && box.height > 0
+    && box.x + box.width <= 1.0001 && box.y + box.height <= 1.0001
+  if (!valid) throw new OperationError('box must lie within the page (fractions of its width and height)')
+  return box
+}
+
+// forge leaves UTF8String values as raw UTF-8 bytes.
+function nameField(name, attribute) {
+  const field = name.getField(attribute)
+  if (!field?.value) return null
+  return field.valueTagClass === forge.asn1.Type.UTF8 ? forge.util.decodeUtf8(field.value) : field.value
+}
+
+function describeCertificate(certificate) {
+  return {
+    commonName: nameField(certificate.subject, 'CN') || '(no common name)',
+    organization: nameField(certificate.subject, 'O'),
+    email: nameField(certificate.subject, 'E'),
+    issuer: nameField(certificate.issuer, 'CN'),
+    serialNumber: certificate.serialNumber,
+    validFrom: certificate.validity.notBefore.toISOString(),
+    validTo: certificate.validity.notAfter.toISOString(),
+    selfSigned: certificate.isIssuer(certificate)
+  }
+}
+
+// Reads the signing key and its certificate (plus any chain) from a
+// PKCS#12 bundle. node-forge handles RSA keys only.
+export function readPkcs12(buffer, password) {
+  let p12
+  try {
+    const der = forge.asn1.fromDer(forge.util.createBuffer(buffer.toString('binary')))
+    p12 = forge.pkcs12.pkcs12FromAsn1(der, password)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (/invalid password|mac could not be verified/i.test(message)) {
+      throw new OperationError('The certificate password is not correct')
+    }
+    throw new OperationError(`Could not read the certificate file (.p12/.pfx): ${message}`)
+  }
+
+  const bagsOf = (type) => p12.getBags({ bagType: type })[type] || []
+  const keys = [...bagsOf(forge.pki.oids.pkcs8ShroudedKeyBag), ...bagsOf(forge.pki.oids.keyBag)]
+    .map((bag) => bag.key)
+    .filter(Boolean)
+  const certificates = bagsOf(forge.pki.oids.certBag).map((bag) => bag.cert).filter(Boolean)
+  if (!keys.length || !certificates.length) {
+    throw new OperationError('The certificate file must contain an RSA private key and its certificate')
+  }
+
+  const privateKey = keys[0]
+  const certificate = certificates.find((cert) => cert.publicKey.n?.equals(privateKey.n))
+  if (!certificate) throw new OperationError('No certificate in the file matches its private key')
+
+  const now = new Date()
+  if (now < certificate.validity.notBefore || now > certificate.validity.notAfter) {
+    const { notBefore, notAfter } = certificate.validity
+    throw new OperationError(`The certificate is only valid from ${notBefore.toISOString()} to ${notAfter.toISOString()}`)
+  }
+
+  return {
+    privateKeyPem: forge.pki.privateKeyToPem(privateKey),
+    certificate,
+    chain: certificates.filter((cert) => cert !== certificate),
+    signer: describeCertificate(certificate)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CMS
+
+const { asn1 } = forge
+
+function derObject(bytes) {
+  return asn1.fromDer(forge.util.createBuffer(bytes))
+}
+
+function oid(value) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(value).getBytes())
+}
+
+function sequence(items) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, items)
+}
+
+function set(items) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, items)
+}
+
+function octetString(bytes) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, bytes)
+}
+
+function integer(value) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(value).getBytes())
+}
+
+function algorithm(identifier) {
+  return sequence([oid(identifier), asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, '')])
+}
+
+function attribute(type, value) {
+  return sequence([oid(type), set([value])])
+}
+
+// DER requires SET OF members in ascending order of their encodings.
+function sortedByEncoding(items) {
+  return items
+    .map((item) => ({ item, der: asn1.toDer(item).getBytes() }))
+    .sort((a, b) => (a.der < b.der ? -1 : a.der > b.der ? 1 : 0))
+    .map(({ item }) => item)
+}
+
+function buildCms({ certificate, chain, privateKeyPem }, digest) {
+  const certificateDer = asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes()
+  const certificateAsn1 = derObject(certificateDer)
+  // Issuer and serial are copied from the certificate as encoded so they
+  // match it exactly.
+  const tbs = certificateAsn1.value[0]
+  const offset = tbs.value[0].tagClass === asn1.Class.CONTEXT_SPECIFIC ? 1 : 0
+  const serial = tbs.value[offset]
+  const issuer = tbs.value[offset + 2]
+
+  const certificateHash = createHash('sha256').update(Buffer.from(certificateDer, 'binary')).digest('binary')
+  const attributes = sortedByEncoding([
+    attribute(OIDS.contentType, oid(OIDS.data)),
+    attribute(OIDS.messageDigest, octetString(digest.toString('binary'))),
+    attribute(OIDS.signingCertificateV2, sequence([sequence([sequence([octetString(certificateHash)])])]))
+  ])
+  const signedAttributes = asn1.toDer(set(attributes)).getBytes()
+  const signature = signDigest('sha256', Buffer.from(signedAttributes, 'binary'), privateKeyPem)
+
+  const signerInfo = sequence([
+    integer(1),
+    sequence([issuer, serial]),
+    algorithm(OIDS.sha256),
+    asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, attributes),
+    algorithm(OIDS.rsaEncryption),
+    octetString(signature.toString('binary'))
+  ])
+  const signedData = sequence([
+    integer(1),
+    set([algorithm(OIDS.sha256)]),
+    sequence([oid(OIDS.data)]),
+    asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [
+      certificateAsn1,
+      ...chain.map((cert) => forge.pki.certificateToAsn1(cert))
+    ]),
+    set([signerInfo])
+  ])
+  const contentInfo = sequence([oid(OIDS.signedData), asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [signedData])])
+  return Buffer.from(asn1.toDer(contentInfo).getBytes(), 'binary')
+}
+
+// ---------------------------------------------------------------------------
+// Appearance
+
+// Helvetica's WinAnsi encoding cannot show every character; the rest are
+// replaced so the appearance can still be drawn.
+function appearanceText(value) {
+  return Array.from(value)
+    .map((char) => {
+      try {
+        APPEARANCE_FONT.encodeText(char)
+        return char
+      } catch {
+        return '?'
+      }
+    })
+    .join('')
+}
+
+function formatNumber(value) {
+  return Number(value.toFixed(3)).toString()
+}
+
+// Rotates the appearance against the page's /Rotate so the text reads
+// upright in the viewer.
+const ROTATION_MATRICES = {
+  0: [1, 0, 0, 1, 0, 0],
+  90: [0, 1, -1, 0, 0, 0],
+  180: [-1, 0, 0, -1, 0, 0],
+  270: [0, -1, 1, 0, 0, 0]
+}
+
+function buildAppearance(context, { width, height, rotation, lines }) {
+  const padding = Math.min(6, width * 0.05, height * 0.1)
+  const text = lines.map(appearanceText)
+  const widest = Math.max(...text.map((line) => APPEARANCE_FONT.widthOfTextAtSize(line, 1)))
+  const size = Math.max(4, Math.min(11, (height - 2 * padding) / (text.length * 1.25), (width - 2 * padding) / widest))
+  const leading = size * 1.25
+
+  const operators = [
+    'q 0.16 0.32 0.62 RG 0.8 w',
+    `0.4 0.4 ${formatNumber(width - 0.8)} ${formatNumber(height - 0.8)} re S Q`,
+    'BT 0.1 0.16 0.38 rg',
+    `/Helv ${formatNumber(size)} Tf ${formatNumber(leading)} TL`,
+    `${formatNumber(padding)} ${formatNumber(height - padding - size)} Td`,
+    ...text.map((line, index) => `${index ? 'T* ' : ''}${APPEARANCE_FONT.encodeText(line).toString()} Tj`),
+    'ET'
+  ]
+  const font = context.register(
+    context.obj({ Type: 'Font', Subtype: 'Type1', BaseFont: 'Helvetica', Encoding: 'WinAnsiEncoding' })
+  )
+  return context.register(
+    context.flateStream(operators.join('\n'), {
+      Type: 'XObject',
+      Subtype: 'Form',
+      BBox: [0, 0, width, height],
+      Matrix: ROTATION_MATRICES[rotation] || ROTATION_MATRICES[0],
+      Resources: { Font: { Helv: font } }
+    })
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Incremental update
+
+function previousXrefOffset(bytes) {
+  const tail = Buffer.from(bytes.subarray(Math.max(0, bytes.length - 2048))).toString('latin1')
+  const match = tail.match(/startxref\s+(\d+)\s*%%EOF\s*$/) || Array.from(tail.matchAll(/startxref\s+(\d+)/g)).pop()
+  if (!match) throw new OperationError('The PDF has no startxref; repair it before signing')
+  return Number(match[1])
+}
+
+// The trailer /Size of the last section, which can exceed the highest
+// object number pdf-lib saw when the file ends in free entries.
+function previousSize(bytes, xrefOffset) {
+  const section = Buffer.from(bytes.subarray(xrefOffset, Math.min(bytes.length, xrefOffset + 65536))).toString('latin1')
+  const trailer = section.includes('trailer') ? section.slice(section.indexOf('trailer')) : section
+  return Number(trailer.match(/\/Size\s+(\d+)/)?.[1] || 0)
+}
+
+function serializeObject(ref, object) {
+  const body = new Uint8Array(object.sizeInBytes())
+  object.copyBytesInto(body, 0)
+  return Buffer.concat([
+    Buffer.from(`${ref.objectNumber} ${ref.generationNumber} obj\n`, 'latin1'),
+    Buffer.from(body),
+    Buffer.from('\nendobj\n', 'latin1')
+  ])
+}
+
+function sortedEntries(entries) {
+  return [...entries].sort((a, b) => a.number - b.number)
+}
+
+function xrefSection(entries) {
+  const sorted = sortedEntries(entries)
+  const lines = ['xref']
+  for (let index = 0; index < sorted.length;) {
+    let end = index
+    while (end + 1 < sorted.length && sorted[end + 1].number === sorted[end].number + 1) end += 1
+    lines.push(`${sorted[index].number} ${end - index + 1}`)
+    for (let position = index; position <= end; position += 1) {
+      const { offset, generation } = sorted[position]
+      lines.push(`${String(offset).padStart(10, '0')} ${String(generation).padStart(5, '0')} n `)
+    }
+    index = end + 1
+  }
+  return `${lines.join('\n')}\n`
+}
+
+// Files whose last section is a cross-reference stream get one as well;
+// readers do not all follow /Prev from a classic table into a stream.
+function xrefStream(context, entries, trailer) {
+  const stream = PDFCrossRefStream.create(context.obj({ ...trailer, Size: context.largestObjectNumber + 1 }))
+  sortedEntries(entries).forEach(({ number, generation, offset }) => {
+    stream.addUncompressedEntry(PDFRef.of(number, generation), offset)
+  })
+  return stream
+}
+
+function pdfText(value) {
+  return PDFHexString.fromText(value).toString()
+}
+
+function topLevelFieldNames(form, context) {
+  const fields = form?.lookupMaybe(PDFName.of('Fields'), PDFArray)
+  return (fields?.asArray() || [])
+    .map((ref) => context.lookup(ref))
+    .filter((field) => field instanceof PDFDict)
+    .map((field) => ({ name: textOf(field.lookup(PDFName.of('T'))), type: nameOf(field.get(PDFName.of('FT'))) }))
+}
+
+// Adds `ref` to the array stored under `key` in `dict`, and reports which
+// object has to be rewritten for that: the array itself when it is
+// indirect, otherwise the object holding `dict`.
+function appendToArray(dict, key, ref, context, holder) {
+  const value = dict.get(PDFName.of(key))
+  if (value instanceof PDFRef) {
+    const array = context.lookup(value)
+    if (array instanceof PDFArray) {
+      array.push(ref)
+      return value
+    }
+  }
+  if (value instanceof PDFArray) {
+    value.push(ref)
+  } else {
+    dict.set(PDFName.of(key), context.obj([ref]))
+  }
+  return holder
+}
+
+export async function signPdf(bytes, signing, { page: pageNumber, box, reason, location, contactInfo, fieldName }) {
+  let doc
+  try {
+    doc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false })
+  } catch (error) {
+    throw new OperationError(`Could not read the PDF: ${error instanceof Error ? error.message : error}`)
+  }
+  if (doc.isEncrypted) throw new OperationError('Encrypted PDFs cannot be signed here; unlock the file first')
+
+  const { context, catalog } = doc
+  const pages = doc.getPages()
+  const pageIndex = pageNumber ? pageNumber - 1 : pages.length - 1
+  if (!Number.isInteger(pageIndex) || pageIndex < 0 || pageIndex >= pages.length) {
+    throw new OperationError(`page must be between 1 and ${pages.length}`)
+  }
+  const page = pages[pageIndex]
+
+  const xrefOffset = previousXrefOffset(bytes)
+  context.largestObjectNumber = Math.max(context.largestObjectNumber, previousSize(bytes, xrefOffset) - 1)
+  const firstNewObject = context.largestObjectNumber + 1
+  const changed = new Set()
+
+  const rootRef = context.trailerInfo.Root
+  const formValue = catalog.get(PDFName.of('AcroForm'))
+  let form = context.lookup(formValue)
+  if (formValue instanceof PDFRef && form instanceof PDFDict) {
+    changed.add(formValue)
+  } else if (form instanceof PDFDict) {
+    changed.add(rootRef)
+  } else {
+    form = context.obj({})
+    catalog.set(PDFName.of('AcroForm'), context.register(form))
+    changed.add(rootRef)
+  }
+
+  const existing = topLevelFieldNames(form, context)
+  const name = fieldName || `Signature${existing.filter((field) => field.type === 'Sig').length + 1}`
+  if (existing.some((field) => field.name === name)) {
+    throw new OperationError(`The document already has a field named "${name}"`)
+  }
+
+  const geometry = pageGeometry(page)
+  const rect = displayRectToUserBounds(geometry, box)
+  const signedAt = new Date()
+  const lines = [
+    `Digitally signed by ${signing.signer.commonName}`,
+    `Date: ${signedAt.toISOString().replace('T', ' ').slice(0, 19)} UTC`,
+    reason && `Reason: ${reason}`,
+    location && `Location: ${location}`
+  ].filter(Boolean)
+  const appearance = buildAppearance(context, {
+    width: box.width * geometry.viewWidth,
+    height: box.height * geometry.viewHeight,
+    rotation: geometry.rotation,
+    lines
+  })
+
+  const signatureRef = context.nextRef()
+  const widgetRef = context.register(
+    context.obj({
+      Type: 'Annot',
+      Subtype: 'Widget',
+      FT: 'Sig',
+      T: PDFHexString.fromText(name),
+      V: signatureRef,
+      F: 132,
+      Rect: [rect.x1, rect.y1, rect.x2, rect.y2],
+      P: page.ref,
+      AP: { N: appearance }
+    })
+  )
+  changed.add(appendToArray(page.node, 'Annots', widgetRef, context, page.ref))
+  changed.add(appendToArray(form, 'Fields', widgetRef, context, formValue instanceof PDFRef ? formValue : rootRef))
+  form.set(PDFName.of('SigFlags'), context.obj(3))
+
+  const signatureDict = [
+    '<<',
+    '/Type /Sig',
+    '/Filter /Adobe.PPKLite',
+    `/SubFilter /${SIGNATURE_SUBFILTER}`,
+    `/ByteRange [${BYTE_RANGE_PLACEHOLDER}]`,
+    `/Contents <${'0'.repeat(SIGNATURE_SIZE * 2)}>`,
+    `/M ${PDFString.fromDate(signedAt).toString()}`,
+    `/Name ${pdfText(signing.signer.commonName)}`,
+    reason && `/Reason ${pdfText(reason)}`,
+    location && `/Location ${pdfText(location)}`,
+    contactInfo && `/ContactInfo ${pdfText(contactInfo)}`,
+    '>>'
+  ].filter(Boolean).join('\n')
+
+  // Objects are written after the original bytes, each at a known offset.
+  const separator = bytes[bytes.length - 1] === 0x0a ? '' : '\n'
+  let position = bytes.length + separator.length
+  const parts = [Buffer.from(separator, 'latin1')]
+  const entries = []
+  const write = (ref, chunk) => {
+    entries.push({ number: ref.objectNumber, generation: ref.generationNumber, offset: position })
+    parts.push(chunk)
+    position += chunk.length
+  }
+
+  const updated = [
+    ...changed,
+    ...context
+      .enumerateIndirectObjects()
+      .map(([ref]) => ref)
+      .filter((ref) => ref.objectNumber >= firstNewObject)
+  ]
+  updated.forEach((ref) => write(ref, serializeObject(ref, context.lookup(ref))))
+  const signatureOffset = position
+  write(signatureRef, Buffer.from(`${signatureRef.objectNumber} 0 obj\n${signatureDict}\nendobj\n`, 'latin1'))
+
+  const { Info, ID } = context.trailerInfo
+  const xrefStart = position
+  if (Buffer.from(bytes.subarray(xrefOffset, xrefOffset + 4)).toString('latin1') === 'xref') {
+    const trailer = [
+      `/Size ${context.largestObjectNumber + 1}`,
+      `/Root ${rootRef.toString()}`,
+      Info && `/Info ${Info.toString()}`,
+      ID && `/ID ${ID.toString()}`,
+      `/Prev ${xrefOffset}`
+    ].filter(Boolean)
+    parts.push(Buffer.from(`${xrefSection(entries)}trailer\n<< ${trailer.join(' ')} >>\n`, 'latin1'))
+  } else {
+    const ref = context.nextRef()
+    const stream = xrefStream(context, [...entries, { number: ref.objectNumber, generation: 0, offset: xrefStart }], {
+      Type: 'XRef',
+      Root: rootRef,
+      ...(Info ? { Info } : {}),
+      ...(ID ? { ID } : {}),
+      Prev: xrefOffset
+    })
+    parts.push(serializeObject(ref, stream))
+  }
+  parts.push(Buffer.from(`startxref\n${xrefStart}\n%%EOF\n`, 'latin1'))
+
+  const output = Buffer.concat([Buffer.from(bytes), ...parts])
+  const signatureText = output.subarray(signatureOffset).toString('latin1')
+  const byteRangeStart = signatureOffset + signatureText.indexOf(BYTE_RANGE_PLACEHOLDER)
+  const contentsStart = signatureOffset + signatureText.indexOf('/Contents <') + '/Contents '.length
+  const contentsEnd = contentsStart + SIGNATURE_SIZE * 2 + 2
+  const byteRange = [0, contentsStart, contentsEnd, output.length - contentsEnd]
+  output.write(byteRange.join(' ').padEnd(BYTE_RANGE_PLACEHOLDER.length, ' '), byteRangeStart, 'latin1')
+
+  const digest = createHash('sha256')
+    .update(output.subarray(0, contentsStart))
+    .update(output.subarray(contentsEnd))
+    .digest()
+  const cms = buildCms(signing, digest)
+  if (cms.length > SIGNATURE_SIZE) {
+    throw new OperationError('The certificate chain is too large for the space reserved for the signature')
+  }
+  output.write(cms.toString('hex').toUpperCase(), contentsStart + 1, 'latin1')
+
+  return {
+    bytes: output,
+    report: {
+      field: name,
+      page: pageIndex + 1,
+      signer: signing.signer,
+      signedAt: signedAt.toISOString(),
+      subFilter: SIGNATURE_SUBFILTER,
+      byteRange,
+      revision: existing.filter((field) => field.type === 'Sig').length + 1
+    }
+  }
+}
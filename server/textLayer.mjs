@@ -0,0 +1,138 @@
+import path from 'node:path'
+import { createRequire } from 'node:module'
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs'
+import { StandardFontEmbedder, StandardFonts } from 'pdf-lib'
+
+const require = createRequire(import.meta.url)
+const standardFontDataUrl = `${path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts')}${path.sep}`
+
+const referenceFont = StandardFontEmbedder.for(StandardFonts.Helvetica)
+const charWeights = new Map()
+const advanceCache = new WeakMap()
+
+function charWeight(char) {
+  let weight = charWeights.get(char)
+  if (weight === undefined) {
+    try {
+      weight = referenceFont.widthOfTextAtSize(char, 1000) || 556
+    } catch {
+      weight = 556
+    }
+    charWeights.set(char, weight)
+  }
+  return weight
+}
+
+// Offsets of each character along the item's advance, weighted by Helvetica
+// widths so narrow and wide glyphs get a realistic share of the run.
+function itemAdvances(item) {
+  let advances = advanceCache.get(item)
+  if (!advances) {
+    const weights = item.str.split('').map(charWeight)
+    const total = weights.reduce((sum, weight) => sum + weight, 0) || 1
+    advances = [0]
+    weights.forEach((weight) => advances.push(advances[advances.length - 1] + (item.width * weight) / total))
+    advanceCache.set(item, advances)
+  }
+  return advances
+}
+
+export async function openTextDocument(buffer) {
+  return getDocument({
+    data: new Uint8Array(buffer),
+    standardFontDataUrl,
+    isEvalSupported: false,
+    disableFontFace: true,
+    verbosity: 0
+  }).promise
+}
+
+// Builds the page string pdfjs would show when selecting all text, keeping a
+// map from each character back to the text item (and offset) it came from.
+export async function readPageText(page) {
+  const content = await page.getTextContent()
+  const viewport = page.getViewport({ scale: 1 })
+  const chars = []
+  let text = ''
+  let previous = null
+
+  content.items.forEach((item) => {
+    if (!('str' in item)) return
+    if (previous && item.str) {
+      const sameLine = Math.abs(previous.transform[5] - item.transform[5]) < Math.max(1, previous.height * 0.5)
+      const gap = item.transform[4] - (previous.transform[4] + previous.width)
+      if (!sameLine || gap > previous.height * 0.15) {
+        if (!/\s$/.test(text) && !/^\s/.test(item.str)) {
+          text += ' '
+          chars.push(null)
+        }
+      }
+    }
+    for (let offset = 0; offset < item.str.length; offset += 1) {
+      text += item.str[offset]
+      chars.push({ item, offset })
+    }
+    if (item.hasEOL) {
+      text += '\n'
+      chars.push(null)
+    }
+    if (item.str) previous = item
+  })
+
+  return { text, chars, viewport }
+}
+
+// Approximates glyph boxes from the item's advance width; boxes are padded so
+// fonts that differ from the reference widths are still covered.
+export function boxesForRange(pageText, start, end) {
+  const { chars, viewport } = pageText
+  const segments = new Map()
+
+  for (let index = start; index < end; index += 1) {
+    const entry = chars[index]
+    if (!entry) continue
+    const current = segments.get(entry.item)
+    if (current) {
+      current.first = Math.min(current.first, entry.offset)
+      current.last = Math.max(current.last, entry.offset)
+    } else {
+      segments.set(entry.item, { first: entry.offset, last: entry.offset })
+    }
+  }
+
+  return Array.from(segments.entries()).map(([item, { first, last }]) => {
+    const [a, b, c, d, e, f] = item.transform
+    const advances = itemAdvances(item)
+    const fontHeight = item.height || Math.hypot(c, d) || 10
+    const scaleX = Math.hypot(a, b) || 1
+    const dirX = a / scaleX
+    const dirY = b / scaleX
+    const startAdvance = advances[first]
+    const endAdvance = advances[last + 1]
+    const pad = fontHeight * 0.1
+
+    const corners = [
+      [startAdvance - pad, -fontHeight * 0.25],
+      [endAdvance + pad, -fontHeight * 0.25],
+      [startAdvance - pad, fontHeight * 1.05],
+      [endAdvance + pad, fontHeight * 1.05]
+    ].map(([along, across]) => viewport.convertToViewportPoint(
+      e + along * dirX - across * dirY,
+      f + along * dirY + across * dirX
+    ))
+
+    const xs = corners.map(([x]) => x)
+    const ys = corners.map(([, y]) => y)
+    const x = Math.max(0, Math.min(...xs))
+    const y = Math.max(0, Math.min(...ys))
+    const right = Math.min(viewport.width, Math.max(...xs))
+    const bottom = Math.min(viewport.height, Math.max(...ys))
+
+    return {
+      x: x / viewport.width,
+      y: y / viewport.height,
+      width: Math.max(0, right - x) / viewport.width,
+      height: Math.max(0, bottom - y) / viewport.height
+    }
+  }).filter((box) => box.width > 0 && box.height > 0)
+}
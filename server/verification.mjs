@@ -0,0 +1,474 @@
+import { X509Certificate, constants as cryptoConstants, createHash, verify as verifySignature } from 'node:crypto'
+import forge from 'node-forge'
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFRef, PDFString } from 'pdf-lib'
+import { OperationError } from './jobs.mjs'
+import { nameOf, textOf } from './pdfObjects.mjs'
+
+// Signature verification checks what the file itself can prove: that the
+// signed byte ranges still hash to the digest in the CMS, that the CMS
+// signature matches the embedded signer certificate, and what was appended
+// after each signature. Whether the certificate is trusted depends on the
+// reader's trust store and is left to the reader.
+
+const { asn1 } = forge
+
+const DIGEST_ALGORITHMS = {
+  '1.3.14.3.2.26': 'sha1',
+  '2.16.840.1.101.3.4.2.1': 'sha256',
+  '2.16.840.1.101.3.4.2.2': 'sha384',
+  '2.16.840.1.101.3.4.2.3': 'sha512'
+}
+
+const RSA_PSS = '1.2.840.113549.1.1.10'
+
+// Signature algorithms whose hash comes from the signer's digest algorithm.
+const SIGNATURE_ALGORITHMS = new Set([
+  '1.2.840.113549.1.1.1',
+  '1.2.840.113549.1.1.5',
+  '1.2.840.113549.1.1.11',
+  '1.2.840.113549.1.1.12',
+  '1.2.840.113549.1.1.13',
+  '1.2.840.10045.2.1',
+  '1.2.840.10045.4.1',
+  '1.2.840.10045.4.3.2',
+  '1.2.840.10045.4.3.3',
+  '1.2.840.10045.4.3.4',
+  RSA_PSS
+])
+
+const ATTRIBUTES = {
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  timestampToken: '1.2.840.113549.1.9.16.2.14'
+}
+
+const CMS_SUBFILTERS = new Set(['adbe.pkcs7.detached', 'adbe.pkcs7.sha1', 'ETSI.CAdES.detached'])
+
+// ---------------------------------------------------------------------------
+// CMS
+
+function oidOf(node) {
+  return asn1.derToOid(node.value)
+}
+
+function toBuffer(binary) {
+  return Buffer.from(binary, 'binary')
+}
+
+function derOf(node) {
+  return toBuffer(asn1.toDer(node).getBytes())
+}
+
+function isContext(node, type) {
+  return node?.tagClass === asn1.Class.CONTEXT_SPECIFIC && node.type === type
+}
+
+function attributeValues(node) {
+  const attributes = new Map()
+  ;(node?.value || []).forEach((attribute) => {
+    attributes.set(oidOf(attribute.value[0]), attribute.value[1].value)
+  })
+  return attributes
+}
+
+function asn1Time(node) {
+  if (!node) return null
+  if (node.type === asn1.Type.UTCTIME) return asn1.utcTimeToDate(node.value)
+  if (node.type === asn1.Type.GENERALIZEDTIME) return asn1.generalizedTimeToDate(node.value)
+  return null
+}
+
+// Reads the parts of a CMS SignedData needed for verification. The
+// signature value is zero-padded in the file, so trailing bytes are ignored.
+function parseCms(bytes) {
+  let contentInfo
+  try {
+    contentInfo = asn1.fromDer(forge.util.createBuffer(Buffer.from(bytes).toString('binary')), {
+      parseAllBytes: false,
+      decodeBitStrings: false
+    })
+  } catch {
+    throw new Error('The signature value is not a readable CMS structure')
+  }
+  if (oidOf(contentInfo.value[0]) !== '1.2.840.113549.1.7.2') {
+    throw new Error('The signature value is not CMS SignedData')
+  }
+  const signedData = contentInfo.value[1].value[0]
+  const encapsulated = signedData.value[2]
+  const content = isContext(encapsulated.value[1], 0) ? toBuffer(encapsulated.value[1].value[0].value) : null
+  const certificates = []
+  let signerInfos = []
+  signedData.value.slice(3).forEach((node) => {
+    if (isContext(node, 0)) {
+      node.value
+        .filter((certificate) => certificate.type === asn1.Type.SEQUENCE)
+        .forEach((certificate) => certificates.push(new X509Certificate(derOf(certificate))))
+    } else if (node.tagClass === asn1.Class.UNIVERSAL && node.type === asn1.Type.SET) {
+      signerInfos = node.value
+    }
+  })
+  if (!signerInfos.length) throw new Error('The CMS structure has no signer')
+
+  const [, sid, digestAlgorithm, ...rest] = signerInfos[0].value
+  const signedAttributes = isContext(rest[0], 0) ? rest.shift() : null
+  const [signatureAlgorithm, signature, unsignedAttributes] = rest
+  const serialNumber =
+    sid.type === asn1.Type.SEQUENCE ? forge.util.bytesToHex(sid.value[1].value).replace(/^0+/, '').toUpperCase() : null
+  return {
+    serialNumber,
+    digestAlgorithm: oidOf(digestAlgorithm.value[0]),
+    signatureAlgorithm: oidOf(signatureAlgorithm.value[0]),
+    signature: toBuffer(signature.value),
+    // Signed attributes are signed as a SET, not with their [0] tag.
+    signedAttributesDer: signedAttributes ? Buffer.concat([Buffer.from([0x31]), derOf(signedAttributes).subarray(1)]) : null,
+    signedAttributes: attributeValues(signedAttributes),
+    unsignedAttributes: attributeValues(isContext(unsignedAttributes, 1) ? unsignedAttributes : null),
+    content,
+    certificates
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Certificates
+
+function nameFields(name) {
+  return Object.fromEntries(
+    name
+      .split('\n')
+      .map((line) => line.split('='))
+      .filter((parts) => parts.length >= 2)
+      .map(([key, ...value]) => [key, value.join('=')])
+  )
+}
+
+function isSelfSigned(certificate) {
+  try {
+    return certificate.checkIssued(certificate) && certificate.verify(certificate.publicKey)
+  } catch {
+    return false
+  }
+}
+
+function describeCertificate(certificate, certificates, signingTime) {
+  const subject = nameFields(certificate.subject)
+  const issuer = nameFields(certificate.issuer)
+  const validFrom = new Date(certificate.validFrom)
+  const validTo = new Date(certificate.validTo)
+  const selfSigned = isSelfSigned(certificate)
+  const issuerCertificate = certificates.find(
+    (candidate) => candidate !== certificate && certificate.checkIssued(candidate)
+  )
+  return {
+    commonName: subject.CN || null,
+    organization: subject.O || null,
+    email: subject.emailAddress || null,
+    subject: certificate.subject.replace(/\n/g, ', '),
+    issuer: issuer.CN || certificate.issuer.replace(/\n/g, ', '),
+    serialNumber: certificate.serialNumber,
+    fingerprint: certificate.fingerprint256,
+    validFrom: validFrom.toISOString(),
+    validTo: validTo.toISOString(),
+    selfSigned,
+    issuerIncluded: selfSigned || Boolean(issuerCertificate),
+    validAtSigningTime: signingTime ? signingTime >= validFrom && signingTime <= validTo : null,
+    expired: Date.now() > validTo.getTime()
+  }
+}
+
+function findSigner(cms) {
+  const bySerial = cms.serialNumber
+    ? cms.certificates.find((certificate) => certificate.serialNumber.replace(/^0+/, '').toUpperCase() === cms.serialNumber)
+    : null
+  return bySerial || cms.certificates[0] || null
+}
+
+function checkSignatureValue(cms, hash, signedData, certificate) {
+  const options =
+    cms.signatureAlgorithm === RSA_PSS
+      ? {
+          key: certificate.publicKey,
+          padding: cryptoConstants.RSA_PKCS1_PSS_PADDING,
+          saltLength: cryptoConstants.RSA_PSS_SALTLEN_AUTO
+        }
+      : certificate.publicKey
+  try {
+    return verifySignature(hash, signedData, options, cms.signature)
+  } catch {
+    return false
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Document structure
+
+function collectSignatureFields(context, form) {
+  const fields = []
+  const seen = new Set()
+  const visit = (value, parentName, inheritedType) => {
+    const dict = context.lookup(value)
+    if (!(dict instanceof PDFDict) || seen.has(dict)) return
+    seen.add(dict)
+    const name = [parentName, textOf(dict.lookup(PDFName.of('T')))].filter(Boolean).join('.')
+    const type = nameOf(dict.get(PDFName.of('FT'))) || inheritedType
+    const kids = dict.lookupMaybe(PDFName.of('Kids'), PDFArray)?.asArray() || []
+    const childFields = kids.filter((kid) => context.lookup(kid)?.has?.(PDFName.of('T')))
+    if (childFields.length) {
+      childFields.forEach((kid) => visit(kid, name, type))
+    } else if (type === 'Sig') {
+      fields.push({ name: name || '(unnamed)', dict, widgets: kids.length ? kids : [value] })
+    }
+  }
+  ;(form?.lookupMaybe(PDFName.of('Fields'), PDFArray)?.asArray() || []).forEach((field) => visit(field, '', null))
+  return fields
+}
+
+function widgetPages(doc) {
+  const pages = new Map()
+  doc.getPages().forEach((page, index) => {
+    ;(page.node.lookupMaybe(PDFName.of('Annots'), PDFArray)?.asArray() || []).forEach((annotation) => {
+      if (annotation instanceof PDFRef) pages.set(annotation.toString(), index + 1)
+    })
+  })
+  return pages
+}
+
+function isVisible(context, widget) {
+  const rect = context.lookup(widget)?.lookupMaybe?.(PDFName.of('Rect'), PDFArray)
+  if (!rect || rect.size() < 4) return false
+  const [x1, y1, x2, y2] = rect.asArray().map((value) => (value instanceof PDFNumber ? value.asNumber() : 0))
+  return Math.abs(x2 - x1) > 0 && Math.abs(y2 - y1) > 0
+}
+
+// Offsets just past each %%EOF marker and its line ending: where each
+// revision of the file ends.
+function revisionEnds(bytes) {
+  const ends = []
+  const marker = Buffer.from('%%EOF', 'latin1')
+  let index = bytes.indexOf(marker)
+  while (index >= 0) {
+    let end = index + marker.length
+    while (end < bytes.length && (bytes[end] === 0x0d || bytes[end] === 0x0a)) end += 1
+    ends.push(end)
+    index = bytes.indexOf(marker, end)
+  }
+  return ends
+}
+
+function isWhitespace(bytes) {
+  return bytes.every((byte) => [0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20].includes(byte))
+}
+
+function readByteRange(dict) {
+  const array = dict.lookupMaybe(PDFName.of('ByteRange'), PDFArray)
+  const values = array?.asArray().map((value) => (value instanceof PDFNumber ? value.asNumber() : NaN)) || []
+  return values.length === 4 && values.every(Number.isInteger) ? values : null
+}
+
+// Signature dictionaries may use hex strings, which pdf-lib does not
+// decode as dates.
+function pdfDate(value) {
+  const match = value.decodeText().match(/^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/)
+  if (!match) return null
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00'] = match
+  const [zone, zoneHour = '00', zoneMinute = '00'] = match.slice(7)
+  const offset = !zone || /z/i.test(zone) ? 'Z' : `${zone}${zoneHour}:${zoneMinute}`
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function signatureDictText(dict, key, encrypted) {
+  // Strings in an encrypted file are ciphertext; /Contents is the only
+  // string in a signature dictionary left unencrypted.
+  return encrypted ? null : textOf(dict.lookup(PDFName.of(key)))
+}
+
+function verifySignatureField(bytes, field, encrypted) {
+  const value = field.dict.lookup(PDFName.of('V'))
+  if (!(value instanceof PDFDict)) return { signed: false }
+
+  const issues = []
+  const subFilter = nameOf(value.get(PDFName.of('SubFilter')))
+  const byteRange = readByteRange(value)
+  const modifiedText = value.lookup(PDFName.of('M'))
+  const dictionaryTime =
+    modifiedText instanceof PDFString || modifiedText instanceof PDFHexString ? pdfDate(modifiedText) : null
+  const result = {
+    signed: true,
+    subFilter,
+    signerName: signatureDictText(value, 'Name', encrypted),
+    reason: signatureDictText(value, 'Reason', encrypted),
+    location: signatureDictText(value, 'Location', encrypted),
+    contactInfo: signatureDictText(value, 'ContactInfo', encrypted),
+    signingTime: dictionaryTime?.toISOString() || null,
+    signingTimeSource: dictionaryTime ? 'dictionary' : null,
+    timestamped: false,
+    byteRange,
+    coversWholeFile: false,
+    changesAfterSigning: null,
+    laterRevisions: 0,
+    integrity: { byteRangeValid: false, digestAlgorithm: null, digestMatches: false, signatureValid: false },
+    certificate: null,
+    chain: [],
+    verdict: 'invalid',
+    issues
+  }
+
+  if (!byteRange) {
+    issues.push('The signature has no usable /ByteRange.')
+    return result
+  }
+  const [start, firstLength, secondStart, secondLength] = byteRange
+  const end = secondStart + secondLength
+  const gap = bytes.subarray(start + firstLength, secondStart).toString('latin1')
+  result.integrity.byteRangeValid =
+    start === 0 && firstLength > 0 && secondStart > firstLength && end <= bytes.length && /^<[0-9A-Fa-f\s]*>$/.test(gap)
+  if (!result.integrity.byteRangeValid) {
+    issues.push(
+      end > bytes.length
+        ? 'The /ByteRange reaches past the end of the file; the file was truncated or altered.'
+        : 'The /ByteRange leaves out more than the signature value, so parts of the file are not covered.'
+    )
+  }
+  result.coversWholeFile = end === bytes.length
+  if (end <= bytes.length) {
+    result.changesAfterSigning = isWhitespace(bytes.subarray(end)) ? 'none' : 'other'
+  }
+
+  if (!CMS_SUBFILTERS.has(subFilter)) {
+    result.verdict = 'unsupported'
+    issues.push(`Signatures of type ${subFilter || '(none)'} cannot be checked here.`)
+    return result
+  }
+
+  const contents = value.lookup(PDFName.of('Contents'))
+  let cms
+  try {
+    if (!(contents instanceof PDFHexString || contents instanceof PDFString)) throw new Error('The signature has no value')
+    cms = parseCms(contents.asBytes())
+  } catch (error) {
+    issues.push(error instanceof Error ? error.message : String(error))
+    return result
+  }
+
+  const hash = DIGEST_ALGORITHMS[cms.digestAlgorithm]
+  if (!hash || !SIGNATURE_ALGORITHMS.has(cms.signatureAlgorithm)) {
+    result.verdict = 'unsupported'
+    issues.push(`The signature algorithm (${hash ? cms.signatureAlgorithm : cms.digestAlgorithm}) is not supported here.`)
+    return result
+  }
+  result.integrity.digestAlgorithm = hash.toUpperCase().replace('SHA', 'SHA-')
+
+  const signedBytes = Buffer.concat([
+    bytes.subarray(start, start + firstLength),
+    bytes.subarray(secondStart, Math.min(end, bytes.length))
+  ])
+  const digest = createHash(hash).update(signedBytes).digest()
+  const signingTime = asn1Time(cms.signedAttributes.get(ATTRIBUTES.signingTime)?.[0])
+  if (signingTime) {
+    result.signingTime = signingTime.toISOString()
+    result.signingTimeSource = 'signature'
+  }
+  result.timestamped = cms.unsignedAttributes.has(ATTRIBUTES.timestampToken)
+
+  const certificate = findSigner(cms)
+  if (!certificate) {
+    issues.push('The signature does not include the signer certificate.')
+    return result
+  }
+  result.certificate = describeCertificate(certificate, cms.certificates, signingTime || dictionaryTime)
+  result.chain = cms.certificates.map((entry) => nameFields(entry.subject).CN || entry.subject.replace(/\n/g, ', '))
+
+  if (cms.signedAttributesDer) {
+    const messageDigest = cms.signedAttributes.get(ATTRIBUTES.messageDigest)?.[0]
+    result.integrity.digestMatches = Boolean(messageDigest) && toBuffer(messageDigest.value).equals(digest)
+    result.integrity.signatureValid = checkSignatureValue(cms, hash, cms.signedAttributesDer, certificate)
+  } else {
+    // adbe.pkcs7.sha1 signs a SHA-1 digest of the ranges carried inside the
+    // CMS; the detached types sign the ranges themselves.
+    const content = cms.content || signedBytes
+    result.integrity.digestMatches = cms.content
+      ? cms.content.equals(createHash('sha1').update(signedBytes).digest())
+      : true
+    result.integrity.signatureValid = checkSignatureValue(cms, hash, content, certificate)
+  }
+
+  if (!result.integrity.digestMatches) {
+    issues.push('The signed bytes no longer match the digest in the signature: the document was changed.')
+  }
+  if (!result.integrity.signatureValid) {
+    issues.push('The signature value does not match the signer certificate.')
+  }
+  if (result.certificate.validAtSigningTime === false) {
+    issues.push('The certificate was not valid at the signing time.')
+  }
+  if (result.certificate.expired) {
+    issues.push('The certificate has expired since.')
+  }
+  if (result.certificate.selfSigned) {
+    issues.push('The certificate is self-signed; its identity is only as trustworthy as the person who sent it.')
+  }
+
+  const intact = result.integrity.byteRangeValid && result.integrity.digestMatches && result.integrity.signatureValid
+  result.verdict = intact ? 'valid' : 'invalid'
+  return result
+}
+
+// A signature followed only by later signatures was not otherwise changed:
+// every revision appended after it ends where one of those signatures ends.
+function classifyLaterChanges(bytes, signatures) {
+  const ends = revisionEnds(bytes)
+  const signedEnds = new Set(
+    signatures.filter((entry) => entry.integrity?.byteRangeValid).map((entry) => entry.byteRange[2] + entry.byteRange[3])
+  )
+  signatures
+    .filter((entry) => entry.changesAfterSigning)
+    .forEach((entry) => {
+      const end = entry.byteRange[2] + entry.byteRange[3]
+      const later = ends.filter((revisionEnd) => revisionEnd > end)
+      entry.laterRevisions = later.length
+      if (entry.changesAfterSigning !== 'other') return
+      const last = Math.max(end, ...later)
+      if (later.length && later.every((revisionEnd) => signedEnds.has(revisionEnd)) && isWhitespace(bytes.subarray(last))) {
+        entry.changesAfterSigning = 'signatures'
+      }
+    })
+}
+
+export async function verifyPdfSignatures(buffer) {
+  const bytes = Buffer.from(buffer)
+  let doc
+  try {
+    doc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false })
+  } catch (error) {
+    throw new OperationError(`Could not read the PDF: ${error instanceof Error ? error.message : error}`)
+  }
+  const { context, catalog } = doc
+  const encrypted = doc.isEncrypted
+  const form = catalog.lookup(PDFName.of('AcroForm'))
+  const pages = widgetPages(doc)
+
+  const fields = collectSignatureFields(context, form instanceof PDFDict ? form : null).map((field) => {
+    const widget = field.widgets.find((entry) => entry instanceof PDFRef) || null
+    return {
+      name: field.name,
+      page: widget ? pages.get(widget.toString()) || null : null,
+      visible: field.widgets.some((entry) => isVisible(context, entry)),
+      ...verifySignatureField(bytes, field, encrypted)
+    }
+  })
+  const signatures = fields.filter((field) => field.signed)
+  classifyLaterChanges(bytes, signatures)
+  // Signatures are listed in signing order, i.e. by how much of the file
+  // they cover; empty fields follow.
+  const signedLength = (field) => (field.byteRange ? field.byteRange[2] + field.byteRange[3] : 0)
+  signatures.sort((a, b) => signedLength(a) - signedLength(b))
+  const unsigned = fields.filter((field) => !field.signed)
+
+  return {
+    fileSize: bytes.length,
+    revisions: revisionEnds(bytes).length,
+    encrypted,
+    signatureCount: signatures.length,
+    fields: [...signatures, ...unsigned]
+  }
+}
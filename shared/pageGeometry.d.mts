@@ -0,0 +1,21 @@
+import type { PDFPage } from 'pdf-lib'
+
+export type PageGeometry = {
+  x: number
+  y: number
+  width: number
+  height: number
+  rotation: number
+  viewWidth: number
+  viewHeight: number
+}
+
+export type DisplayBox = { x: number; y: number; width: number; height: number }
+
+export function pageGeometry(page: PDFPage): PageGeometry
+export function displayToUser(geometry: PageGeometry, u: number, v: number): [number, number]
+export function displayRectToUserBounds(
+  geometry: PageGeometry,
+  box: DisplayBox
+): { x1: number; y1: number; x2: number; y2: number }
+export function displayRectToUser(geometry: PageGeometry, box: DisplayBox): DisplayBox
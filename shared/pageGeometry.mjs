@@ -0,0 +1,43 @@
+// Page geometry shared by the browser tools and the server, so boxes drawn
+// on a pdfjs preview land in the same place whichever side writes the PDF.
+
+export function pageGeometry(page) {
+  const crop = page.getCropBox()
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360
+  const sideways = rotation === 90 || rotation === 270
+  return {
+    x: crop.x,
+    y: crop.y,
+    width: crop.width,
+    height: crop.height,
+    rotation,
+    viewWidth: sideways ? crop.height : crop.width,
+    viewHeight: sideways ? crop.width : crop.height
+  }
+}
+
+// Editor and redaction coordinates are normalized to the page as pdfjs
+// displays it (CropBox and /Rotate applied, origin top-left); this maps them
+// back to PDF user space.
+export function displayToUser(geometry, u, v) {
+  const { x, y, width, height, rotation, viewWidth, viewHeight } = geometry
+  const dx = u * viewWidth
+  const dy = v * viewHeight
+  if (rotation === 90) return [x + dy, y + dx]
+  if (rotation === 180) return [x + width - dx, y + dy]
+  if (rotation === 270) return [x + width - dy, y + height - dx]
+  return [x + dx, y + height - dy]
+}
+
+// The user-space bounds of a displayed box, as { x1, y1, x2, y2 }.
+export function displayRectToUserBounds(geometry, box) {
+  const [ax, ay] = displayToUser(geometry, box.x, box.y)
+  const [bx, by] = displayToUser(geometry, box.x + box.width, box.y + box.height)
+  return { x1: Math.min(ax, bx), y1: Math.min(ay, by), x2: Math.max(ax, bx), y2: Math.max(ay, by) }
+}
+
+// The same bounds as pdf-lib's { x, y, width, height }.
+export function displayRectToUser(geometry, box) {
+  const { x1, y1, x2, y2 } = displayRectToUserBounds(geometry, box)
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 }
+}
@@ -0,0 +1,4 @@
+import type { PDFDocument } from 'pdf-lib'
+
+export function removeUnreachableObjects(doc: PDFDocument): number
+export function stripExtras(doc: PDFDocument, stripMetadata: boolean): void
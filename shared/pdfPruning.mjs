@@ -0,0 +1,57 @@
+import { PDFArray, PDFDict, PDFName, PDFRef, PDFStream } from 'pdf-lib'
+
+// Object-graph pruning used by both the browser tools and the server, so a
+// file slimmed down in either place loses exactly the same objects.
+
+// pdf-lib writes every object in the context, including ones nothing points
+// to any more (replaced streams, parsed object streams, orphaned thumbnails),
+// so they are dropped before saving. Returns how many were removed.
+export function removeUnreachableObjects(doc) {
+  const { context } = doc
+  const reachable = new Set()
+  const { Root, Info, Encrypt, ID } = context.trailerInfo
+  const queue = [Root, Info, Encrypt, ID]
+  let removed = 0
+
+  while (queue.length) {
+    const item = queue.pop()
+    if (!item) continue
+    if (item instanceof PDFRef) {
+      if (reachable.has(item.tag)) continue
+      reachable.add(item.tag)
+      queue.push(context.lookup(item))
+      continue
+    }
+    if (item instanceof PDFDict) {
+      item.entries().forEach(([, value]) => queue.push(value))
+    } else if (item instanceof PDFArray) {
+      item.asArray().forEach((value) => queue.push(value))
+    } else if (item instanceof PDFStream) {
+      queue.push(item.dict)
+    }
+  }
+
+  context.enumerateIndirectObjects().forEach(([ref]) => {
+    if (!reachable.has(ref.tag)) {
+      context.delete(ref)
+      removed += 1
+    }
+  })
+
+  return removed
+}
+
+// Drops embedded page thumbnails, application private data and (optionally)
+// the Info dictionary and XMP packet. The objects they pointed to are left
+// for removeUnreachableObjects.
+export function stripExtras(doc, stripMetadata) {
+  doc.getPages().forEach((page) => {
+    page.node.delete(PDFName.of('Thumb'))
+    page.node.delete(PDFName.of('PieceInfo'))
+  })
+  doc.catalog.delete(PDFName.of('PieceInfo'))
+  if (stripMetadata) {
+    doc.catalog.delete(PDFName.of('Metadata'))
+    doc.context.trailerInfo.Info = undefined
+  }
+}
@@ -8,6 +8,11 @@ type HealthResponse = {
     qpdf?: boolean
     libreoffice?: boolean
     pdftoppm?: boolean
+    ghostscript?: boolean
+  }
+  pdfa?: {
+    ghostscript?: boolean
+    libreoffice?: boolean
   }
 }
 
@@ -74,6 +79,9 @@ export function SystemCheckPage() {
     const qpdf = Boolean(health?.binaries?.qpdf)
     const libre = Boolean(health?.binaries?.libreoffice)
     const pdftoppm = Boolean(health?.binaries?.pdftoppm)
+    const ghostscript = Boolean(health?.binaries?.ghostscript)
+    const pdfaGhostscript = Boolean(health?.pdfa?.ghostscript)
+    const pdfaLibre = Boolean(health?.pdfa?.libreoffice)
     const apiOnline = Boolean(health?.ok)
 
     const offline: StatusKind = 'offline'
@@ -89,6 +97,26 @@ export function SystemCheckPage() {
         dependency: 'qpdf',
         status: apiOnline ? (qpdf ? 'ready' : 'missing') : offline
       },
+      {
+        tool: 'PDF Security Check',
+        dependency: qpdf ? 'Backend API + qpdf' : 'Backend API (qpdf for password and structure checks)',
+        status: apiOnline ? 'ready' : offline
+      },
+      {
+        tool: 'Sanitize PDF',
+        dependency: qpdf ? 'Backend API + qpdf' : 'Backend API (qpdf for encrypted files)',
+        status: apiOnline ? 'ready' : offline
+      },
+      {
+        tool: 'Sign PDF',
+        dependency: 'Backend API',
+        status: apiOnline ? 'ready' : offline
+      },
+      {
+        tool: 'Verify Signatures',
+        dependency: 'Backend API',
+        status: apiOnline ? 'ready' : offline
+      },
       {
         tool: 'Repair PDF',
         dependency: 'qpdf',
@@ -99,6 +127,11 @@ export function SystemCheckPage() {
         dependency: 'pdftoppm',
         status: apiOnline ? (pdftoppm ? 'ready' : 'missing') : offline
       },
+      {
+        tool: 'Compress PDF (server)',
+        dependency: 'Ghostscript and/or qpdf',
+        status: apiOnline ? (ghostscript || qpdf ? 'ready' : 'missing') : offline
+      },
       {
         tool: 'PowerPoint to PDF',
         dependency: 'LibreOffice',
@@ -109,6 +142,14 @@ export function SystemCheckPage() {
         dependency: 'LibreOffice',
         status: apiOnline ? (libre ? 'ready' : 'missing') : offline
       },
+      {
+        tool: 'PDF to PDF/A',
+        dependency:
+          pdfaGhostscript || pdfaLibre
+            ? [pdfaGhostscript && 'Ghostscript', pdfaLibre && 'LibreOffice'].filter(Boolean).join(' + ')
+            : 'Ghostscript (with sRGB ICC profile) or LibreOffice',
+        status: apiOnline ? (pdfaGhostscript || pdfaLibre ? 'ready' : 'missing') : offline
+      },
       {
         tool: 'PDF to Text',
         dependency: 'Backend API',
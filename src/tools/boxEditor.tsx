@@ -0,0 +1,230 @@
+import { PointerEvent as ReactPointerEvent, ReactNode, useEffect, useRef, useState } from 'react'
+
+export type PageBox = {
+  id: string
+  page: number
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se'
+
+type DragState =
+  | { kind: 'draw'; id: string; originX: number; originY: number }
+  | { kind: 'move'; id: string; offsetX: number; offsetY: number }
+  | { kind: 'resize'; id: string; corner: Corner; anchorX: number; anchorY: number }
+
+const MIN_SIZE = 0.005
+const CORNERS: Corner[] = ['nw', 'ne', 'sw', 'se']
+
+let nextBoxId = 1
+
+export function createBoxId() {
+  nextBoxId += 1
+  return `box-${Date.now().toString(36)}-${nextBoxId}`
+}
+
+function clamp(value: number) {
+  return Math.min(1, Math.max(0, value))
+}
+
+function spanBox(box: PageBox, ax: number, ay: number, bx: number, by: number): PageBox {
+  return {
+    ...box,
+    x: Math.min(ax, bx),
+    y: Math.min(ay, by),
+    width: Math.abs(bx - ax),
+    height: Math.abs(by - ay)
+  }
+}
+
+export function BoxEditor({
+  image,
+  page,
+  boxes,
+  onChange,
+  selectedId,
+  onSelect,
+  boxClassName = 'box-editor-box',
+  overlays = [],
+  renderLabel,
+  renderContent
+}: {
+  image: string
+  page: number
+  boxes: PageBox[]
+  onChange: (boxes: PageBox[]) => void
+  selectedId: string | null
+  onSelect: (id: string | null) => void
+  boxClassName?: string | ((box: PageBox) => string)
+  overlays?: { box: PageBox; className: string; title?: string }[]
+  renderLabel?: (box: PageBox) => string
+  renderContent?: (box: PageBox) => ReactNode
+}) {
+  const surfaceRef = useRef<HTMLDivElement>(null)
+  const [drag, setDrag] = useState<DragState | null>(null)
+
+  useEffect(() => {
+    const onKey = (event: KeyboardEvent) => {
+      if (!selectedId) return
+      const target = event.target as HTMLElement | null
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault()
+        onChange(boxes.filter((box) => box.id !== selectedId))
+        onSelect(null)
+      }
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [boxes, onChange, onSelect, selectedId])
+
+  const pointFromEvent = (event: ReactPointerEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect()
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height)
+    }
+  }
+
+  const updateBox = (id: string, update: (box: PageBox) => PageBox) => {
+    onChange(boxes.map((box) => (box.id === id ? update(box) : box)))
+  }
+
+  const onSurfaceDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return
+    const point = pointFromEvent(event)
+    const id = createBoxId()
+    surfaceRef.current!.setPointerCapture(event.pointerId)
+    onChange([...boxes, { id, page, x: point.x, y: point.y, width: 0, height: 0 }])
+    onSelect(id)
+    setDrag({ kind: 'draw', id, originX: point.x, originY: point.y })
+  }
+
+  const onBoxDown = (event: ReactPointerEvent<HTMLDivElement>, box: PageBox) => {
+    if (event.button !== 0) return
+    event.stopPropagation()
+    const point = pointFromEvent(event)
+    surfaceRef.current!.setPointerCapture(event.pointerId)
+    onSelect(box.id)
+    setDrag({ kind: 'move', id: box.id, offsetX: point.x - box.x, offsetY: point.y - box.y })
+  }
+
+  const onHandleDown = (event: ReactPointerEvent<HTMLSpanElement>, box: PageBox, corner: Corner) => {
+    if (event.button !== 0) return
+    event.stopPropagation()
+    surfaceRef.current!.setPointerCapture(event.pointerId)
+    onSelect(box.id)
+    setDrag({
+      kind: 'resize',
+      id: box.id,
+      corner,
+      anchorX: corner.includes('w') ? box.x + box.width : box.x,
+      anchorY: corner.includes('n') ? box.y + box.height : box.y
+    })
+  }
+
+  const onMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!drag) return
+    const point = pointFromEvent(event)
+    if (drag.kind === 'draw') {
+      updateBox(drag.id, (box) => spanBox(box, drag.originX, drag.originY, point.x, point.y))
+      return
+    }
+    if (drag.kind === 'resize') {
+      updateBox(drag.id, (box) => spanBox(box, drag.anchorX, drag.anchorY, point.x, point.y))
+      return
+    }
+    updateBox(drag.id, (box) => ({
+      ...box,
+      x: Math.min(1 - box.width, Math.max(0, point.x - drag.offsetX)),
+      y: Math.min(1 - box.height, Math.max(0, point.y - drag.offsetY))
+    }))
+  }
+
+  const onUp = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!drag) return
+    if (surfaceRef.current?.hasPointerCapture(event.pointerId)) {
+      surfaceRef.current.releasePointerCapture(event.pointerId)
+    }
+    const current = boxes.find((box) => box.id === drag.id)
+    if (current && (current.width < MIN_SIZE || current.height < MIN_SIZE)) {
+      onChange(boxes.filter((box) => box.id !== drag.id))
+      onSelect(null)
+    }
+    setDrag(null)
+  }
+
+  const removeBox = (id: string) => {
+    onChange(boxes.filter((box) => box.id !== id))
+    if (selectedId === id) onSelect(null)
+  }
+
+  return (
+    <div
+      ref={surfaceRef}
+      className="box-editor"
+      onPointerDown={onSurfaceDown}
+      onPointerMove={onMove}
+      onPointerUp={onUp}
+      onPointerCancel={onUp}
+    >
+      {image ? <img src={image} alt={`Page ${page}`} draggable={false} /> : <div className="compare-empty">Rendering page...</div>}
+      {overlays
+        .filter((overlay) => overlay.box.page === page)
+        .map((overlay) => (
+          <div
+            key={overlay.box.id}
+            className={overlay.className}
+            title={overlay.title}
+            style={{
+              left: `${overlay.box.x * 100}%`,
+              top: `${overlay.box.y * 100}%`,
+              width: `${overlay.box.width * 100}%`,
+              height: `${overlay.box.height * 100}%`
+            }}
+          />
+        ))}
+      {boxes
+        .filter((box) => box.page === page)
+        .map((box) => (
+          <div
+            key={box.id}
+            className={`${typeof boxClassName === 'function' ? boxClassName(box) : boxClassName}${box.id === selectedId ? ' selected' : ''}`}
+            style={{
+              left: `${box.x * 100}%`,
+              top: `${box.y * 100}%`,
+              width: `${box.width * 100}%`,
+              height: `${box.height * 100}%`
+            }}
+            onPointerDown={(event) => onBoxDown(event, box)}
+          >
+            {renderContent ? renderContent(box) : null}
+            {renderLabel ? <span className="box-editor-label">{renderLabel(box)}</span> : null}
+            {box.id === selectedId ? (
+              <>
+                {CORNERS.map((corner) => (
+                  <span
+                    key={corner}
+                    className={`box-editor-handle ${corner}`}
+                    onPointerDown={(event) => onHandleDown(event, box, corner)}
+                  />
+                ))}
+                <button
+                  type="button"
+                  className="box-editor-remove"
+                  title="Remove box"
+                  onPointerDown={(event) => event.stopPropagation()}
+                  onClick={() => removeBox(box.id)}
+                >
+                  ×
+                </button>
+              </>
+            ) : null}
+          </div>
+        ))}
+    </div>
+  )
+}
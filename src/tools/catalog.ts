@@ -19,6 +19,9 @@ export const TOOLS: ToolDef[] = [
   { slug: 'edit-metadata', name: 'Edit PDF Metadata', category: 'Edit PDF' },
   { slug: 'unlock-pdf', name: 'Unlock PDF', category: 'Security PDF' },
   { slug: 'protect-pdf', name: 'Protect PDF', category: 'Security PDF' },
+  { slug: 'inspect-pdf', name: 'PDF Security Check', category: 'Security PDF' },
+  { slug: 'sanitize-pdf', name: 'Sanitize PDF', category: 'Security PDF' },
+  { slug: 'verify-signatures', name: 'Verify Signatures', category: 'Security PDF' },
   { slug: 'jpg-to-pdf', name: 'JPG to PDF', category: 'Convert to PDF' },
   { slug: 'word-to-pdf', name: 'Word to PDF', category: 'Convert to PDF' },
   { slug: 'powerpoint-to-pdf', name: 'PowerPoint to PDF', category: 'Convert to PDF' },
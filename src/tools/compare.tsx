@@ -0,0 +1,595 @@
+import { Fragment, useState } from 'react'
+import { saveAs } from 'file-saver'
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib'
+import { FilePicker, ToolShell, toPdfBlob } from './shared'
+import { extractPageTexts, openPdf, renderPage } from './pdfjs'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import {
+  DiffRun,
+  PageChangeCount,
+  PageSignature,
+  alignPages,
+  countPageChanges,
+  diffPageTokens,
+  tokenizePages
+} from './textDiff'
+
+const RENDER_SCALE = 1.25
+const PIXEL_THRESHOLD = 48
+const CELL_SIZE = 12
+const CELL_MIN_PIXELS = 3
+const HASH_SCALE = 0.2
+const HASH_SIZE = 16
+
+type CompareMode = 'visual' | 'text'
+
+type PageStatus = 'same' | 'changed' | 'added' | 'removed'
+
+type DiffRegion = {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+type PageDiff = {
+  originalPage: number | null
+  revisedPage: number | null
+  status: PageStatus
+  changedRatio: number
+  sizeMismatch: boolean
+  regions: DiffRegion[]
+  width: number
+  height: number
+  left: string
+  right: string
+  overlay: string
+}
+
+function printable(value: string) {
+  return value.replace(/[^\x20-\x7e]/g, '?')
+}
+
+function pageLabel(diff: PageDiff) {
+  if (diff.originalPage && diff.revisedPage) {
+    return diff.originalPage === diff.revisedPage
+      ? `Page ${diff.originalPage}`
+      : `Page ${diff.originalPage} (revised page ${diff.revisedPage})`
+  }
+  return diff.originalPage ? `Original page ${diff.originalPage}` : `Revised page ${diff.revisedPage}`
+}
+
+function statusLabel(diff: PageDiff) {
+  if (diff.status === 'added') return 'Added page'
+  if (diff.status === 'removed') return 'Removed page'
+  if (diff.status === 'same') return 'No visual changes'
+  return `Changed (${(diff.changedRatio * 100).toFixed(2)}% of pixels, ${diff.regions.length} region${diff.regions.length === 1 ? '' : 's'})`
+}
+
+function statusClass(status: PageStatus) {
+  if (status === 'same') return 'badge ok'
+  if (status === 'changed') return 'badge warn'
+  return 'badge err'
+}
+
+function padCanvas(source: HTMLCanvasElement, width: number, height: number) {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')!
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, width, height)
+  context.drawImage(source, 0, 0)
+  return context.getImageData(0, 0, width, height)
+}
+
+function mergeCells(cells: Uint8Array, columns: number, rows: number) {
+  const seen = new Uint8Array(cells.length)
+  const boxes: { minX: number; minY: number; maxX: number; maxY: number }[] = []
+
+  for (let start = 0; start < cells.length; start += 1) {
+    if (!cells[start] || seen[start]) continue
+    const box = { minX: columns, minY: rows, maxX: 0, maxY: 0 }
+    const stack = [start]
+    seen[start] = 1
+    while (stack.length) {
+      const index = stack.pop()!
+      const cx = index % columns
+      const cy = Math.floor(index / columns)
+      box.minX = Math.min(box.minX, cx)
+      box.minY = Math.min(box.minY, cy)
+      box.maxX = Math.max(box.maxX, cx)
+      box.maxY = Math.max(box.maxY, cy)
+      for (let dy = -1; dy <= 1; dy += 1) {
+        for (let dx = -1; dx <= 1; dx += 1) {
+          const nx = cx + dx
+          const ny = cy + dy
+          if (nx < 0 || ny < 0 || nx >= columns || ny >= rows) continue
+          const next = ny * columns + nx
+          if (cells[next] && !seen[next]) {
+            seen[next] = 1
+            stack.push(next)
+          }
+        }
+      }
+    }
+    boxes.push(box)
+  }
+
+  return boxes
+}
+
+function diffCanvases(left: HTMLCanvasElement, right: HTMLCanvasElement) {
+  const width = Math.max(left.width, right.width)
+  const height = Math.max(left.height, right.height)
+  const a = padCanvas(left, width, height)
+  const b = padCanvas(right, width, height)
+
+  const overlayCanvas = document.createElement('canvas')
+  overlayCanvas.width = width
+  overlayCanvas.height = height
+  const overlayContext = overlayCanvas.getContext('2d')!
+  const overlay = overlayContext.createImageData(width, height)
+
+  const columns = Math.ceil(width / CELL_SIZE)
+  const rows = Math.ceil(height / CELL_SIZE)
+  const cellCounts = new Uint16Array(columns * rows)
+  let changedPixels = 0
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const offset = (y * width + x) * 4
+      const delta = Math.max(
+        Math.abs(a.data[offset] - b.data[offset]),
+        Math.abs(a.data[offset + 1] - b.data[offset + 1]),
+        Math.abs(a.data[offset + 2] - b.data[offset + 2])
+      )
+      if (delta > PIXEL_THRESHOLD) {
+        changedPixels += 1
+        cellCounts[Math.floor(y / CELL_SIZE) * columns + Math.floor(x / CELL_SIZE)] += 1
+        overlay.data[offset] = 220
+        overlay.data[offset + 1] = 38
+        overlay.data[offset + 2] = 38
+      } else {
+        const gray = (b.data[offset] + b.data[offset + 1] + b.data[offset + 2]) / 3
+        const faded = 255 - (255 - gray) * 0.35
+        overlay.data[offset] = faded
+        overlay.data[offset + 1] = faded
+        overlay.data[offset + 2] = faded
+      }
+      overlay.data[offset + 3] = 255
+    }
+  }
+
+  overlayContext.putImageData(overlay, 0, 0)
+
+  const cells = new Uint8Array(cellCounts.length)
+  cellCounts.forEach((count, index) => {
+    cells[index] = count >= CELL_MIN_PIXELS ? 1 : 0
+  })
+
+  const regions = mergeCells(cells, columns, rows).map((box) => {
+    const x = box.minX * CELL_SIZE
+    const y = box.minY * CELL_SIZE
+    return {
+      x: x / width,
+      y: y / height,
+      width: Math.min(width - x, (box.maxX - box.minX + 1) * CELL_SIZE) / width,
+      height: Math.min(height - y, (box.maxY - box.minY + 1) * CELL_SIZE) / height
+    }
+  })
+
+  overlayContext.strokeStyle = 'rgba(220, 38, 38, 0.9)'
+  overlayContext.lineWidth = 2
+  regions.forEach((region) => {
+    overlayContext.strokeRect(region.x * width, region.y * height, region.width * width, region.height * height)
+  })
+
+  return {
+    overlay: overlayCanvas,
+    changedRatio: changedPixels / (width * height),
+    regions
+  }
+}
+
+// Average hash of a small rendering: enough to recognize the same textless
+// page in both files without rendering it at full size.
+async function imageHash(doc: PDFDocumentProxy, pageNumber: number) {
+  const source = await renderPage(doc, pageNumber, HASH_SCALE)
+  const canvas = document.createElement('canvas')
+  canvas.width = HASH_SIZE
+  canvas.height = HASH_SIZE
+  const context = canvas.getContext('2d')!
+  context.drawImage(source, 0, 0, HASH_SIZE, HASH_SIZE)
+  const { data } = context.getImageData(0, 0, HASH_SIZE, HASH_SIZE)
+  const gray = Array.from({ length: HASH_SIZE * HASH_SIZE }, (_, index) =>
+    (data[index * 4] + data[index * 4 + 1] + data[index * 4 + 2]) / 3
+  )
+  const mean = gray.reduce((sum, value) => sum + value, 0) / gray.length
+  return `${source.width}x${source.height}:${gray.map((value) => (value < mean ? '1' : '0')).join('')}`
+}
+
+async function pageSignatures(doc: PDFDocumentProxy) {
+  const texts = await extractPageTexts(doc)
+  const signatures: PageSignature[] = []
+  for (let index = 0; index < texts.length; index += 1) {
+    const text = texts[index]
+    signatures.push({ text, image: text.trim() ? null : await imageHash(doc, index + 1) })
+  }
+  return signatures
+}
+
+async function comparePdfs(leftFile: File, rightFile: File, onProgress: (message: string) => void) {
+  const [leftDoc, rightDoc] = await Promise.all([openPdf(leftFile), openPdf(rightFile)])
+  onProgress('Matching pages...')
+  const [leftPages, rightPages] = await Promise.all([pageSignatures(leftDoc), pageSignatures(rightDoc)])
+  const pairs = alignPages(leftPages, rightPages)
+  const results: PageDiff[] = []
+
+  for (const [index, pair] of pairs.entries()) {
+    onProgress(`Comparing page ${index + 1} of ${pairs.length}...`)
+    const left = pair.original ? await renderPage(leftDoc, pair.original, RENDER_SCALE) : null
+    const right = pair.revised ? await renderPage(rightDoc, pair.revised, RENDER_SCALE) : null
+
+    if (left && right) {
+      const diff = diffCanvases(left, right)
+      results.push({
+        originalPage: pair.original,
+        revisedPage: pair.revised,
+        status: diff.regions.length ? 'changed' : 'same',
+        changedRatio: diff.changedRatio,
+        sizeMismatch: left.width !== right.width || left.height !== right.height,
+        regions: diff.regions,
+        width: diff.overlay.width / RENDER_SCALE,
+        height: diff.overlay.height / RENDER_SCALE,
+        left: left.toDataURL('image/jpeg', 0.85),
+        right: right.toDataURL('image/jpeg', 0.85),
+        overlay: diff.overlay.toDataURL('image/jpeg', 0.85)
+      })
+      continue
+    }
+
+    const only = (left || right)!
+    const image = only.toDataURL('image/jpeg', 0.85)
+    results.push({
+      originalPage: pair.original,
+      revisedPage: pair.revised,
+      status: left ? 'removed' : 'added',
+      changedRatio: 1,
+      sizeMismatch: false,
+      regions: [{ x: 0, y: 0, width: 1, height: 1 }],
+      width: only.width / RENDER_SCALE,
+      height: only.height / RENDER_SCALE,
+      left: left ? image : '',
+      right: right ? image : '',
+      overlay: image
+    })
+  }
+
+  return results
+}
+
+type TextComparison = {
+  runs: DiffRun[]
+  counts: PageChangeCount[]
+  insertions: number
+  deletions: number
+}
+
+async function compareText(leftFile: File, rightFile: File, onProgress: (message: string) => void) {
+  onProgress('Extracting text...')
+  const [leftDoc, rightDoc] = await Promise.all([openPdf(leftFile), openPdf(rightFile)])
+  const [leftPages, rightPages] = await Promise.all([extractPageTexts(leftDoc), extractPageTexts(rightDoc)])
+  onProgress('Computing word-level diff...')
+  const runs = diffPageTokens(tokenizePages(leftPages), tokenizePages(rightPages))
+  const counts = countPageChanges(runs, Math.max(leftPages.length, rightPages.length))
+  return {
+    runs,
+    counts,
+    insertions: counts.reduce((sum, entry) => sum + entry.insertions, 0),
+    deletions: counts.reduce((sum, entry) => sum + entry.deletions, 0)
+  }
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function buildTextChangeLogJson(leftName: string, rightName: string, result: TextComparison) {
+  return JSON.stringify(
+    {
+      original: leftName,
+      revised: rightName,
+      generatedAt: new Date().toISOString(),
+      summary: { insertions: result.insertions, deletions: result.deletions },
+      pages: result.counts.filter((entry) => entry.insertions || entry.deletions),
+      changes: result.runs
+        .filter((run) => run.type !== 'equal')
+        .map((run) => ({
+          type: run.type,
+          originalPage: run.originalPage,
+          revisedPage: run.revisedPage,
+          words: run.words,
+          text: run.text
+        }))
+    },
+    null,
+    2
+  )
+}
+
+function buildTextChangeLogHtml(leftName: string, rightName: string, result: TextComparison) {
+  const pages = Array.from(new Set(result.runs.map((run) => run.displayPage)))
+  const sections = pages
+    .map((page) => {
+      const runs = result.runs.filter((run) => run.displayPage === page)
+      if (!runs.some((run) => run.type !== 'equal')) return ''
+      const body = runs
+        .map((run) => {
+          const text = escapeHtml(run.text)
+          if (run.type === 'insert') return `<ins>${text}</ins>`
+          if (run.type === 'delete') return `<del>${text}</del>`
+          return text
+        })
+        .join(' ')
+      return `<h2>Page ${page}</h2>\n<p>${body}</p>`
+    })
+    .filter(Boolean)
+    .join('\n')
+
+  const rows = result.counts
+    .filter((entry) => entry.insertions || entry.deletions)
+    .map((entry) => `<tr><td>${entry.page}</td><td>${entry.deletions}</td><td>${entry.insertions}</td></tr>`)
+    .join('')
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Change log: ${escapeHtml(leftName)} vs ${escapeHtml(rightName)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 24px auto; line-height: 1.6; color: #0f172a; }
+ins { background: #dcfce7; color: #166534; text-decoration: none; }
+del { background: #fee2e2; color: #991b1b; }
+table { border-collapse: collapse; margin: 12px 0; }
+td, th { border: 1px solid #cbd5e1; padding: 4px 10px; text-align: left; }
+</style>
+</head>
+<body>
+<h1>Change log</h1>
+<p>Original: ${escapeHtml(leftName)}<br>Revised: ${escapeHtml(rightName)}<br>Generated: ${new Date().toISOString()}</p>
+<p>${result.deletions} words removed, ${result.insertions} words added.</p>
+<table><thead><tr><th>Page</th><th>Words removed (original)</th><th>Words added (revised)</th></tr></thead><tbody>${rows}</tbody></table>
+${sections}
+</body>
+</html>
+`
+}
+
+async function buildDiffReport(leftName: string, rightName: string, diffs: PageDiff[]) {
+  const doc = await PDFDocument.create()
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold)
+  const headerHeight = 28
+
+  const summary = doc.addPage([595, 842])
+  summary.drawText('PDF comparison report', { x: 40, y: 790, size: 18, font: bold })
+  summary.drawText(`Original: ${printable(leftName)}`, { x: 40, y: 764, size: 11, font })
+  summary.drawText(`Revised: ${printable(rightName)}`, { x: 40, y: 748, size: 11, font })
+  const changedCount = diffs.filter((diff) => diff.status !== 'same').length
+  summary.drawText(`${changedCount} of ${diffs.length} pages differ`, { x: 40, y: 724, size: 11, font: bold })
+  diffs.slice(0, 40).forEach((diff, index) => {
+    summary.drawText(`${pageLabel(diff)}: ${statusLabel(diff)}`, {
+      x: 40,
+      y: 700 - index * 16,
+      size: 10,
+      font,
+      color: diff.status === 'same' ? rgb(0.2, 0.4, 0.2) : rgb(0.6, 0.1, 0.1)
+    })
+  })
+  if (diffs.length > 40) {
+    summary.drawText(`...and ${diffs.length - 40} more pages`, { x: 40, y: 700 - 40 * 16, size: 10, font })
+  }
+
+  for (const diff of diffs) {
+    const image = await doc.embedJpg(diff.overlay)
+    const page = doc.addPage([diff.width, diff.height + headerHeight])
+    page.drawImage(image, { x: 0, y: 0, width: diff.width, height: diff.height })
+    page.drawRectangle({ x: 0, y: diff.height, width: diff.width, height: headerHeight, color: rgb(0.95, 0.96, 0.98) })
+    page.drawText(`${pageLabel(diff)} - ${statusLabel(diff)}`, {
+      x: 10,
+      y: diff.height + 9,
+      size: 11,
+      font: bold,
+      color: rgb(0.1, 0.1, 0.2)
+    })
+
+    const boxColor = diff.status === 'added' ? rgb(0.1, 0.6, 0.2) : rgb(0.86, 0.15, 0.15)
+    diff.regions.forEach((region) => {
+      const width = region.width * diff.width
+      const height = region.height * diff.height
+      page.drawRectangle({
+        x: region.x * diff.width,
+        y: diff.height - region.y * diff.height - height,
+        width,
+        height,
+        borderColor: boxColor,
+        borderWidth: 1.5
+      })
+    })
+  }
+
+  return doc.save()
+}
+
+export function CompareTool() {
+  const [files, setFiles] = useState<File[]>([])
+  const [mode, setMode] = useState<CompareMode>('visual')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+  const [diffs, setDiffs] = useState<PageDiff[]>([])
+  const [textResult, setTextResult] = useState<TextComparison | null>(null)
+  const [changedOnly, setChangedOnly] = useState(false)
+
+  const run = async () => {
+    if (files.length !== 2) return
+    setBusy(true)
+    setDiffs([])
+    setTextResult(null)
+    try {
+      if (mode === 'text') {
+        const result = await compareText(files[0], files[1], setStatus)
+        setTextResult(result)
+        setStatus(
+          result.insertions || result.deletions
+            ? `${result.deletions} words removed, ${result.insertions} words added.`
+            : 'No text differences found.'
+        )
+        return
+      }
+      const results = await comparePdfs(files[0], files[1], setStatus)
+      setDiffs(results)
+      const changed = results.filter((diff) => diff.status !== 'same').length
+      const count = (status: PageStatus) => results.filter((diff) => diff.status === status).length
+      setStatus(
+        changed
+          ? `${changed} of ${results.length} pages differ: ${count('changed')} changed, ${count('added')} added, ${count('removed')} removed.`
+          : 'No visual differences found.'
+      )
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Comparison failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const exportReport = async () => {
+    if (!diffs.length) return
+    setBusy(true)
+    try {
+      const bytes = await buildDiffReport(files[0].name, files[1].name, diffs)
+      saveAs(toPdfBlob(bytes), 'compare-report.pdf')
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Report export failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const exportChangeLog = (format: 'html' | 'json') => {
+    if (!textResult) return
+    if (format === 'json') {
+      const json = buildTextChangeLogJson(files[0].name, files[1].name, textResult)
+      saveAs(new Blob([json], { type: 'application/json;charset=utf-8' }), 'compare-changes.json')
+      return
+    }
+    const html = buildTextChangeLogHtml(files[0].name, files[1].name, textResult)
+    saveAs(new Blob([html], { type: 'text/html;charset=utf-8' }), 'compare-changes.html')
+  }
+
+  const visible = changedOnly ? diffs.filter((diff) => diff.status !== 'same') : diffs
+  const textPages = textResult
+    ? Array.from(new Set(textResult.runs.map((run) => run.displayPage)))
+      .map((page) => ({ page, runs: textResult.runs.filter((run) => run.displayPage === page) }))
+      .filter((entry) => !changedOnly || entry.runs.some((run) => run.type !== 'equal'))
+    : []
+
+  return (
+    <ToolShell title="Compare PDF">
+      <p className="hint">
+        Select the original and the revised PDF (in that order). Visual mode matches pages by their content, so inserted
+        and removed pages are reported as such, then highlights changed pixels in red; text mode compares extracted
+        words and survives reflowed layouts.
+      </p>
+      <FilePicker accept=".pdf,application/pdf" multiple onFiles={(selected) => setFiles(selected.slice(0, 2))} />
+      {files.length === 2 ? (
+        <p className="hint">
+          Original: {files[0].name} · Revised: {files[1].name}
+        </p>
+      ) : null}
+      <div className="row">
+        <select title="Compare mode" value={mode} onChange={(e) => setMode(e.target.value as CompareMode)}>
+          <option value="visual">Visual (pixel diff)</option>
+          <option value="text">Text (word diff)</option>
+        </select>
+        <button onClick={run} disabled={files.length !== 2 || busy}>
+          Compare
+        </button>
+        {mode === 'visual' ? (
+          <button onClick={exportReport} disabled={!diffs.length || busy}>
+            Download diff report
+          </button>
+        ) : (
+          <>
+            <button onClick={() => exportChangeLog('html')} disabled={!textResult || busy}>
+              Download HTML change log
+            </button>
+            <button onClick={() => exportChangeLog('json')} disabled={!textResult || busy}>
+              Download JSON change log
+            </button>
+          </>
+        )}
+        <label className="inline-option">
+          <input type="checkbox" checked={changedOnly} onChange={(e) => setChangedOnly(e.target.checked)} />
+          Changed pages only
+        </label>
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+      {visible.map((diff) => (
+        <div key={`${diff.originalPage}-${diff.revisedPage}`} className="compare-page">
+          <div className="row">
+            <strong>{pageLabel(diff)}</strong>
+            <span className={statusClass(diff.status)}>{statusLabel(diff)}</span>
+            {diff.sizeMismatch ? <span className="badge warn">Page size differs</span> : null}
+          </div>
+          <div className="compare-grid">
+            <figure>
+              <figcaption className="hint">Original</figcaption>
+              {diff.left ? <img src={diff.left} alt={`Original page ${diff.originalPage}`} /> : <div className="compare-empty">Not present</div>}
+            </figure>
+            <figure>
+              <figcaption className="hint">Revised</figcaption>
+              {diff.right ? <img src={diff.right} alt={`Revised page ${diff.revisedPage}`} /> : <div className="compare-empty">Not present</div>}
+            </figure>
+            <figure>
+              <figcaption className="hint">Differences</figcaption>
+              <img src={diff.overlay} alt={`Differences on ${pageLabel(diff)}`} />
+            </figure>
+          </div>
+        </div>
+      ))}
+      {textResult ? (
+        <div className="status-table">
+          <div className="status-head">Page</div>
+          <div className="status-head">Words removed (original)</div>
+          <div className="status-head">Words added (revised)</div>
+          {textResult.counts
+            .filter((entry) => !changedOnly || entry.insertions || entry.deletions)
+            .map((entry) => (
+              <Fragment key={entry.page}>
+                <div>{entry.page}</div>
+                <div>{entry.deletions}</div>
+                <div>{entry.insertions}</div>
+              </Fragment>
+            ))}
+        </div>
+      ) : null}
+      {textPages.map((entry) => (
+        <div key={entry.page} className="compare-page">
+          <strong>Page {entry.page}</strong>
+          <p className="text-diff">
+            {entry.runs.map((run, index) => {
+              if (run.type === 'insert') return <ins key={index}>{run.text} </ins>
+              if (run.type === 'delete') return <del key={index}>{run.text} </del>
+              return <span key={index}>{run.text} </span>
+            })}
+          </p>
+        </div>
+      ))}
+    </ToolShell>
+  )
+}
@@ -0,0 +1,330 @@
+import { Fragment, useState } from 'react'
+import { saveAs } from 'file-saver'
+import JSZip from 'jszip'
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream
+} from 'pdf-lib'
+import { FilePicker, ToolShell, describeBackendJob, runBackendJob, toBytes, toPdfBlob } from './shared'
+import { canvasToBlob } from './pdfjs'
+import { removeUnreachableObjects, stripExtras } from '../../shared/pdfPruning.mjs'
+
+type PresetName = 'low' | 'medium' | 'high'
+type Engine = 'browser' | 'server'
+
+type CompressionReport = {
+  name: string
+  before: number
+  after: number
+  images: string
+  note: string
+}
+
+const PRESETS: { value: PresetName; label: string; dpi: number; quality: number }[] = [
+  { value: 'low', label: 'Low compression (200 DPI, high quality)', dpi: 200, quality: 0.85 },
+  { value: 'medium', label: 'Medium compression (150 DPI)', dpi: 150, quality: 0.72 },
+  { value: 'high', label: 'High compression (96 DPI, smallest files)', dpi: 96, quality: 0.55 }
+]
+
+// Re-encoding a JPEG that is already small can make it bigger; replacements
+// must save at least this share of the original stream.
+const MIN_IMAGE_SAVING = 0.1
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`
+}
+
+function filterNames(dict: PDFDict) {
+  const filter = dict.lookup(PDFName.of('Filter'))
+  if (filter instanceof PDFName) return [filter.decodeText()]
+  if (filter instanceof PDFArray) {
+    return filter.asArray().map((entry) => (entry instanceof PDFName ? entry.decodeText() : ''))
+  }
+  return []
+}
+
+function colorComponents(dict: PDFDict) {
+  const space = dict.lookup(PDFName.of('ColorSpace'))
+  if (space instanceof PDFName) {
+    const name = space.decodeText()
+    if (name === 'DeviceGray' || name === 'CalGray') return 1
+    if (name === 'DeviceRGB' || name === 'CalRGB') return 3
+    return null
+  }
+  if (space instanceof PDFArray && space.size() === 2) {
+    const family = space.lookup(0)
+    const profile = space.lookup(1)
+    if (family instanceof PDFName && family.decodeText() === 'ICCBased' && profile instanceof PDFStream) {
+      const count = profile.dict.lookup(PDFName.of('N'))
+      const components = count instanceof PDFNumber ? count.asNumber() : 0
+      return components === 1 || components === 3 ? components : null
+    }
+  }
+  return null
+}
+
+function numberEntry(dict: PDFDict, key: string) {
+  const value = dict.lookup(PDFName.of(key))
+  return value instanceof PDFNumber ? value.asNumber() : 0
+}
+
+// Largest page side (in inches) each image appears on. Without tracking the
+// placement matrix this is an upper bound on the drawn size, so images are
+// never downsampled below the target DPI.
+function collectImages(doc: PDFDocument) {
+  const images = new Map<PDFRef, number>()
+  const visitedForms = new Set<PDFRef>()
+
+  const visit = (resources: PDFDict | undefined, inches: number) => {
+    const xobjects = resources?.lookup(PDFName.of('XObject'))
+    if (!(xobjects instanceof PDFDict)) return
+    xobjects.entries().forEach(([, value]) => {
+      if (!(value instanceof PDFRef)) return
+      const target = doc.context.lookup(value)
+      if (!(target instanceof PDFStream)) return
+      const subtype = target.dict.lookup(PDFName.of('Subtype'))
+      if (!(subtype instanceof PDFName)) return
+      if (subtype.decodeText() === 'Image') {
+        images.set(value, Math.max(images.get(value) || 0, inches))
+      } else if (subtype.decodeText() === 'Form' && !visitedForms.has(value)) {
+        visitedForms.add(value)
+        const formResources = target.dict.lookup(PDFName.of('Resources'))
+        visit(formResources instanceof PDFDict ? formResources : undefined, inches)
+      }
+    })
+  }
+
+  doc.getPages().forEach((page) => {
+    const { width, height } = page.getSize()
+    visit(page.node.Resources(), Math.max(width, height) / 72)
+  })
+  return images
+}
+
+async function decodeImage(stream: PDFRawStream, width: number, height: number) {
+  const filters = filterNames(stream.dict)
+  if (filters.length === 1 && filters[0] === 'DCTDecode') {
+    return createImageBitmap(new Blob([new Uint8Array(stream.contents)], { type: 'image/jpeg' }))
+  }
+
+  const components = colorComponents(stream.dict)
+  const params = stream.dict.lookup(PDFName.of('DecodeParms'))
+  const predictor = params instanceof PDFDict ? numberEntry(params, 'Predictor') : 0
+  if (filters.some((filter) => filter !== 'FlateDecode') || !components || predictor > 1) return null
+
+  const pixels = decodePDFRawStream(stream).decode()
+  if (pixels.length < width * height * components) return null
+  const rgba = new Uint8ClampedArray(width * height * 4)
+  for (let index = 0; index < width * height; index += 1) {
+    const source = index * components
+    rgba[index * 4] = pixels[source]
+    rgba[index * 4 + 1] = pixels[components === 3 ? source + 1 : source]
+    rgba[index * 4 + 2] = pixels[components === 3 ? source + 2 : source]
+    rgba[index * 4 + 3] = 255
+  }
+  return createImageBitmap(new ImageData(rgba, width, height))
+}
+
+async function recompressImages(doc: PDFDocument, dpi: number, quality: number) {
+  const { context } = doc
+  let replaced = 0
+
+  for (const [ref, inches] of collectImages(doc)) {
+    const stream = context.lookup(ref)
+    if (!(stream instanceof PDFRawStream)) continue
+    const { dict } = stream
+    const width = numberEntry(dict, 'Width')
+    const height = numberEntry(dict, 'Height')
+    // Masks, colour-key masks and 16-bit samples do not survive lossy JPEG.
+    if (!width || !height || dict.has(PDFName.of('ImageMask')) || dict.has(PDFName.of('Mask'))) continue
+    if (dict.has(PDFName.of('Decode')) || (numberEntry(dict, 'BitsPerComponent') || 8) !== 8) continue
+    if (!colorComponents(dict)) continue
+
+    let bitmap: ImageBitmap | null = null
+    try {
+      bitmap = await decodeImage(stream, width, height)
+    } catch {
+      bitmap = null
+    }
+    if (!bitmap) continue
+
+    const maxPixels = Math.ceil(inches * dpi)
+    const scale = Math.min(1, maxPixels / Math.max(width, height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(width * scale))
+    canvas.height = Math.max(1, Math.round(height * scale))
+    const context2d = canvas.getContext('2d')
+    if (!context2d) {
+      bitmap.close()
+      continue
+    }
+    context2d.imageSmoothingQuality = 'high'
+    context2d.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    bitmap.close()
+
+    const blob = await canvasToBlob(canvas, 'image/jpeg', quality)
+    if (!blob) continue
+    const jpeg = new Uint8Array(await blob.arrayBuffer())
+    if (jpeg.length > stream.contents.length * (1 - MIN_IMAGE_SAVING)) continue
+
+    const next = dict.clone(context)
+    next.set(PDFName.of('Filter'), PDFName.of('DCTDecode'))
+    next.set(PDFName.of('Width'), PDFNumber.of(canvas.width))
+    next.set(PDFName.of('Height'), PDFNumber.of(canvas.height))
+    next.set(PDFName.of('ColorSpace'), PDFName.of('DeviceRGB'))
+    next.set(PDFName.of('BitsPerComponent'), PDFNumber.of(8))
+    next.delete(PDFName.of('DecodeParms'))
+    context.assign(ref, PDFRawStream.of(next, jpeg))
+    replaced += 1
+  }
+
+  return replaced
+}
+
+async function compressInBrowser(bytes: ArrayBuffer, preset: (typeof PRESETS)[number], stripMetadata: boolean) {
+  const doc = await PDFDocument.load(bytes, { updateMetadata: !stripMetadata })
+  const images = await recompressImages(doc, preset.dpi, preset.quality)
+  stripExtras(doc, stripMetadata)
+  removeUnreachableObjects(doc)
+  return { bytes: await doc.save({ useObjectStreams: true }), images }
+}
+
+export function CompressTool() {
+  const [files, setFiles] = useState<File[]>([])
+  const [preset, setPreset] = useState<PresetName>('medium')
+  const [engine, setEngine] = useState<Engine>('browser')
+  const [stripMetadata, setStripMetadata] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+  const [reports, setReports] = useState<CompressionReport[]>([])
+
+  const run = async () => {
+    if (!files.length) return
+    const settings = PRESETS.find((entry) => entry.value === preset) || PRESETS[1]
+    setBusy(true)
+    setReports([])
+    const results: { name: string; bytes: Uint8Array }[] = []
+    const nextReports: CompressionReport[] = []
+    try {
+      for (const [index, file] of files.entries()) {
+        setStatus(`Compressing ${file.name} (${index + 1} of ${files.length})...`)
+        const original = await toBytes(file)
+        let output: Uint8Array
+        let images = ''
+        if (engine === 'server') {
+          const form = new FormData()
+          form.append('file', file)
+          form.append('preset', preset)
+          form.append('stripMetadata', String(stripMetadata))
+          const response = await runBackendJob('/api/compress-pdf', form, (job) =>
+            setStatus(`Compressing ${file.name} (${index + 1} of ${files.length}): ${describeBackendJob(job)}`)
+          )
+          const header = response.headers.get('X-Compression-Report')
+          const report = header ? (JSON.parse(header) as { imagesDownsampled?: boolean }) : {}
+          images = report.imagesDownsampled ? 'All (Ghostscript)' : 'None (Ghostscript not installed)'
+          output = new Uint8Array(await response.arrayBuffer())
+        } else {
+          const result = await compressInBrowser(original, settings, stripMetadata)
+          output = result.bytes
+          images = String(result.images)
+        }
+
+        // Never hand back a file that grew; the original is already tighter.
+        const kept = output.length >= original.byteLength
+        const bytes = kept ? new Uint8Array(original) : output
+        results.push({ name: file.name, bytes })
+        nextReports.push({
+          name: file.name,
+          before: original.byteLength,
+          after: bytes.length,
+          images,
+          note: kept ? 'Already optimized; original kept' : ''
+        })
+        setReports([...nextReports])
+      }
+
+      if (results.length === 1) {
+        saveAs(toPdfBlob(results[0].bytes), 'compressed.pdf')
+      } else {
+        const zip = new JSZip()
+        const used = new Set<string>()
+        results.forEach(({ name, bytes }) => {
+          let entry = name.toLowerCase().endsWith('.pdf') ? name : `${name}.pdf`
+          while (used.has(entry)) entry = `copy-${entry}`
+          used.add(entry)
+          zip.file(entry, bytes)
+        })
+        saveAs(await zip.generateAsync({ type: 'blob' }), 'compressed-pdfs.zip')
+      }
+      const before = nextReports.reduce((sum, report) => sum + report.before, 0)
+      const after = nextReports.reduce((sum, report) => sum + report.after, 0)
+      setStatus(`Done: ${formatBytes(before)} → ${formatBytes(after)}.`)
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Compression failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <ToolShell title="Compress PDF">
+      <p className="hint">
+        Downsamples and re-encodes embedded images to the preset DPI and JPEG quality, drops embedded thumbnails and
+        unused objects, and optionally strips document metadata. Use the server engine (Ghostscript and qpdf) for very
+        large or heavily scanned files.
+      </p>
+      <FilePicker accept=".pdf,application/pdf" multiple onFiles={setFiles} />
+      <div className="row">
+        <select title="Compression preset" value={preset} onChange={(e) => setPreset(e.target.value as PresetName)}>
+          {PRESETS.map((entry) => (
+            <option key={entry.value} value={entry.value}>
+              {entry.label}
+            </option>
+          ))}
+        </select>
+        <select title="Compression engine" value={engine} onChange={(e) => setEngine(e.target.value as Engine)}>
+          <option value="browser">In the browser</option>
+          <option value="server">On the server</option>
+        </select>
+        <label className="inline-option">
+          <input type="checkbox" checked={stripMetadata} onChange={(e) => setStripMetadata(e.target.checked)} />
+          Strip metadata
+        </label>
+        <button onClick={run} disabled={!files.length || busy}>
+          Compress
+        </button>
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+      {reports.length ? (
+        <div className="status-table compress-table">
+          <div className="status-head">File</div>
+          <div className="status-head">Before</div>
+          <div className="status-head">After</div>
+          <div className="status-head">Saved</div>
+          <div className="status-head">Images re-encoded</div>
+          {reports.map((report) => (
+            <Fragment key={report.name}>
+              <div>
+                {report.name}
+                {report.note ? <span className="hint"> ({report.note})</span> : null}
+              </div>
+              <div>{formatBytes(report.before)}</div>
+              <div>{formatBytes(report.after)}</div>
+              <div>{report.before ? `${Math.round((1 - report.after / report.before) * 100)}%` : '-'}</div>
+              <div>{report.images}</div>
+            </Fragment>
+          ))}
+        </div>
+      ) : null}
+    </ToolShell>
+  )
+}
@@ -0,0 +1,285 @@
+import { useState } from 'react'
+import { saveAs } from 'file-saver'
+import { PDFDocument } from 'pdf-lib'
+import { FilePicker, ToolShell, toBytes, toPdfBlob } from './shared'
+import { BoxEditor, PageBox, createBoxId } from './boxEditor'
+import { PageRangeInput, parsePageRange } from './pageRanges'
+import { displayRectToUser, pageGeometry } from '../../shared/pageGeometry.mjs'
+import { renderPage } from './pdfjs'
+import { usePageImage, usePageSize, usePdfDocument } from './usePdfPage'
+
+type CropTarget = 'crop' | 'trim' | 'media'
+
+const TARGETS: { value: CropTarget; label: string }[] = [
+  { value: 'crop', label: 'CropBox (visible area)' },
+  { value: 'trim', label: 'TrimBox (finished print size)' },
+  { value: 'media', label: 'MediaBox (physical page)' }
+]
+
+const TRIM_SCALE = 1
+
+// A pixel counts as ink when its darkest channel falls below this value;
+// scanner noise and paper tint usually stay above it.
+const INK_LEVELS: { value: number; label: string }[] = [
+  { value: 250, label: 'Sensitive' },
+  { value: 220, label: 'Normal' },
+  { value: 160, label: 'Ignore light marks' }
+]
+
+// Bounding box of the non-white pixels on a rendered page, normalized to the
+// displayed page. Rows and columns need a few ink pixels before they count,
+// so isolated specks on scans do not stop the trim.
+function detectContentBox(canvas: HTMLCanvasElement, inkLevel: number, paddingPx: number) {
+  const { width, height } = canvas
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, width, height)
+  const rows = new Uint32Array(height)
+  const columns = new Uint32Array(width)
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const offset = (y * width + x) * 4
+      if (Math.min(data[offset], data[offset + 1], data[offset + 2]) < inkLevel) {
+        rows[y] += 1
+        columns[x] += 1
+      }
+    }
+  }
+  const minRow = Math.max(1, Math.round(width * 0.002))
+  const minColumn = Math.max(1, Math.round(height * 0.002))
+  const top = rows.findIndex((count) => count >= minRow)
+  if (top < 0) return null
+  let bottom = height - 1
+  while (rows[bottom] < minRow) bottom -= 1
+  const left = columns.findIndex((count) => count >= minColumn)
+  if (left < 0) return null
+  let right = width - 1
+  while (columns[right] < minColumn) right -= 1
+
+  const x0 = Math.max(0, left - paddingPx)
+  const y0 = Math.max(0, top - paddingPx)
+  const x1 = Math.min(width, right + 1 + paddingPx)
+  const y1 = Math.min(height, bottom + 1 + paddingPx)
+  return { x: x0 / width, y: y0 / height, width: (x1 - x0) / width, height: (y1 - y0) / height }
+}
+
+export function CropTool() {
+  const [file, setFile] = useState<File | null>(null)
+  const [page, setPage] = useState(1)
+  const [boxes, setBoxes] = useState<PageBox[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [pages, setPages] = useState('')
+  const [target, setTarget] = useState<CropTarget>('crop')
+  const [padding, setPadding] = useState(12)
+  const [inkLevel, setInkLevel] = useState(220)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+  const { doc, pageCount, error } = usePdfDocument(file)
+  const image = usePageImage(doc, page)
+  const size = usePageSize(doc, page)
+
+  const onFiles = (files: File[]) => {
+    setFile(files[0] || null)
+    setPage(1)
+    setBoxes([])
+    setSelectedId(null)
+    setStatus('')
+  }
+
+  const goToPage = (next: number) => {
+    setPage(Math.min(pageCount, Math.max(1, next)))
+    setSelectedId(null)
+  }
+
+  // Each page has at most one crop box; drawing a new one replaces the old.
+  const onChange = (next: PageBox[]) => {
+    const onPage = next.filter((box) => box.page === page)
+    const latest = onPage[onPage.length - 1]
+    setBoxes(next.filter((box) => box.page !== page || box === latest))
+  }
+
+  const withPageBoxes = (pageNumbers: number[], makeBox: (pageNumber: number) => Omit<PageBox, 'id' | 'page'> | null) => {
+    let next = boxes.filter((box) => !pageNumbers.includes(box.page))
+    let count = 0
+    pageNumbers.forEach((pageNumber) => {
+      const box = makeBox(pageNumber)
+      if (box) {
+        next = [...next, { ...box, id: createBoxId(), page: pageNumber }]
+        count += 1
+      } else {
+        next = [...next, ...boxes.filter((existing) => existing.page === pageNumber)]
+      }
+    })
+    setBoxes(next)
+    setSelectedId(null)
+    return count
+  }
+
+  const copyToPages = () => {
+    const source = boxes.find((box) => box.page === page)
+    if (!source) return
+    try {
+      const count = withPageBoxes(parsePageRange(pages, pageCount), () => ({
+        x: source.x,
+        y: source.y,
+        width: source.width,
+        height: source.height
+      }))
+      setStatus(`Copied the page ${page} box to ${count} page${count === 1 ? '' : 's'}.`)
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Copy failed')
+    }
+  }
+
+  const autoTrim = async () => {
+    if (!doc) return
+    setBusy(true)
+    try {
+      const pageNumbers = parsePageRange(pages, pageCount)
+      const detected = new Map<number, Omit<PageBox, 'id' | 'page'>>()
+      for (const pageNumber of pageNumbers) {
+        setStatus(`Detecting content on page ${pageNumber} (${detected.size + 1} of ${pageNumbers.length})...`)
+        const canvas = await renderPage(doc, pageNumber, TRIM_SCALE)
+        const box = detectContentBox(canvas, inkLevel, Math.round(padding * TRIM_SCALE))
+        if (box) detected.set(pageNumber, box)
+      }
+      const count = withPageBoxes(pageNumbers, (pageNumber) => detected.get(pageNumber) || null)
+      const blank = pageNumbers.length - count
+      setStatus(
+        `Content boxes detected on ${count} page${count === 1 ? '' : 's'}${blank ? `; ${blank} blank page${blank === 1 ? '' : 's'} left unchanged` : ''}. Review them, then crop.`
+      )
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Content detection failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const run = async () => {
+    if (!file) return
+    if (!boxes.length) {
+      setStatus('Draw a crop box, copy one to other pages, or detect content first.')
+      return
+    }
+    setBusy(true)
+    setStatus('Processing...')
+    try {
+      const pdf = await PDFDocument.load(await toBytes(file))
+      boxes.forEach((box) => {
+        const pdfPage = pdf.getPage(box.page - 1)
+        const { x, y, width, height } = displayRectToUser(pageGeometry(pdfPage), box)
+        if (target === 'trim') {
+          pdfPage.setTrimBox(x, y, width, height)
+          return
+        }
+        if (target === 'media') pdfPage.setMediaBox(x, y, width, height)
+        // CropBox defaults to the MediaBox, so it follows a MediaBox crop too.
+        pdfPage.setCropBox(x, y, width, height)
+      })
+      saveAs(toPdfBlob(await pdf.save()), 'cropped.pdf')
+      const cropped = new Set(boxes.map((box) => box.page)).size
+      setStatus(`Done: ${cropped} page${cropped === 1 ? '' : 's'} cropped.`)
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Crop failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const pageBox = boxes.find((box) => box.page === page)
+  const croppedPages = Array.from(new Set(boxes.map((box) => box.page))).sort((a, b) => a - b)
+
+  return (
+    <ToolShell title="Crop PDF">
+      <p className="hint">
+        Drag on the page to draw the area to keep; each page has its own box and pages without one are left as they
+        are. Copy a box to a page range, or detect the content on each page to trim white margins automatically. TrimBox
+        only records the finished size for print and does not change what viewers show.
+      </p>
+      <FilePicker accept=".pdf,application/pdf" onFiles={onFiles} />
+      {error ? <p className="hint">{error}</p> : null}
+      {doc ? (
+        <>
+          <div className="row">
+            <button onClick={() => goToPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </button>
+            <span className="hint">
+              Page {page} of {pageCount}
+            </span>
+            <button onClick={() => goToPage(page + 1)} disabled={page >= pageCount}>
+              Next
+            </button>
+            <button onClick={() => setBoxes(boxes.filter((box) => box.page !== page))} disabled={!pageBox}>
+              Clear page
+            </button>
+            <button onClick={() => setBoxes([])} disabled={!boxes.length}>
+              Clear all
+            </button>
+          </div>
+          <BoxEditor
+            image={image}
+            page={page}
+            boxes={boxes}
+            onChange={onChange}
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+            boxClassName="box-editor-box crop"
+            renderLabel={
+              size
+                ? (box) => `${Math.round(box.width * size.width)} × ${Math.round(box.height * size.height)} pt`
+                : undefined
+            }
+          />
+          <p className="hint">
+            {croppedPages.length
+              ? `Crop boxes on page${croppedPages.length === 1 ? '' : 's'} ${croppedPages.join(', ')}.`
+              : 'No crop boxes yet.'}
+          </p>
+        </>
+      ) : null}
+      <div className="config-panel">
+        <div className="row">
+          <PageRangeInput value={pages} onChange={setPages} />
+          <button onClick={copyToPages} disabled={!pageBox || busy}>
+            Copy this page's box to pages
+          </button>
+        </div>
+        <div className="row">
+          <label className="inline-option">
+            Padding
+            <input
+              type="number"
+              title="Space kept around detected content, in points"
+              min={0}
+              max={144}
+              value={padding}
+              onChange={(e) => setPadding(Math.max(0, Number(e.target.value) || 0))}
+            />
+          </label>
+          <select title="Ink threshold" value={inkLevel} onChange={(e) => setInkLevel(Number(e.target.value))}>
+            {INK_LEVELS.map((level) => (
+              <option key={level.value} value={level.value}>
+                {level.label}
+              </option>
+            ))}
+          </select>
+          <button onClick={autoTrim} disabled={!doc || busy}>
+            Detect content (auto-trim)
+          </button>
+        </div>
+      </div>
+      <div className="row">
+        <select title="Page box to set" value={target} onChange={(e) => setTarget(e.target.value as CropTarget)}>
+          {TARGETS.map((entry) => (
+            <option key={entry.value} value={entry.value}>
+              {entry.label}
+            </option>
+          ))}
+        </select>
+        <button onClick={run} disabled={!file || busy}>
+          Crop
+        </button>
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+    </ToolShell>
+  )
+}
@@ -0,0 +1,607 @@
+import { useEffect, useRef, useState } from 'react'
+import { saveAs } from 'file-saver'
+import { BlendMode, PDFDocument, PDFImage, degrees, rgb } from 'pdf-lib'
+import { FilePicker, ToolShell, readImages, toBytes, toPdfBlob } from './shared'
+import { BoxEditor, PageBox, createBoxId } from './boxEditor'
+import { displayRectToUser, displayToUser, pageGeometry } from '../../shared/pageGeometry.mjs'
+import { FONTS, FontName, createFontLoader, encodableText, fontFor, hexToRgb } from './pdfStyle'
+import { usePageImage, usePageSize, usePdfDocument } from './usePdfPage'
+
+type ElementKind = 'text' | 'image' | 'rectangle' | 'ellipse' | 'line' | 'highlight' | 'whiteout'
+type DrawKind = Exclude<ElementKind, 'image'>
+
+type EditorElement = PageBox & {
+  kind: ElementKind
+  color: string
+  fill: string
+  opacity: number
+  strokeWidth: number
+  text: string
+  font: FontName
+  fontSize: number
+  image: string
+  direction: 'down' | 'up'
+}
+
+const TOOLS: { value: DrawKind; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'rectangle', label: 'Rectangle' },
+  { value: 'ellipse', label: 'Ellipse' },
+  { value: 'line', label: 'Line' },
+  { value: 'highlight', label: 'Highlight' },
+  { value: 'whiteout', label: 'Whiteout' }
+]
+
+const LINE_HEIGHT = 1.2
+const TEXT_PADDING = 2
+const HISTORY_LIMIT = 100
+
+function defaultsFor(kind: ElementKind): Omit<EditorElement, keyof PageBox> {
+  const base = {
+    kind,
+    color: '#d32f2f',
+    fill: '',
+    opacity: 1,
+    strokeWidth: 2,
+    text: '',
+    font: 'helvetica' as FontName,
+    fontSize: 14,
+    image: '',
+    direction: 'down' as const
+  }
+  if (kind === 'text') return { ...base, color: '#111111', text: 'Text' }
+  if (kind === 'highlight') return { ...base, color: '#facc15', opacity: 0.4 }
+  if (kind === 'whiteout') return { ...base, color: '#ffffff' }
+  return base
+}
+
+// Greedy word wrap against the box width, keeping explicit line breaks.
+function wrapText(text: string, measure: (value: string) => number, maxWidth: number) {
+  return text.split('\n').flatMap((paragraph) => {
+    const lines: string[] = []
+    let current = ''
+    paragraph.split(' ').forEach((word) => {
+      const candidate = current ? `${current} ${word}` : word
+      if (current && measure(candidate) > maxWidth) {
+        lines.push(current)
+        current = word
+      } else {
+        current = candidate
+      }
+    })
+    lines.push(current)
+    return lines
+  })
+}
+
+function loadImageSize(src: string) {
+  return new Promise<{ width: number; height: number }>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight })
+    image.onerror = () => reject(new Error('Could not read image'))
+    image.src = src
+  })
+}
+
+// Text the chosen font cannot draw is written as '?' (see encodableText);
+// the characters affected are returned in `replaced`.
+async function applyElements(bytes: ArrayBuffer, elements: EditorElement[]) {
+  const doc = await PDFDocument.load(bytes)
+  const loadFont = createFontLoader(doc)
+  const images = new Map<string, PDFImage>()
+  const replaced = new Set<string>()
+
+  for (const element of elements) {
+    const page = doc.getPage(element.page - 1)
+    const geometry = pageGeometry(page)
+    const rect = displayRectToUser(geometry, element)
+    const color = hexToRgb(element.color)
+    const rotate = degrees(geometry.rotation)
+    const boxWidth = element.width * geometry.viewWidth
+    const boxHeight = element.height * geometry.viewHeight
+
+    if (element.kind === 'whiteout') {
+      page.drawRectangle({ ...rect, color: rgb(1, 1, 1) })
+    } else if (element.kind === 'highlight') {
+      page.drawRectangle({ ...rect, color, opacity: element.opacity, blendMode: BlendMode.Multiply })
+    } else if (element.kind === 'rectangle') {
+      page.drawRectangle({
+        ...rect,
+        color: element.fill ? hexToRgb(element.fill) : undefined,
+        opacity: element.opacity,
+        borderColor: element.strokeWidth ? color : undefined,
+        borderWidth: element.strokeWidth,
+        borderOpacity: element.opacity
+      })
+    } else if (element.kind === 'ellipse') {
+      page.drawEllipse({
+        x: rect.x + rect.width / 2,
+        y: rect.y + rect.height / 2,
+        xScale: rect.width / 2,
+        yScale: rect.height / 2,
+        color: element.fill ? hexToRgb(element.fill) : undefined,
+        opacity: element.opacity,
+        borderColor: element.strokeWidth ? color : undefined,
+        borderWidth: element.strokeWidth,
+        borderOpacity: element.opacity
+      })
+    } else if (element.kind === 'line') {
+      const fromY = element.direction === 'down' ? element.y : element.y + element.height
+      const toY = element.direction === 'down' ? element.y + element.height : element.y
+      const [startX, startY] = displayToUser(geometry, element.x, fromY)
+      const [endX, endY] = displayToUser(geometry, element.x + element.width, toY)
+      page.drawLine({
+        start: { x: startX, y: startY },
+        end: { x: endX, y: endY },
+        thickness: element.strokeWidth || 1,
+        color,
+        opacity: element.opacity
+      })
+    } else if (element.kind === 'image') {
+      let image = images.get(element.image)
+      if (!image) {
+        const data = await (await fetch(element.image)).arrayBuffer()
+        image = element.image.startsWith('data:image/png') ? await doc.embedPng(data) : await doc.embedJpg(data)
+        images.set(element.image, image)
+      }
+      // Anchor at the displayed bottom-left corner and rotate with the page so
+      // the image stays upright on rotated pages.
+      const [x, y] = displayToUser(geometry, element.x, element.y + element.height)
+      page.drawImage(image, { x, y, width: boxWidth, height: boxHeight, rotate, opacity: element.opacity })
+    } else if (element.kind === 'text' && element.text) {
+      const font = await loadFont(element.font)
+      const measure = (value: string) => font.widthOfTextAtSize(value, element.fontSize)
+      const text = element.text
+        .split('\n')
+        .map((paragraph) => {
+          const encoded = encodableText(font, paragraph)
+          encoded.replaced.forEach((char) => replaced.add(char))
+          return encoded.text
+        })
+        .join('\n')
+      const lines = wrapText(text, measure, boxWidth - TEXT_PADDING * 2)
+      lines.forEach((line, index) => {
+        if (!line) return
+        const baseline = TEXT_PADDING + element.fontSize * (index * LINE_HEIGHT + 0.9)
+        const [x, y] = displayToUser(
+          geometry,
+          element.x + TEXT_PADDING / geometry.viewWidth,
+          element.y + baseline / geometry.viewHeight
+        )
+        page.drawText(line, { x, y, size: element.fontSize, font, color, opacity: element.opacity, rotate })
+      })
+    }
+  }
+
+  return { bytes: await doc.save(), replaced: Array.from(replaced) }
+}
+
+function ElementPreview({ element, pageSize }: { element: EditorElement; pageSize: { width: number; height: number } }) {
+  const width = element.width * pageSize.width
+  const height = element.height * pageSize.height
+
+  if (element.kind === 'image') {
+    return <img className="edit-element-image" src={element.image} alt="" draggable={false} />
+  }
+
+  return (
+    <svg className="edit-element" viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+      {element.kind === 'whiteout' ? <rect width={width} height={height} fill="#ffffff" /> : null}
+      {element.kind === 'highlight' ? (
+        <rect width={width} height={height} fill={element.color} opacity={element.opacity} style={{ mixBlendMode: 'multiply' }} />
+      ) : null}
+      {element.kind === 'rectangle' ? (
+        <rect
+          width={width}
+          height={height}
+          fill={element.fill || 'none'}
+          stroke={element.strokeWidth ? element.color : 'none'}
+          strokeWidth={element.strokeWidth}
+          opacity={element.opacity}
+        />
+      ) : null}
+      {element.kind === 'ellipse' ? (
+        <ellipse
+          cx={width / 2}
+          cy={height / 2}
+          rx={width / 2}
+          ry={height / 2}
+          fill={element.fill || 'none'}
+          stroke={element.strokeWidth ? element.color : 'none'}
+          strokeWidth={element.strokeWidth}
+          opacity={element.opacity}
+        />
+      ) : null}
+      {element.kind === 'line' ? (
+        <line
+          x1={0}
+          y1={element.direction === 'down' ? 0 : height}
+          x2={width}
+          y2={element.direction === 'down' ? height : 0}
+          stroke={element.color}
+          strokeWidth={element.strokeWidth || 1}
+          opacity={element.opacity}
+        />
+      ) : null}
+      {element.kind === 'text' ? (
+        <foreignObject width={width} height={height}>
+          <div
+            className="edit-element-text"
+            style={{
+              padding: TEXT_PADDING,
+              color: element.color,
+              opacity: element.opacity,
+              fontFamily: fontFor(element.font).css,
+              fontWeight: fontFor(element.font).weight,
+              fontSize: element.fontSize,
+              lineHeight: LINE_HEIGHT
+            }}
+          >
+            {element.text}
+          </div>
+        </foreignObject>
+      ) : null}
+    </svg>
+  )
+}
+
+export function EditPdfTool() {
+  const [file, setFile] = useState<File | null>(null)
+  const [page, setPage] = useState(1)
+  const [tool, setTool] = useState<DrawKind>('text')
+  const [elements, setElements] = useState<EditorElement[]>([])
+  const [past, setPast] = useState<EditorElement[][]>([])
+  const [future, setFuture] = useState<EditorElement[][]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+  const dragRef = useRef<'idle' | 'armed' | 'active'>('idle')
+  const lastEditRef = useRef('')
+  const { doc, pageCount, error } = usePdfDocument(file)
+  const image = usePageImage(doc, page)
+  const pageSize = usePageSize(doc, page)
+
+  const remember = (snapshot: EditorElement[]) => {
+    setPast((entries) => [...entries.slice(-(HISTORY_LIMIT - 1)), snapshot])
+    setFuture([])
+  }
+
+  const commit = (next: EditorElement[]) => {
+    lastEditRef.current = ''
+    remember(elements)
+    setElements(next)
+  }
+
+  const undo = () => {
+    if (!past.length) return
+    lastEditRef.current = ''
+    setFuture([elements, ...future])
+    setElements(past[past.length - 1])
+    setPast(past.slice(0, -1))
+  }
+
+  const redo = () => {
+    if (!future.length) return
+    lastEditRef.current = ''
+    setPast([...past, elements])
+    setElements(future[0])
+    setFuture(future.slice(1))
+  }
+
+  useEffect(() => {
+    const onKey = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return
+      event.preventDefault()
+      if (event.shiftKey) redo()
+      else undo()
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  })
+
+  const onFiles = (files: File[]) => {
+    setFile(files[0] || null)
+    setPage(1)
+    setElements([])
+    setPast([])
+    setFuture([])
+    setSelectedId(null)
+    setStatus('')
+  }
+
+  const goToPage = (next: number) => {
+    setPage(Math.min(pageCount, Math.max(1, next)))
+    setSelectedId(null)
+  }
+
+  // A drag reports every pointer move; only the state before the drag goes on
+  // the undo stack.
+  const onBoxesChange = (boxes: PageBox[]) => {
+    const byId = new Map(elements.map((element) => [element.id, element]))
+    const next = boxes.map((box) => {
+      const existing = byId.get(box.id)
+      return existing ? { ...existing, ...box } : { ...defaultsFor(tool), ...box }
+    })
+    if (dragRef.current !== 'active') {
+      commit(next)
+      if (dragRef.current === 'armed') dragRef.current = 'active'
+      return
+    }
+    setElements(next)
+  }
+
+  const selected = elements.find((element) => element.id === selectedId) || null
+
+  // Consecutive edits of the same field (typing, dragging a slider) collapse
+  // into a single undo step.
+  const updateSelected = (field: keyof EditorElement, patch: Partial<EditorElement>) => {
+    if (!selected) return
+    const next = elements.map((element) => (element.id === selected.id ? { ...element, ...patch } : element))
+    const editKey = `${selected.id}:${field}`
+    if (lastEditRef.current !== editKey) {
+      remember(elements)
+      lastEditRef.current = editKey
+    }
+    setElements(next)
+  }
+
+  const addImage = async (files: File[]) => {
+    if (!files.length || !pageSize) return
+    try {
+      const [dataUrl] = await readImages(files.slice(0, 1))
+      const natural = await loadImageSize(dataUrl)
+      let width = 0.3
+      let height = (width * pageSize.width * natural.height) / natural.width / pageSize.height
+      if (height > 0.8) {
+        width *= 0.8 / height
+        height = 0.8
+      }
+      const element: EditorElement = {
+        ...defaultsFor('image'),
+        id: createBoxId(),
+        page,
+        x: (1 - width) / 2,
+        y: (1 - height) / 2,
+        width,
+        height,
+        image: dataUrl
+      }
+      commit([...elements, element])
+      setSelectedId(element.id)
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Could not add image')
+    }
+  }
+
+  const removeSelected = () => {
+    if (!selected) return
+    commit(elements.filter((element) => element.id !== selected.id))
+    setSelectedId(null)
+  }
+
+  const moveSelected = (offset: number) => {
+    if (!selected) return
+    const index = elements.findIndex((element) => element.id === selected.id)
+    const target = Math.min(elements.length - 1, Math.max(0, index + offset))
+    if (target === index) return
+    const next = [...elements]
+    next.splice(index, 1)
+    next.splice(target, 0, selected)
+    commit(next)
+  }
+
+  const run = async () => {
+    if (!file || !elements.length) return
+    setBusy(true)
+    setStatus('Saving...')
+    try {
+      const { bytes, replaced } = await applyElements(await toBytes(file), elements)
+      saveAs(toPdfBlob(bytes), 'edited.pdf')
+      setStatus(
+        replaced.length
+          ? `Done. Characters the standard PDF fonts cannot show were drawn as "?": ${replaced.join('')}.`
+          : 'Done'
+      )
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Saving failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const pageElements = elements.filter((element) => element.page === page)
+  const elementFor = (box: PageBox) => elements.find((element) => element.id === box.id)
+
+  return (
+    <ToolShell title="Edit PDF">
+      <p className="hint">
+        Pick a tool and drag on the page to add it. Drag an element to move it, use its corner handles to resize, and
+        press Delete to remove the selected element. Ctrl+Z undoes, Ctrl+Shift+Z redoes.
+      </p>
+      <FilePicker accept=".pdf,application/pdf" onFiles={onFiles} />
+      {error ? <p className="hint">{error}</p> : null}
+      {doc ? (
+        <>
+          <div className="row">
+            <button onClick={() => goToPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </button>
+            <span className="hint">
+              Page {page} of {pageCount}
+            </span>
+            <button onClick={() => goToPage(page + 1)} disabled={page >= pageCount}>
+              Next
+            </button>
+            <button onClick={undo} disabled={!past.length}>
+              Undo
+            </button>
+            <button onClick={redo} disabled={!future.length}>
+              Redo
+            </button>
+          </div>
+          <div className="row">
+            {TOOLS.map((entry) => (
+              <button
+                key={entry.value}
+                className={tool === entry.value ? 'tool-toggle active' : 'tool-toggle'}
+                onClick={() => setTool(entry.value)}
+              >
+                {entry.label}
+              </button>
+            ))}
+            <label className="inline-option">
+              Image
+              <FilePicker accept=".png,.jpg,.jpeg,image/png,image/jpeg" onFiles={addImage} />
+            </label>
+          </div>
+          <div
+            onPointerDownCapture={() => {
+              dragRef.current = 'armed'
+            }}
+            onPointerUp={() => {
+              dragRef.current = 'idle'
+            }}
+          >
+            <BoxEditor
+              image={image}
+              page={page}
+              boxes={elements}
+              onChange={onBoxesChange}
+              selectedId={selectedId}
+              onSelect={setSelectedId}
+              boxClassName={(box) => `box-editor-box edit-box ${elementFor(box)?.kind || tool}`}
+              renderContent={(box) => {
+                const element = elementFor(box)
+                return element && pageSize ? <ElementPreview element={element} pageSize={pageSize} /> : null
+              }}
+            />
+          </div>
+          <p className="hint">
+            {pageElements.length} element{pageElements.length === 1 ? '' : 's'} on this page, {elements.length} in total.
+          </p>
+        </>
+      ) : null}
+      {selected ? (
+        <div className="config-panel">
+          <p className="hint">
+            <strong>Selected {selected.kind}</strong>
+          </p>
+          {selected.kind === 'text' ? (
+            <>
+              <textarea
+                title="Text"
+                placeholder="Text"
+                value={selected.text}
+                onChange={(e) => updateSelected('text', { text: e.target.value })}
+              />
+              <div className="row">
+                <select
+                  title="Font"
+                  value={selected.font}
+                  onChange={(e) => updateSelected('font', { font: e.target.value as FontName })}
+                >
+                  {FONTS.map((font) => (
+                    <option key={font.value} value={font.value}>
+                      {font.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  title="Font size"
+                  min={4}
+                  max={200}
+                  value={selected.fontSize}
+                  onChange={(e) => updateSelected('fontSize', { fontSize: Math.max(1, Number(e.target.value) || 1) })}
+                />
+              </div>
+            </>
+          ) : null}
+          <div className="row">
+            {selected.kind !== 'image' && selected.kind !== 'whiteout' ? (
+              <label className="inline-option">
+                Colour
+                <input
+                  type="color"
+                  title="Colour"
+                  value={selected.color}
+                  onChange={(e) => updateSelected('color', { color: e.target.value })}
+                />
+              </label>
+            ) : null}
+            {selected.kind === 'rectangle' || selected.kind === 'ellipse' ? (
+              <>
+                <label className="inline-option">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(selected.fill)}
+                    onChange={(e) => updateSelected('fill', { fill: e.target.checked ? '#fde68a' : '' })}
+                  />
+                  Fill
+                </label>
+                {selected.fill ? (
+                  <input
+                    type="color"
+                    title="Fill colour"
+                    value={selected.fill}
+                    onChange={(e) => updateSelected('fill', { fill: e.target.value })}
+                  />
+                ) : null}
+              </>
+            ) : null}
+            {selected.kind === 'rectangle' || selected.kind === 'ellipse' || selected.kind === 'line' ? (
+              <label className="inline-option">
+                Stroke
+                <input
+                  type="number"
+                  title="Stroke width"
+                  min={0}
+                  max={50}
+                  value={selected.strokeWidth}
+                  onChange={(e) => updateSelected('strokeWidth', { strokeWidth: Math.max(0, Number(e.target.value) || 0) })}
+                />
+              </label>
+            ) : null}
+            {selected.kind === 'line' ? (
+              <select
+                title="Line direction"
+                value={selected.direction}
+                onChange={(e) => updateSelected('direction', { direction: e.target.value as 'down' | 'up' })}
+              >
+                <option value="down">Top-left to bottom-right</option>
+                <option value="up">Bottom-left to top-right</option>
+              </select>
+            ) : null}
+            {selected.kind !== 'whiteout' ? (
+              <label className="inline-option">
+                Opacity
+                <input
+                  type="range"
+                  title="Opacity"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={selected.opacity}
+                  onChange={(e) => updateSelected('opacity', { opacity: Number(e.target.value) })}
+                />
+              </label>
+            ) : null}
+          </div>
+          <div className="row">
+            <button onClick={() => moveSelected(1)}>Bring forward</button>
+            <button onClick={() => moveSelected(-1)}>Send backward</button>
+            <button onClick={removeSelected}>Delete</button>
+          </div>
+        </div>
+      ) : null}
+      <div className="row">
+        <button onClick={run} disabled={!file || busy || !elements.length}>
+          Save PDF
+        </button>
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+    </ToolShell>
+  )
+}
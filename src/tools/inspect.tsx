@@ -0,0 +1,244 @@
+import { Fragment, useState } from 'react'
+import { FilePicker, ToolShell, describeBackendJob, runBackendJob } from './shared'
+
+type PrintPermission = 'full' | 'low' | 'none'
+
+type Permissions = {
+  print: PrintPermission
+  copy: boolean
+  modify: boolean
+  annotate: boolean
+  forms: boolean
+  assembly: boolean
+  accessibility: boolean
+}
+
+type Severity = 'high' | 'medium' | 'low'
+
+type SecurityReport = {
+  version: string | null
+  pages: number
+  linearized: boolean
+  encryption: {
+    algorithm: string
+    revision: number
+    permissionBits: number
+    permissions: Permissions
+    metadataEncrypted: boolean
+    userPasswordRequired: boolean | null
+    passwordAccepted: boolean | null
+    ownerPasswordSupplied: boolean
+  } | null
+  content: {
+    javascript: number
+    launchActions: string[]
+    automaticActions: string[]
+    attachments: { name: string; size: number | null }[]
+    externalLinks: { type: string; target: string | null }[]
+    xfa: boolean
+  }
+  scannedDecrypted: boolean
+  qpdf: { available: boolean; check: { linearized: boolean | null; clean: boolean; problems: string[] } | null }
+  verdict: 'safe' | 'caution' | 'unsafe'
+  findings: { severity: Severity; message: string }[]
+}
+
+const VERDICTS: Record<SecurityReport['verdict'], { label: string; badge: string }> = {
+  safe: { label: 'Nothing active found', badge: 'badge ok' },
+  caution: { label: 'Open with care', badge: 'badge warn' },
+  unsafe: { label: 'Contains active content', badge: 'badge err' }
+}
+
+const SEVERITIES: Record<Severity, { label: string; badge: string }> = {
+  high: { label: 'High', badge: 'badge err' },
+  medium: { label: 'Medium', badge: 'badge warn' },
+  low: { label: 'Info', badge: 'badge ok' }
+}
+
+const PERMISSION_LABELS: [Exclude<keyof Permissions, 'print'>, string][] = [
+  ['copy', 'Copying'],
+  ['modify', 'Modifying'],
+  ['annotate', 'Commenting'],
+  ['forms', 'Filling in forms'],
+  ['assembly', 'Page assembly'],
+  ['accessibility', 'Accessibility extraction']
+]
+
+const PRINT_LABELS: Record<PrintPermission, string> = {
+  full: 'Allowed',
+  low: 'Low resolution only',
+  none: 'Not allowed'
+}
+
+function yesNo(value: boolean | null) {
+  if (value === null) return 'Unknown (qpdf not available)'
+  return value ? 'Yes' : 'No'
+}
+
+function formatSize(size: number | null) {
+  if (size === null) return ''
+  return size < 1024 ? ` (${size} B)` : ` (${(size / 1024).toFixed(1)} KB)`
+}
+
+export function ReportRows({ rows }: { rows: [string, string][] }) {
+  return (
+    <div className="status-table inspect-table">
+      {rows.map(([label, value]) => (
+        <Fragment key={label}>
+          <div>{label}</div>
+          <div>{value}</div>
+        </Fragment>
+      ))}
+    </div>
+  )
+}
+
+export function InspectTool() {
+  const [file, setFile] = useState<File | null>(null)
+  const [password, setPassword] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+  const [report, setReport] = useState<SecurityReport | null>(null)
+
+  const run = async () => {
+    if (!file) return
+    setBusy(true)
+    setStatus('Processing...')
+    setReport(null)
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      if (password) form.append('password', password)
+      const response = await runBackendJob('/api/inspect-pdf', form, (job) => setStatus(describeBackendJob(job)))
+      setReport((await response.json()) as SecurityReport)
+      setStatus('')
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Inspection failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const encryption = report?.encryption
+  const content = report?.content
+
+  return (
+    <ToolShell title="PDF Security Check">
+      <p className="hint">
+        Reports what a PDF carries before you open, unlock or protect it: encryption and permissions, structure, and
+        scripts, launch actions, attachments and links. Nothing is changed. With qpdf on the server the check also tells
+        whether a password is needed to open the file and scans encrypted files after decrypting them.
+      </p>
+      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
+      <div className="row">
+        <input
+          type="password"
+          title="Password"
+          placeholder="Password (optional, for encrypted files)"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <button onClick={run} disabled={!file || busy}>
+          Inspect
+        </button>
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+
+      {report && content ? (
+        <div className="inspect-report">
+          <div className="row">
+            <span className={VERDICTS[report.verdict].badge}>{VERDICTS[report.verdict].label}</span>
+          </div>
+          {report.findings.length ? (
+            <ul className="pdfa-issues">
+              {report.findings.map((finding, index) => (
+                <li key={index}>
+                  <span className={SEVERITIES[finding.severity].badge}>{SEVERITIES[finding.severity].label}</span>{' '}
+                  {finding.message}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+
+          <h3>Document</h3>
+          <ReportRows
+            rows={[
+              ['PDF version', report.version || 'Unknown'],
+              ['Pages', String(report.pages)],
+              ['Linearized (fast web view)', report.linearized ? 'Yes' : 'No'],
+              [
+                'qpdf structure check',
+                report.qpdf.check
+                  ? report.qpdf.check.clean
+                    ? 'No problems found'
+                    : report.qpdf.check.problems.join(' ') || 'Problems reported'
+                  : report.qpdf.available
+                    ? 'Skipped (password needed)'
+                    : 'qpdf not available'
+              ]
+            ]}
+          />
+
+          <h3>Encryption</h3>
+          {encryption ? (
+            <ReportRows
+              rows={[
+                ['Algorithm', `${encryption.algorithm} (revision ${encryption.revision})`],
+                ['Password needed to open', yesNo(encryption.userPasswordRequired)],
+                ...(encryption.passwordAccepted === null
+                  ? []
+                  : ([
+                      [
+                        'Supplied password',
+                        encryption.passwordAccepted
+                          ? encryption.ownerPasswordSupplied
+                            ? 'Accepted (owner password)'
+                            : 'Accepted (user password)'
+                          : 'Rejected'
+                      ]
+                    ] as [string, string][])),
+                ['Metadata encrypted', encryption.metadataEncrypted ? 'Yes' : 'No'],
+                ['Permission bits (P)', String(encryption.permissionBits)],
+                ['Printing', PRINT_LABELS[encryption.permissions.print]],
+                ...PERMISSION_LABELS.map(
+                  ([key, label]) => [label, encryption.permissions[key] ? 'Allowed' : 'Not allowed'] as [string, string]
+                )
+              ]}
+            />
+          ) : (
+            <p className="hint">The file is not encrypted.</p>
+          )}
+
+          <h3>Active and external content</h3>
+          {report.scannedDecrypted ? null : (
+            <p className="hint">The file could not be decrypted, so names and targets below are hidden.</p>
+          )}
+          <ReportRows
+            rows={[
+              ['JavaScript actions', String(content.javascript)],
+              ['Launch actions', content.launchActions.length ? content.launchActions.join(', ') : 'None'],
+              ['Automatic actions', content.automaticActions.length ? content.automaticActions.join(', ') : 'None'],
+              ['XFA form', content.xfa ? 'Yes' : 'No'],
+              [
+                'Attachments',
+                content.attachments.length
+                  ? content.attachments.map((attachment) => `${attachment.name}${formatSize(attachment.size)}`).join(', ')
+                  : 'None'
+              ],
+              ['External links', content.externalLinks.length ? String(content.externalLinks.length) : 'None']
+            ]}
+          />
+          {content.externalLinks.length ? (
+            <ul className="inspect-links">
+              {content.externalLinks.map((link, index) => (
+                <li key={index}>
+                  <strong>{link.type}</strong> {link.target || '(no readable target)'}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+    </ToolShell>
+  )
+}
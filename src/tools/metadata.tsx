@@ -0,0 +1,315 @@
+import { useState } from 'react'
+import { saveAs } from 'file-saver'
+import {
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+  PDFStream,
+  PDFString,
+  decodePDFRawStream
+} from 'pdf-lib'
+import { FilePicker, ToolShell, toBytes, toPdfBlob } from './shared'
+import { removeUnreachableObjects } from '../../shared/pdfPruning.mjs'
+
+const TEXT_FIELDS = ['Title', 'Author', 'Subject', 'Keywords', 'Creator', 'Producer'] as const
+const DATE_FIELDS = ['CreationDate', 'ModDate'] as const
+
+type TextField = (typeof TEXT_FIELDS)[number]
+type DateField = (typeof DATE_FIELDS)[number]
+
+type CustomProperty = { id: number; key: string; value: string }
+
+type Metadata = {
+  text: Record<TextField, string>
+  dates: Record<DateField, string>
+  custom: CustomProperty[]
+  xmp: string
+}
+
+const DATE_LABELS: Record<DateField, string> = { CreationDate: 'Created', ModDate: 'Modified' }
+
+// Info keys whose values are names rather than text strings.
+const NAME_KEYS = ['Trapped']
+
+const STANDARD_KEYS: string[] = [...TEXT_FIELDS, ...DATE_FIELDS]
+
+let nextPropertyId = 1
+
+function emptyMetadata(): Metadata {
+  return {
+    text: { Title: '', Author: '', Subject: '', Keywords: '', Creator: '', Producer: '' },
+    dates: { CreationDate: '', ModDate: '' },
+    custom: [],
+    xmp: ''
+  }
+}
+
+// <input type="datetime-local"> works in local time without a zone.
+function toLocalInput(date: Date) {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+  return local.toISOString().slice(0, 19)
+}
+
+function getInfoDict(doc: PDFDocument) {
+  const { Info } = doc.context.trailerInfo
+  return Info ? doc.context.lookupMaybe(Info, PDFDict) : undefined
+}
+
+function readXmp(doc: PDFDocument) {
+  const stream = doc.catalog.lookupMaybe(PDFName.of('Metadata'), PDFStream)
+  if (!stream) return ''
+  const bytes = stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents()
+  return new TextDecoder('utf-8').decode(bytes)
+}
+
+function readMetadata(doc: PDFDocument): Metadata {
+  const metadata = emptyMetadata()
+  getInfoDict(doc)
+    ?.entries()
+    .forEach(([name, raw]) => {
+      const key = name.decodeText()
+      const value = doc.context.lookup(raw)
+      const isString = value instanceof PDFString || value instanceof PDFHexString
+      if ((DATE_FIELDS as readonly string[]).includes(key) && isString) {
+        try {
+          metadata.dates[key as DateField] = toLocalInput(value.decodeDate())
+        } catch {
+          metadata.dates[key as DateField] = ''
+        }
+      } else if ((TEXT_FIELDS as readonly string[]).includes(key) && isString) {
+        metadata.text[key as TextField] = value.decodeText()
+      } else if (isString || value instanceof PDFName) {
+        metadata.custom.push({ id: nextPropertyId++, key, value: value.decodeText() })
+      }
+    })
+  metadata.xmp = readXmp(doc)
+  return metadata
+}
+
+function escapeXml(value: string) {
+  return value.replace(/[<>&"]/g, (char) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[char] || char)
+}
+
+// A minimal XMP packet mirroring the Info fields, for viewers that prefer
+// XMP over the Info dictionary.
+function buildXmp(metadata: Metadata) {
+  const { Title, Author, Subject, Keywords, Creator, Producer } = metadata.text
+  const isoDate = (value: string) => (value ? new Date(value).toISOString() : '')
+  const lines = [
+    Title && `<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(Title)}</rdf:li></rdf:Alt></dc:title>`,
+    Author && `<dc:creator><rdf:Seq><rdf:li>${escapeXml(Author)}</rdf:li></rdf:Seq></dc:creator>`,
+    Subject && `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(Subject)}</rdf:li></rdf:Alt></dc:description>`,
+    Keywords && `<pdf:Keywords>${escapeXml(Keywords)}</pdf:Keywords>`,
+    Producer && `<pdf:Producer>${escapeXml(Producer)}</pdf:Producer>`,
+    Creator && `<xmp:CreatorTool>${escapeXml(Creator)}</xmp:CreatorTool>`,
+    metadata.dates.CreationDate && `<xmp:CreateDate>${isoDate(metadata.dates.CreationDate)}</xmp:CreateDate>`,
+    metadata.dates.ModDate && `<xmp:ModifyDate>${isoDate(metadata.dates.ModDate)}</xmp:ModifyDate>`
+  ].filter(Boolean)
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:pdf="http://ns.adobe.com/pdf/1.3/" xmlns:xmp="http://ns.adobe.com/xap/1.0/">',
+    ...lines.map((line) => `  ${line}`),
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>'
+  ].join('\n')
+}
+
+function writeMetadata(doc: PDFDocument, metadata: Metadata, touchModified: boolean) {
+  const { context } = doc
+  const info = context.obj({})
+  TEXT_FIELDS.forEach((field) => {
+    const value = metadata.text[field].trim()
+    if (value) info.set(PDFName.of(field), PDFHexString.fromText(value))
+  })
+  DATE_FIELDS.forEach((field) => {
+    const value = field === 'ModDate' && touchModified ? new Date() : metadata.dates[field] ? new Date(metadata.dates[field]) : null
+    if (value && !Number.isNaN(value.getTime())) info.set(PDFName.of(field), PDFString.fromDate(value))
+  })
+  metadata.custom.forEach(({ key, value }) => {
+    const name = key.trim()
+    if (!name || !value) return
+    if (STANDARD_KEYS.includes(name)) throw new Error(`"${name}" is a standard field; edit it above instead.`)
+    if (!/^[A-Za-z0-9_.:-]+$/.test(name)) throw new Error(`"${name}" is not a valid property name (letters, digits, _ . : - only).`)
+    info.set(PDFName.of(name), NAME_KEYS.includes(name) ? PDFName.of(value) : PDFHexString.fromText(value))
+  })
+  context.trailerInfo.Info = info.keys().length ? context.register(info) : undefined
+
+  const xmp = metadata.xmp.trim()
+  if (xmp) {
+    const stream = context.stream(new TextEncoder().encode(xmp), { Type: 'Metadata', Subtype: 'XML' })
+    doc.catalog.set(PDFName.of('Metadata'), context.register(stream))
+  } else {
+    doc.catalog.delete(PDFName.of('Metadata'))
+  }
+  // Otherwise the replaced Info dictionary and XMP stream are still written.
+  removeUnreachableObjects(doc)
+}
+
+// Removes the Info dictionary, every XMP stream (document, page, image and
+// font level) and application private data, then anything left unreferenced.
+function scrubMetadata(doc: PDFDocument) {
+  const { context } = doc
+  let removed = context.trailerInfo.Info ? 1 : 0
+  context.trailerInfo.Info = undefined
+  context.enumerateIndirectObjects().forEach(([, object]) => {
+    const dict = object instanceof PDFStream ? object.dict : object instanceof PDFDict ? object : null
+    if (!dict) return
+    ;['Metadata', 'PieceInfo'].forEach((key) => {
+      if (dict.has(PDFName.of(key))) {
+        dict.delete(PDFName.of(key))
+        removed += 1
+      }
+    })
+  })
+  removeUnreachableObjects(doc)
+  return removed
+}
+
+export function MetadataTool() {
+  const [file, setFile] = useState<File | null>(null)
+  const [metadata, setMetadata] = useState<Metadata>(emptyMetadata())
+  const [touchModified, setTouchModified] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+
+  // Documents are loaded without pdf-lib's automatic Producer/ModDate update
+  // so what is shown and saved is exactly what the file contains.
+  const load = async (source: File) => PDFDocument.load(await toBytes(source), { updateMetadata: false })
+
+  const onFiles = async (files: File[]) => {
+    const next = files[0] || null
+    setFile(next)
+    setMetadata(emptyMetadata())
+    setStatus('')
+    if (!next) return
+    try {
+      setMetadata(readMetadata(await load(next)))
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Could not read metadata')
+    }
+  }
+
+  const setText = (field: TextField, value: string) => setMetadata({ ...metadata, text: { ...metadata.text, [field]: value } })
+  const setDate = (field: DateField, value: string) => setMetadata({ ...metadata, dates: { ...metadata.dates, [field]: value } })
+  const setCustom = (id: number, patch: Partial<CustomProperty>) =>
+    setMetadata({ ...metadata, custom: metadata.custom.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)) })
+
+  const save = async (scrub: boolean) => {
+    if (!file) return
+    setBusy(true)
+    setStatus('Processing...')
+    try {
+      const doc = await load(file)
+      if (scrub) {
+        const removed = scrubMetadata(doc)
+        saveAs(toPdfBlob(await doc.save()), 'metadata-scrubbed.pdf')
+        setStatus(`Done: removed ${removed} metadata entr${removed === 1 ? 'y' : 'ies'}.`)
+        return
+      }
+      writeMetadata(doc, metadata, touchModified)
+      saveAs(toPdfBlob(await doc.save()), 'metadata-updated.pdf')
+      setStatus('Done')
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Saving metadata failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <ToolShell title="Edit PDF Metadata">
+      <p className="hint">
+        Empty fields are removed from the document. Scrubbing removes the Info dictionary, all XMP packets and private
+        application data without changing the pages.
+      </p>
+      <FilePicker accept=".pdf,application/pdf" onFiles={onFiles} />
+      {file ? (
+        <>
+          <div className="config-panel metadata-grid">
+            {TEXT_FIELDS.map((field) => (
+              <label key={field}>
+                <span>{field}</span>
+                <input value={metadata.text[field]} onChange={(e) => setText(field, e.target.value)} />
+              </label>
+            ))}
+            {DATE_FIELDS.map((field) => (
+              <label key={field}>
+                <span>{DATE_LABELS[field]}</span>
+                <input
+                  type="datetime-local"
+                  step={1}
+                  value={metadata.dates[field]}
+                  disabled={field === 'ModDate' && touchModified}
+                  onChange={(e) => setDate(field, e.target.value)}
+                />
+              </label>
+            ))}
+            <label className="inline-option">
+              <input type="checkbox" checked={touchModified} onChange={(e) => setTouchModified(e.target.checked)} />
+              Set modification date to now when saving
+            </label>
+          </div>
+          <div className="config-panel">
+            <p className="hint">
+              <strong>Custom properties</strong>
+            </p>
+            {metadata.custom.map((entry) => (
+              <div key={entry.id} className="row">
+                <input placeholder="Name" value={entry.key} onChange={(e) => setCustom(entry.id, { key: e.target.value })} />
+                <input placeholder="Value" value={entry.value} onChange={(e) => setCustom(entry.id, { value: e.target.value })} />
+                <button
+                  onClick={() => setMetadata({ ...metadata, custom: metadata.custom.filter((item) => item.id !== entry.id) })}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div className="row">
+              <button
+                onClick={() =>
+                  setMetadata({ ...metadata, custom: [...metadata.custom, { id: nextPropertyId++, key: '', value: '' }] })
+                }
+              >
+                Add property
+              </button>
+            </div>
+          </div>
+          <div className="config-panel">
+            <p className="hint">
+              <strong>XMP packet</strong> ({metadata.xmp ? `${metadata.xmp.length} characters` : 'none'})
+            </p>
+            <textarea
+              className="metadata-xmp"
+              title="XMP metadata"
+              rows={10}
+              spellCheck={false}
+              value={metadata.xmp}
+              onChange={(e) => setMetadata({ ...metadata, xmp: e.target.value })}
+            />
+            <div className="row">
+              <button onClick={() => setMetadata({ ...metadata, xmp: buildXmp(metadata) })}>Rebuild from fields</button>
+              <button onClick={() => setMetadata({ ...metadata, xmp: '' })} disabled={!metadata.xmp}>
+                Clear XMP
+              </button>
+            </div>
+          </div>
+        </>
+      ) : null}
+      <div className="row">
+        <button onClick={() => save(false)} disabled={!file || busy}>
+          Save Metadata
+        </button>
+        <button onClick={() => save(true)} disabled={!file || busy}>
+          Scrub all metadata
+        </button>
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+    </ToolShell>
+  )
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react'
+
+export type OcrBox = { x0: number; y0: number; x1: number; y1: number }
+
+export type OcrWord = { text: string; bbox: OcrBox; confidence: number; corrected?: boolean }
+
+export type OcrLine = { bbox: OcrBox; confidence: number; baseline: OcrBox | null; words: OcrWord[] }
+
+export type OcrPage = {
+  page: number
+  width: number
+  height: number
+  dpi: number | null
+  confidence: number
+  blocks: { bbox: OcrBox; confidence: number; paragraphs: { bbox: OcrBox; confidence: number; lines: OcrLine[] }[] }[]
+}
+
+type WordPath = [page: number, block: number, paragraph: number, line: number, word: number]
+
+function setWordText(pages: OcrPage[], [pageIndex, blockIndex, paragraphIndex, lineIndex, wordIndex]: WordPath, text: string) {
+  return pages.map((page, p) =>
+    p !== pageIndex
+      ? page
+      : {
+          ...page,
+          blocks: page.blocks.map((block, b) =>
+            b !== blockIndex
+              ? block
+              : {
+                  ...block,
+                  paragraphs: block.paragraphs.map((paragraph, g) =>
+                    g !== paragraphIndex
+                      ? paragraph
+                      : {
+                          ...paragraph,
+                          lines: paragraph.lines.map((line, l) =>
+                            l !== lineIndex
+                              ? line
+                              : {
+                                  ...line,
+                                  words: line.words.map((word, w) => (w !== wordIndex ? word : { ...word, text, corrected: true }))
+                                }
+                          )
+                        }
+                  )
+                }
+          )
+        }
+  )
+}
+
+// Plain text in the same layout the server uses: words per line, a blank
+// line between paragraphs and a heading per page when there are several.
+export function ocrStructureText(pages: OcrPage[]) {
+  const pageText = (page: OcrPage) =>
+    page.blocks
+      .flatMap((block) => block.paragraphs)
+      .map((paragraph) => paragraph.lines.map((line) => line.words.map((word) => word.text).join(' ')).join('\n'))
+      .join('\n\n')
+  if (pages.length === 1) return pageText(pages[0])
+  return pages.map((page) => `--- Page ${page.page} ---\n${pageText(page)}`).join('\n\n')
+}
+
+// Shows the recognized words line by line. Words under the confidence
+// threshold are highlighted as inputs so they can be corrected in place;
+// corrected words stay editable and are marked as such.
+export function OcrReview({ pages, onChange }: { pages: OcrPage[]; onChange: (pages: OcrPage[]) => void }) {
+  const [threshold, setThreshold] = useState(70)
+  const words = pages.flatMap((page) =>
+    page.blocks.flatMap((block) => block.paragraphs.flatMap((paragraph) => paragraph.lines.flatMap((line) => line.words)))
+  )
+  const low = words.filter((word) => word.confidence < threshold)
+  const corrected = words.filter((word) => word.corrected).length
+
+  return (
+    <div className="config-panel">
+      <div className="row">
+        <label className="inline-option">
+          Highlight words below
+          <input
+            type="number"
+            title="Confidence threshold in percent"
+            min={0}
+            max={100}
+            value={threshold}
+            onChange={(e) => setThreshold(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+          />
+          % confidence
+        </label>
+        <span className="hint">
+          {low.length} of {words.length} word{words.length === 1 ? '' : 's'} highlighted
+          {corrected ? `, ${corrected} corrected` : ''}
+        </span>
+      </div>
+      <div className="ocr-review">
+        {pages.map((page, pageIndex) => (
+          <section key={page.page}>
+            {pages.length > 1 ? <h4>Page {page.page}</h4> : null}
+            {page.blocks.map((block, blockIndex) =>
+              block.paragraphs.map((paragraph, paragraphIndex) => (
+                <p key={`${blockIndex}-${paragraphIndex}`}>
+                  {paragraph.lines.map((line, lineIndex) => (
+                    <span key={lineIndex} className="ocr-line">
+                      {line.words.map((word, wordIndex) => {
+                        const key = `${wordIndex}`
+                        const title = `Confidence ${Math.round(word.confidence)}%`
+                        if (word.confidence >= threshold && !word.corrected) {
+                          return (
+                            <span key={key} className="ocr-word" title={title}>
+                              {word.text}
+                            </span>
+                          )
+                        }
+                        return (
+                          <input
+                            key={key}
+                            className={`ocr-word ${word.corrected ? 'corrected' : 'low'}`}
+                            title={title}
+                            size={Math.max(2, word.text.length)}
+                            value={word.text}
+                            onChange={(e) =>
+                              onChange(setWordText(pages, [pageIndex, blockIndex, paragraphIndex, lineIndex, wordIndex], e.target.value))
+                            }
+                          />
+                        )
+                      })}
+                    </span>
+                  ))}
+                </p>
+              ))
+            )}
+          </section>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,307 @@
+import { DragEvent, MouseEvent, useEffect, useState } from 'react'
+import { saveAs } from 'file-saver'
+import { PDFDocument, PDFPage, degrees } from 'pdf-lib'
+import { FilePicker, ToolShell, toBytes, toPdfBlob } from './shared'
+import { PageRangeInput, parsePageRange } from './pageRanges'
+import { usePageThumbnails, usePdfDocument } from './usePdfPage'
+
+type OrganizerMode = 'organize' | 'extract' | 'remove'
+
+type OrganizerPage = {
+  id: string
+  // Zero-based index into the source document, or null for an inserted blank page.
+  source: number | null
+  rotation: number
+}
+
+const A4: [number, number] = [595.28, 841.89]
+
+let nextPageId = 1
+
+function createPageId() {
+  nextPageId += 1
+  return `page-${nextPageId}`
+}
+
+function initialPages(count: number): OrganizerPage[] {
+  return Array.from({ length: count }, (_, index) => ({ id: createPageId(), source: index, rotation: 0 }))
+}
+
+function displaySize(page: PDFPage): [number, number] {
+  const { width, height } = page.getSize()
+  const angle = ((page.getRotation().angle % 360) + 360) % 360
+  return angle === 90 || angle === 270 ? [height, width] : [width, height]
+}
+
+async function buildOrganizedPdf(bytes: ArrayBuffer, pages: OrganizerPage[]) {
+  const src = await PDFDocument.load(bytes)
+  const out = await PDFDocument.create()
+  const sourced = pages.filter((entry) => entry.source !== null)
+  const copied = await out.copyPages(src, sourced.map((entry) => entry.source as number))
+  const copies = new Map(sourced.map((entry, index) => [entry.id, copied[index]]))
+
+  let previous: PDFPage | null = null
+  pages.forEach((entry) => {
+    const copy = copies.get(entry.id)
+    const page = copy ? out.addPage(copy) : out.addPage(previous ? displaySize(previous) : A4)
+    if (entry.rotation) {
+      page.setRotation(degrees((((page.getRotation().angle + entry.rotation) % 360) + 360) % 360))
+    }
+    previous = page
+  })
+
+  return out.save()
+}
+
+function PageOrganizer({ mode }: { mode: OrganizerMode }) {
+  const [file, setFile] = useState<File | null>(null)
+  const [pages, setPages] = useState<OrganizerPage[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const [anchor, setAnchor] = useState<string | null>(null)
+  const [dragging, setDragging] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [expression, setExpression] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+  const { doc, pageCount, error } = usePdfDocument(file)
+  const thumbnails = usePageThumbnails(doc)
+
+  useEffect(() => {
+    setPages(initialPages(pageCount))
+    setSelected([])
+    setAnchor(null)
+  }, [pageCount, doc])
+
+  const onFiles = (files: File[]) => {
+    setFile(files[0] || null)
+    setStatus('')
+  }
+
+  const onCardClick = (event: MouseEvent, id: string) => {
+    if (event.shiftKey && anchor) {
+      const from = pages.findIndex((page) => page.id === anchor)
+      const to = pages.findIndex((page) => page.id === id)
+      const range = pages.slice(Math.min(from, to), Math.max(from, to) + 1).map((page) => page.id)
+      setSelected(Array.from(new Set([...selected, ...range])))
+      return
+    }
+    setSelected(selected.includes(id) ? selected.filter((entry) => entry !== id) : [...selected, id])
+    setAnchor(id)
+  }
+
+  // Positions refer to the grid as currently arranged, not the source document.
+  const selectByRange = () => {
+    try {
+      setSelected(parsePageRange(expression, pages.length).map((position) => pages[position - 1].id))
+      setStatus('')
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Invalid page range')
+    }
+  }
+
+  const onDragStart = (event: DragEvent, id: string) => {
+    event.dataTransfer.effectAllowed = 'move'
+    event.dataTransfer.setData('text/plain', id)
+    setDragging(id)
+  }
+
+  // Dropping a selected page moves the whole selection, keeping its order.
+  const onDrop = (event: DragEvent, targetId: string) => {
+    event.preventDefault()
+    setDropTarget(null)
+    setDragging(null)
+    if (!dragging || dragging === targetId) return
+    const moving = selected.includes(dragging) ? selected : [dragging]
+    if (moving.includes(targetId)) return
+    const moved = pages.filter((page) => moving.includes(page.id))
+    const rest = pages.filter((page) => !moving.includes(page.id))
+    const targetIndex = rest.findIndex((page) => page.id === targetId)
+    const draggedIndex = pages.findIndex((page) => page.id === dragging)
+    const droppedIndex = pages.findIndex((page) => page.id === targetId)
+    const insertAt = draggedIndex < droppedIndex ? targetIndex + 1 : targetIndex
+    setPages([...rest.slice(0, insertAt), ...moved, ...rest.slice(insertAt)])
+  }
+
+  const rotateSelected = (delta: number) => {
+    setPages(pages.map((page) => (selected.includes(page.id) ? { ...page, rotation: (page.rotation + delta + 360) % 360 } : page)))
+  }
+
+  const deleteSelected = () => {
+    setPages(pages.filter((page) => !selected.includes(page.id)))
+    setSelected([])
+  }
+
+  const duplicateSelected = () => {
+    setPages(
+      pages.flatMap((page) => (selected.includes(page.id) ? [page, { ...page, id: createPageId() }] : [page]))
+    )
+  }
+
+  const insertBlank = () => {
+    const blank: OrganizerPage = { id: createPageId(), source: null, rotation: 0 }
+    const lastSelected = pages.reduce((last, page, index) => (selected.includes(page.id) ? index : last), -1)
+    const insertAt = lastSelected >= 0 ? lastSelected + 1 : pages.length
+    setPages([...pages.slice(0, insertAt), blank, ...pages.slice(insertAt)])
+  }
+
+  const save = async (entries: OrganizerPage[], name: string) => {
+    if (!file) return
+    if (!entries.length) {
+      setStatus('No pages left to save.')
+      return
+    }
+    setBusy(true)
+    setStatus('Processing...')
+    try {
+      saveAs(toPdfBlob(await buildOrganizedPdf(await toBytes(file), entries)), name)
+      setStatus('Done')
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Saving failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const selectedPages = pages.filter((page) => selected.includes(page.id))
+  const title = mode === 'remove' ? 'Remove Pages' : mode === 'extract' ? 'Extract Pages' : 'Organize PDF'
+  const hint =
+    mode === 'remove'
+      ? 'Click the pages to remove (shift-click selects a range), then save the remaining pages.'
+      : mode === 'extract'
+        ? 'Click the pages to extract (shift-click selects a range). Drag to change their order in the output.'
+        : 'Drag pages to reorder them. Click to select (shift-click selects a range), then rotate, duplicate, delete or insert blank pages.'
+
+  return (
+    <ToolShell title={title}>
+      <p className="hint">{hint}</p>
+      <FilePicker accept=".pdf,application/pdf" onFiles={onFiles} />
+      {error ? <p className="hint">{error}</p> : null}
+      {doc ? (
+        <>
+          <div className="row">
+            <button onClick={() => setSelected(pages.map((page) => page.id))} disabled={!pages.length}>
+              Select all
+            </button>
+            <button onClick={() => setSelected([])} disabled={!selected.length}>
+              Clear selection
+            </button>
+            <PageRangeInput title="Select" value={expression} onChange={setExpression} placeholder="1-3,7,odd,!5" />
+            <button onClick={selectByRange} disabled={!pages.length || !expression.trim()}>
+              Select pages
+            </button>
+            {mode === 'organize' ? (
+              <>
+                <button onClick={() => rotateSelected(-90)} disabled={!selected.length}>
+                  Rotate left
+                </button>
+                <button onClick={() => rotateSelected(90)} disabled={!selected.length}>
+                  Rotate right
+                </button>
+                <button onClick={duplicateSelected} disabled={!selected.length}>
+                  Duplicate
+                </button>
+                <button onClick={insertBlank}>Insert blank page</button>
+                <button onClick={deleteSelected} disabled={!selected.length}>
+                  Delete
+                </button>
+              </>
+            ) : null}
+            <button
+              onClick={() => {
+                setPages(initialPages(pageCount))
+                setSelected([])
+              }}
+            >
+              Reset
+            </button>
+          </div>
+          <div className="page-grid">
+            {pages.map((page, index) => {
+              const classes = ['page-card']
+              if (selected.includes(page.id)) classes.push(mode === 'remove' ? 'selected remove' : 'selected')
+              if (dragging === page.id) classes.push('dragging')
+              if (dropTarget === page.id) classes.push('drop-target')
+              const thumbnail = page.source === null ? '' : thumbnails[page.source]
+              return (
+                <figure
+                  key={page.id}
+                  className={classes.join(' ')}
+                  draggable
+                  onClick={(event) => onCardClick(event, page.id)}
+                  onDragStart={(event) => onDragStart(event, page.id)}
+                  onDragOver={(event) => {
+                    event.preventDefault()
+                    setDropTarget(page.id)
+                  }}
+                  onDragLeave={() => setDropTarget(null)}
+                  onDrop={(event) => onDrop(event, page.id)}
+                  onDragEnd={() => {
+                    setDragging(null)
+                    setDropTarget(null)
+                  }}
+                >
+                  <div className="page-card-image">
+                    {page.source === null ? (
+                      <div className="page-card-blank">Blank page</div>
+                    ) : thumbnail ? (
+                      <img
+                        src={thumbnail}
+                        alt={`Page ${page.source + 1}`}
+                        draggable={false}
+                        style={{ transform: `rotate(${page.rotation}deg)` }}
+                      />
+                    ) : (
+                      <div className="page-card-blank">Rendering...</div>
+                    )}
+                  </div>
+                  <figcaption>
+                    {index + 1}
+                    {page.source !== null && page.source !== index ? ` (page ${page.source + 1})` : ''}
+                    {page.rotation ? ` · ${page.rotation}°` : ''}
+                  </figcaption>
+                </figure>
+              )
+            })}
+          </div>
+          <p className="hint">
+            {pages.length} page{pages.length === 1 ? '' : 's'}, {selected.length} selected.
+          </p>
+        </>
+      ) : null}
+      <div className="row">
+        {mode === 'organize' ? (
+          <>
+            <button onClick={() => save(pages, 'organized.pdf')} disabled={!file || busy || !pages.length}>
+              Save PDF
+            </button>
+            <button onClick={() => save(selectedPages, 'extracted-pages.pdf')} disabled={!file || busy || !selected.length}>
+              Extract selected
+            </button>
+          </>
+        ) : null}
+        {mode === 'extract' ? (
+          <button onClick={() => save(selectedPages, 'extracted-pages.pdf')} disabled={!file || busy || !selected.length}>
+            Extract
+          </button>
+        ) : null}
+        {mode === 'remove' ? (
+          <button
+            onClick={() => save(pages.filter((page) => !selected.includes(page.id)), 'removed-pages.pdf')}
+            disabled={!file || busy || !selected.length}
+          >
+            Remove selected
+          </button>
+        ) : null}
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+    </ToolShell>
+  )
+}
+
+export function OrganizeTool({ removeOnly = false }: { removeOnly?: boolean }) {
+  return <PageOrganizer mode={removeOnly ? 'remove' : 'organize'} />
+}
+
+export function ExtractPagesTool() {
+  return <PageOrganizer mode="extract" />
+}
@@ -0,0 +1,316 @@
+import { useState } from 'react'
+import { saveAs } from 'file-saver'
+import JSZip from 'jszip'
+import { PDFDocument, degrees } from 'pdf-lib'
+import { FilePicker, ToolShell, toBytes, toPdfBlob } from './shared'
+import { PageRangeInput, parsePageIndices } from './pageRanges'
+import { displayToUser, pageGeometry } from '../../shared/pageGeometry.mjs'
+import { FONTS, FontName, createFontLoader, encodableText, fontFor, hexToRgb } from './pdfStyle'
+
+type StampPosition = 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right'
+
+type StampOptions = {
+  template: string
+  position: StampPosition
+  font: FontName
+  fontSize: number
+  color: string
+  margin: number
+  skipFirst: boolean
+  mirror: boolean
+  firstNumber: number
+  batesPrefix: string
+  batesDigits: number
+  batesSuffix: string
+}
+
+const POSITIONS: { value: StampPosition; label: string }[] = [
+  { value: 'top-left', label: 'Header left' },
+  { value: 'top-center', label: 'Header centre' },
+  { value: 'top-right', label: 'Header right' },
+  { value: 'bottom-left', label: 'Footer left' },
+  { value: 'bottom-center', label: 'Footer centre' },
+  { value: 'bottom-right', label: 'Footer right' }
+]
+
+const PRESETS = [
+  { label: 'Page numbers', template: '{page}/{total}' },
+  { label: 'Page X of Y', template: 'Page {page} of {total}' },
+  { label: 'Bates number', template: '{bates}' },
+  { label: 'File and date', template: '{filename} · {date}' }
+]
+
+export function formatBates(counter: number, prefix: string, digits: number, suffix: string) {
+  return `${prefix}${String(counter).padStart(digits, '0')}${suffix}`
+}
+
+function fillTemplate(template: string, values: Record<string, string>) {
+  return template.replace(/\{(page|total|filename|date|bates)\}/g, (_, token: string) => values[token])
+}
+
+function baseName(name: string) {
+  return name.replace(/\.pdf$/i, '')
+}
+
+// Stamps one file and returns the next Bates number, so a batch continues
+// the sequence from file to file. Only stamped pages consume a Bates number.
+// Characters the font cannot draw (e.g. from a non-Latin file name) are
+// replaced rather than failing the batch, and returned in `replaced`.
+async function stampFile(file: File, options: StampOptions, pagesExpression: string, batesStart: number) {
+  const doc = await PDFDocument.load(await toBytes(file))
+  const font = await createFontLoader(doc)(options.font)
+  const color = hexToRgb(options.color)
+  const total = doc.getPageCount()
+  const date = new Date().toISOString().slice(0, 10)
+  let bates = batesStart
+  const replaced = new Set<string>()
+
+  const indices = parsePageIndices(pagesExpression, total).filter((index) => !(options.skipFirst && index === 0))
+  indices.forEach((index) => {
+    const page = doc.getPage(index)
+    const geometry = pageGeometry(page)
+    const filled = fillTemplate(options.template, {
+      page: String(index + options.firstNumber),
+      total: String(total - 1 + options.firstNumber),
+      filename: baseName(file.name),
+      date,
+      bates: formatBates(bates, options.batesPrefix, options.batesDigits, options.batesSuffix)
+    })
+    if (!filled.trim()) return
+    bates += 1
+    const { text, replaced: missing } = encodableText(font, filled)
+    missing.forEach((char) => replaced.add(char))
+
+    let [vertical, horizontal] = options.position.split('-')
+    // Mirroring swaps outer edges on even pages, as for facing-page layouts.
+    if (options.mirror && (index + 1) % 2 === 0 && horizontal !== 'center') {
+      horizontal = horizontal === 'left' ? 'right' : 'left'
+    }
+    const width = font.widthOfTextAtSize(text, options.fontSize)
+    const ascent = font.heightAtSize(options.fontSize, { descender: false })
+    const descent = font.heightAtSize(options.fontSize) - ascent
+    const dx =
+      horizontal === 'left'
+        ? options.margin
+        : horizontal === 'right'
+          ? geometry.viewWidth - options.margin - width
+          : (geometry.viewWidth - width) / 2
+    const dy = vertical === 'top' ? options.margin + ascent : geometry.viewHeight - options.margin - descent
+    const [x, y] = displayToUser(geometry, dx / geometry.viewWidth, dy / geometry.viewHeight)
+    page.drawText(text, { x, y, size: options.fontSize, font, color, rotate: degrees(geometry.rotation) })
+  })
+
+  return { bytes: await doc.save(), nextBates: bates, replaced: Array.from(replaced) }
+}
+
+export function PageNumberTool() {
+  const [files, setFiles] = useState<File[]>([])
+  const [pages, setPages] = useState('')
+  const [batesStart, setBatesStart] = useState(1)
+  const [options, setOptions] = useState<StampOptions>({
+    template: '{page}/{total}',
+    position: 'bottom-right',
+    font: 'helvetica',
+    fontSize: 11,
+    color: '#262626',
+    margin: 24,
+    skipFirst: false,
+    mirror: false,
+    firstNumber: 1,
+    batesPrefix: '',
+    batesDigits: 6,
+    batesSuffix: ''
+  })
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+
+  const update = (patch: Partial<StampOptions>) => setOptions({ ...options, ...patch })
+  const usesBates = options.template.includes('{bates}')
+
+  const run = async () => {
+    if (!files.length) return
+    setBusy(true)
+    setStatus('Processing...')
+    try {
+      const outputs: { name: string; bytes: Uint8Array }[] = []
+      const substituted: string[] = []
+      let bates = batesStart
+      for (const [index, file] of files.entries()) {
+        setStatus(`Stamping ${file.name} (${index + 1} of ${files.length})...`)
+        try {
+          const result = await stampFile(file, options, pages, bates)
+          outputs.push({ name: file.name, bytes: result.bytes })
+          if (result.replaced.length) substituted.push(`${file.name} (${result.replaced.join('')})`)
+          bates = result.nextBates
+        } catch (error) {
+          throw new Error(
+            `Stopped at ${file.name}: ${error instanceof Error ? error.message : 'stamping failed'}. ` +
+              'Nothing was saved and the Bates start number is unchanged.'
+          )
+        }
+      }
+
+      if (outputs.length === 1) {
+        saveAs(toPdfBlob(outputs[0].bytes), 'numbered.pdf')
+      } else {
+        const zip = new JSZip()
+        const used = new Set<string>()
+        outputs.forEach(({ name, bytes }) => {
+          let entry = `${baseName(name)}-numbered.pdf`
+          while (used.has(entry)) entry = `copy-${entry}`
+          used.add(entry)
+          zip.file(entry, bytes)
+        })
+        saveAs(await zip.generateAsync({ type: 'blob' }), 'numbered-pdfs.zip')
+      }
+
+      const range =
+        usesBates && bates > batesStart
+          ? ` Bates range ${formatBates(batesStart, options.batesPrefix, options.batesDigits, options.batesSuffix)}–${formatBates(bates - 1, options.batesPrefix, options.batesDigits, options.batesSuffix)}; next number ${bates}.`
+          : ''
+      const warning = substituted.length
+        ? ` Characters the ${fontFor(options.font).label} font cannot show were stamped as "?" for ${substituted.join(', ')}.`
+        : ''
+      setStatus(`Done.${range}${warning}`)
+      // Continuing the sequence is the common case for the next batch.
+      if (usesBates) setBatesStart(bates)
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Numbering failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <ToolShell title="Add Page Numbers">
+      <p className="hint">
+        Tokens: <code>{'{page}'}</code>, <code>{'{total}'}</code>, <code>{'{filename}'}</code>, <code>{'{date}'}</code> and{' '}
+        <code>{'{bates}'}</code>. Select several files to number them as one batch; the Bates counter carries on from file to
+        file in the order chosen.
+      </p>
+      <FilePicker accept=".pdf,application/pdf" multiple onFiles={setFiles} />
+      <div className="row">
+        <input
+          title="Template"
+          placeholder="Page {page} of {total}"
+          value={options.template}
+          onChange={(e) => update({ template: e.target.value })}
+        />
+        {PRESETS.map((preset) => (
+          <button key={preset.label} onClick={() => update({ template: preset.template })}>
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      {usesBates ? (
+        <div className="row">
+          <input
+            title="Bates prefix"
+            placeholder="Prefix, e.g. ACME"
+            value={options.batesPrefix}
+            onChange={(e) => update({ batesPrefix: e.target.value })}
+          />
+          <label className="inline-option">
+            Digits
+            <input
+              type="number"
+              title="Zero-padded digits"
+              min={1}
+              max={12}
+              value={options.batesDigits}
+              onChange={(e) => update({ batesDigits: Math.min(12, Math.max(1, Number(e.target.value) || 1)) })}
+            />
+          </label>
+          <input
+            title="Bates suffix"
+            placeholder="Suffix"
+            value={options.batesSuffix}
+            onChange={(e) => update({ batesSuffix: e.target.value })}
+          />
+          <label className="inline-option">
+            Start at
+            <input
+              type="number"
+              title="First Bates number"
+              min={0}
+              value={batesStart}
+              onChange={(e) => setBatesStart(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+            />
+          </label>
+          <span className="hint">
+            e.g. {formatBates(batesStart, options.batesPrefix, options.batesDigits, options.batesSuffix)}
+          </span>
+        </div>
+      ) : null}
+      <div className="row">
+        <select
+          title="Position"
+          value={options.position}
+          onChange={(e) => update({ position: e.target.value as StampPosition })}
+        >
+          {POSITIONS.map((position) => (
+            <option key={position.value} value={position.value}>
+              {position.label}
+            </option>
+          ))}
+        </select>
+        <select title="Font" value={options.font} onChange={(e) => update({ font: e.target.value as FontName })}>
+          {FONTS.map((font) => (
+            <option key={font.value} value={font.value}>
+              {font.label}
+            </option>
+          ))}
+        </select>
+        <label className="inline-option">
+          Size
+          <input
+            type="number"
+            title="Font size"
+            min={4}
+            max={72}
+            value={options.fontSize}
+            onChange={(e) => update({ fontSize: Math.max(1, Number(e.target.value) || 1) })}
+          />
+        </label>
+        <input type="color" title="Colour" value={options.color} onChange={(e) => update({ color: e.target.value })} />
+        <label className="inline-option">
+          Margin
+          <input
+            type="number"
+            title="Margin in points"
+            min={0}
+            max={200}
+            value={options.margin}
+            onChange={(e) => update({ margin: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </label>
+      </div>
+      <div className="row">
+        <label className="inline-option">
+          <input type="checkbox" checked={options.skipFirst} onChange={(e) => update({ skipFirst: e.target.checked })} />
+          Skip first page
+        </label>
+        <label className="inline-option">
+          <input type="checkbox" checked={options.mirror} onChange={(e) => update({ mirror: e.target.checked })} />
+          Mirror on even pages
+        </label>
+        <label className="inline-option">
+          Number first page as
+          <input
+            type="number"
+            title="Value of {page} on the first page"
+            value={options.firstNumber}
+            onChange={(e) => update({ firstNumber: Math.floor(Number(e.target.value) || 0) })}
+          />
+        </label>
+        <PageRangeInput value={pages} onChange={setPages} />
+      </div>
+      <div className="row">
+        <button onClick={run} disabled={!files.length || busy || !options.template.trim()}>
+          Add Page Numbers
+        </button>
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+    </ToolShell>
+  )
+}
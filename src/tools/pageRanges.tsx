@@ -0,0 +1,162 @@
+type Bound = { kind: 'number'; value: number } | { kind: 'end' } | { kind: 'reverse'; value: number }
+
+type PageTerm =
+  | { token: string; exclude: boolean; kind: 'range'; from: Bound; to: Bound }
+  | { token: string; exclude: boolean; kind: 'odd' | 'even' | 'all' }
+
+export class PageRangeError extends Error {
+  invalid: string[]
+  outOfBounds: string[]
+
+  constructor(message: string, invalid: string[] = [], outOfBounds: string[] = []) {
+    super(message)
+    this.invalid = invalid
+    this.outOfBounds = outOfBounds
+  }
+}
+
+export const PAGE_RANGE_HELP = 'e.g. 1-3,7,10-end · odd · even · last · r1 (last page) · !5 to exclude'
+
+function parseBound(raw: string): Bound | null {
+  if (/^\d+$/.test(raw)) return { kind: 'number', value: Number(raw) }
+  if (raw === 'end' || raw === 'last') return { kind: 'end' }
+  const reverse = /^r(\d+)$/.exec(raw)
+  if (reverse) return { kind: 'reverse', value: Number(reverse[1]) }
+  return null
+}
+
+function resolveBound(bound: Bound, pageCount: number) {
+  if (bound.kind === 'end') return pageCount
+  if (bound.kind === 'reverse') return pageCount - bound.value + 1
+  return bound.value
+}
+
+function quoteTokens(tokens: string[]) {
+  return tokens.map((token) => `"${token}"`).join(', ')
+}
+
+// Splits an expression into terms. Commas or whitespace separate tokens;
+// spaces around "-" and after "!" are tolerated so "1 - 3" and "! 5" work.
+function parseTerms(expression: string) {
+  const terms: PageTerm[] = []
+  const invalid: string[] = []
+  const tokens = expression
+    .replace(/\s*-\s*/g, '-')
+    .replace(/!\s+/g, '!')
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+
+  tokens.forEach((token) => {
+    const exclude = token.startsWith('!')
+    const body = (exclude ? token.slice(1) : token).toLowerCase()
+    if (body === 'odd' || body === 'even' || body === 'all') {
+      terms.push({ token, exclude, kind: body })
+      return
+    }
+    const parts = body.split('-')
+    if (parts.length > 2 || (parts.length === 2 && !parts[0] && !parts[1])) {
+      invalid.push(token)
+      return
+    }
+    // "10-" reads as 10 to the end and "-3" as the first three pages.
+    const from = parts[0] ? parseBound(parts[0]) : { kind: 'number' as const, value: 1 }
+    const to = parts.length === 1 ? from : parts[1] ? parseBound(parts[1]) : { kind: 'end' as const }
+    if (!from || !to) {
+      invalid.push(token)
+      return
+    }
+    terms.push({ token, exclude, kind: 'range', from, to })
+  })
+
+  return { terms, invalid }
+}
+
+function expandTerm(term: PageTerm, pageCount: number) {
+  if (term.kind !== 'range') {
+    if (term.kind === 'all') return Array.from({ length: pageCount }, (_, index) => index + 1)
+    const first = term.kind === 'odd' ? 1 : 2
+    return Array.from({ length: Math.max(0, Math.ceil((pageCount - first + 1) / 2)) }, (_, index) => first + index * 2)
+  }
+  const from = resolveBound(term.from, pageCount)
+  const to = resolveBound(term.to, pageCount)
+  if (from < 1 || to < 1 || from > pageCount || to > pageCount) return null
+  const step = from <= to ? 1 : -1
+  return Array.from({ length: Math.abs(to - from) + 1 }, (_, index) => from + index * step)
+}
+
+// Returns the syntax error for an expression without needing the page count,
+// so inputs can flag typos before a document is loaded.
+export function validatePageRange(expression: string) {
+  const { invalid } = parseTerms(expression)
+  return invalid.length ? `Invalid page tokens: ${quoteTokens(invalid)}` : ''
+}
+
+// Resolves a page selection to 1-based page numbers in the order written.
+// Descending ranges such as 5-1 list pages in reverse, repeats are dropped,
+// and an expression made only of exclusions starts from every page.
+export function parsePageRange(expression: string, pageCount: number) {
+  const { terms, invalid } = parseTerms(expression)
+  const outOfBounds: string[] = []
+  const included: number[] = []
+  const excluded = new Set<number>()
+
+  terms.forEach((term) => {
+    const pages = expandTerm(term, pageCount)
+    if (!pages) {
+      outOfBounds.push(term.token)
+      return
+    }
+    if (term.exclude) pages.forEach((page) => excluded.add(page))
+    else included.push(...pages)
+  })
+
+  if (invalid.length || outOfBounds.length) {
+    const problems: string[] = []
+    if (invalid.length) problems.push(`Invalid page tokens: ${quoteTokens(invalid)}.`)
+    if (outOfBounds.length) {
+      problems.push(`Out of range for a ${pageCount}-page document: ${quoteTokens(outOfBounds)}.`)
+    }
+    throw new PageRangeError(problems.join(' '), invalid, outOfBounds)
+  }
+
+  const base = terms.some((term) => !term.exclude)
+    ? included
+    : Array.from({ length: pageCount }, (_, index) => index + 1)
+  const pages = Array.from(new Set(base)).filter((page) => !excluded.has(page))
+  if (!pages.length) {
+    throw new PageRangeError(`"${expression.trim()}" does not select any pages.`)
+  }
+  return pages
+}
+
+// Zero-based indices, as pdf-lib expects them.
+export function parsePageIndices(expression: string, pageCount: number) {
+  return parsePageRange(expression, pageCount).map((page) => page - 1)
+}
+
+export function PageRangeInput({
+  value,
+  onChange,
+  placeholder = 'All pages',
+  title = 'Pages'
+}: {
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  title?: string
+}) {
+  const error = validatePageRange(value)
+  return (
+    <label className="inline-option page-range-input">
+      {title}
+      <input
+        title={`${title} (${PAGE_RANGE_HELP})`}
+        placeholder={placeholder}
+        value={value}
+        className={error ? 'invalid' : undefined}
+        onChange={(e) => onChange(e.target.value)}
+      />
+      {error ? <span className="field-error">{error}</span> : null}
+    </label>
+  )
+}
@@ -0,0 +1,57 @@
+import { PDFDocument, PDFFont, StandardFonts, rgb } from 'pdf-lib'
+
+export type FontName = 'helvetica' | 'helvetica-bold' | 'times' | 'times-bold' | 'courier' | 'courier-bold'
+
+export const FONTS: { value: FontName; label: string; standard: StandardFonts; css: string; weight: number }[] = [
+  { value: 'helvetica', label: 'Helvetica', standard: StandardFonts.Helvetica, css: 'Helvetica, Arial, sans-serif', weight: 400 },
+  { value: 'helvetica-bold', label: 'Helvetica Bold', standard: StandardFonts.HelveticaBold, css: 'Helvetica, Arial, sans-serif', weight: 700 },
+  { value: 'times', label: 'Times', standard: StandardFonts.TimesRoman, css: '"Times New Roman", Times, serif', weight: 400 },
+  { value: 'times-bold', label: 'Times Bold', standard: StandardFonts.TimesRomanBold, css: '"Times New Roman", Times, serif', weight: 700 },
+  { value: 'courier', label: 'Courier', standard: StandardFonts.Courier, css: '"Courier New", Courier, monospace', weight: 400 },
+  { value: 'courier-bold', label: 'Courier Bold', standard: StandardFonts.CourierBold, css: '"Courier New", Courier, monospace', weight: 700 }
+]
+
+export function fontFor(name: FontName) {
+  return FONTS.find((font) => font.value === name) || FONTS[0]
+}
+
+// Embeds each standard font at most once per document.
+export function createFontLoader(doc: PDFDocument) {
+  const fonts = new Map<FontName, Promise<PDFFont>>()
+  return (name: FontName) => {
+    let font = fonts.get(name)
+    if (!font) {
+      font = doc.embedFont(fontFor(name).standard)
+      fonts.set(name, font)
+    }
+    return font
+  }
+}
+
+const characterSets = new WeakMap<PDFFont, Set<number>>()
+
+// Standard fonts only cover WinAnsi, and drawText throws on anything else.
+// Accented letters fall back to their base letter; whatever is still missing
+// becomes '?'. `replaced` lists the characters that could not be kept.
+export function encodableText(font: PDFFont, text: string) {
+  let supported = characterSets.get(font)
+  if (!supported) {
+    supported = new Set(font.getCharacterSet())
+    characterSets.set(font, supported)
+  }
+  const covers = (value: string) => Array.from(value).every((char) => supported.has(char.codePointAt(0) as number))
+  const replaced = new Set<string>()
+  const result = Array.from(text, (char) => {
+    if (covers(char)) return char
+    const base = char.normalize('NFKD').replace(/\p{M}/gu, '')
+    if (base && covers(base)) return base
+    replaced.add(char)
+    return '?'
+  }).join('')
+  return { text: result, replaced: Array.from(replaced) }
+}
+
+export function hexToRgb(hex: string) {
+  const value = Number.parseInt(hex.replace('#', ''), 16) || 0
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255)
+}
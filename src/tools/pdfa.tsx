@@ -0,0 +1,123 @@
+import { useState } from 'react'
+import { saveAs } from 'file-saver'
+import { FilePicker, ToolShell, describeBackendJob, postFormData, runBackendJob } from './shared'
+
+type PdfaLevel = '1b' | '2b' | '3b'
+
+type PdfaEngine = 'auto' | 'ghostscript' | 'libreoffice'
+
+type PdfaReport = {
+  level: PdfaLevel
+  engine?: Exclude<PdfaEngine, 'auto'>
+  compliant: boolean
+  errors: number
+  warnings: number
+  issues: { severity: 'error' | 'warning'; message: string }[]
+}
+
+const LEVELS: { value: PdfaLevel; label: string }[] = [
+  { value: '1b', label: 'PDF/A-1b (PDF 1.4, no transparency or attachments)' },
+  { value: '2b', label: 'PDF/A-2b (recommended for archiving)' },
+  { value: '3b', label: 'PDF/A-3b (allows any attachments)' }
+]
+
+const ENGINES: { value: PdfaEngine; label: string }[] = [
+  { value: 'auto', label: 'Any available engine' },
+  { value: 'ghostscript', label: 'Ghostscript' },
+  { value: 'libreoffice', label: 'LibreOffice' }
+]
+
+function describeReport(report: PdfaReport) {
+  const verdict = report.compliant
+    ? `passes the PDF/A-${report.level} checks`
+    : `has ${report.errors} conformance issue${report.errors === 1 ? '' : 's'}`
+  const engine = report.engine ? ` (converted with ${report.engine === 'ghostscript' ? 'Ghostscript' : 'LibreOffice'})` : ''
+  return `The file ${verdict}${engine}.`
+}
+
+export function PdfaTool() {
+  const [file, setFile] = useState<File | null>(null)
+  const [level, setLevel] = useState<PdfaLevel>('2b')
+  const [engine, setEngine] = useState<PdfaEngine>('auto')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+  const [report, setReport] = useState<PdfaReport | null>(null)
+
+  const run = async (validateOnly: boolean) => {
+    if (!file) return
+    setBusy(true)
+    setStatus('Processing...')
+    setReport(null)
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      form.append('level', level)
+      if (validateOnly) {
+        const response = await postFormData('/api/pdfa/validate', form)
+        const result = (await response.json()) as PdfaReport
+        setReport(result)
+        setStatus(describeReport(result))
+        return
+      }
+
+      form.append('engine', engine)
+      const response = await runBackendJob('/api/pdf-to-pdfa', form, (job) => setStatus(describeBackendJob(job)))
+      const header = response.headers.get('X-Pdfa-Report')
+      saveAs(await response.blob(), `${file.name.replace(/\.pdf$/i, '')}-pdfa.pdf`)
+      const result = header ? (JSON.parse(header) as PdfaReport) : null
+      setReport(result)
+      setStatus(result ? `Done: ${describeReport(result)}` : 'Done')
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'PDF/A conversion failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <ToolShell title="PDF to PDF/A">
+      <p className="hint">
+        Converts to an archival PDF/A file on the server with Ghostscript or LibreOffice, then checks the result for
+        the usual conformance problems: fonts that are not embedded, transparency, encryption, missing metadata or
+        output intent, forbidden actions and attachments. Validate only checks the uploaded file as it is. The check is
+        structural; use a full validator such as veraPDF when you need certification.
+      </p>
+      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
+      <div className="row">
+        <select title="PDF/A level" value={level} onChange={(e) => setLevel(e.target.value as PdfaLevel)}>
+          {LEVELS.map((entry) => (
+            <option key={entry.value} value={entry.value}>
+              {entry.label}
+            </option>
+          ))}
+        </select>
+        <select title="Conversion engine" value={engine} onChange={(e) => setEngine(e.target.value as PdfaEngine)}>
+          {ENGINES.map((entry) => (
+            <option key={entry.value} value={entry.value}>
+              {entry.label}
+            </option>
+          ))}
+        </select>
+        <button onClick={() => run(false)} disabled={!file || busy}>
+          Convert to PDF/A
+        </button>
+        <button onClick={() => run(true)} disabled={!file || busy}>
+          Validate only
+        </button>
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+      {report?.issues.length ? (
+        <ul className="pdfa-issues">
+          {report.issues.map((issue, index) => (
+            <li key={index}>
+              <span className={issue.severity === 'error' ? 'badge err' : 'badge warn'}>
+                {issue.severity === 'error' ? 'Error' : 'Warning'}
+              </span>{' '}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </ToolShell>
+  )
+}
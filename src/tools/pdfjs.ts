@@ -0,0 +1,67 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+
+export async function loadPdfjs() {
+  const pdfjs = await import('pdfjs-dist')
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString()
+  return pdfjs
+}
+
+export async function openPdf(file: File) {
+  const pdfjs = await loadPdfjs()
+  const bytes = await file.arrayBuffer()
+  return pdfjs.getDocument({ data: bytes }).promise
+}
+
+export async function renderPage(doc: PDFDocumentProxy, pageNumber: number, scale: number) {
+  const page = await doc.getPage(pageNumber)
+  const viewport = page.getViewport({ scale })
+  const canvas = document.createElement('canvas')
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Canvas rendering is not supported in this browser')
+  }
+  canvas.width = Math.floor(viewport.width)
+  canvas.height = Math.floor(viewport.height)
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  await page.render({ canvasContext: context, viewport }).promise
+  return canvas
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png', quality?: number) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality))
+}
+
+export async function extractPageTexts(doc: PDFDocumentProxy) {
+  const pages: string[] = []
+  for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber += 1) {
+    const page = await doc.getPage(pageNumber)
+    const content = await page.getTextContent()
+    pages.push(
+      content.items
+        .map((item) => ('str' in item ? `${item.str}${item.hasEOL ? '\n' : ' '}` : ''))
+        .join('')
+    )
+  }
+  return pages
+}
+
+// Top-level outline entries with the zero-based page each one points to.
+// Entries without a resolvable destination (URLs, broken links) are skipped.
+export async function readTopLevelBookmarks(doc: PDFDocumentProxy) {
+  const outline = (await doc.getOutline()) || []
+  const bookmarks: { title: string; pageIndex: number }[] = []
+  for (const item of outline) {
+    try {
+      const dest = typeof item.dest === 'string' ? await doc.getDestination(item.dest) : item.dest
+      const target = dest?.[0]
+      if (target === undefined || target === null) continue
+      const pageIndex =
+        typeof target === 'number' ? target : await doc.getPageIndex(target as Parameters<PDFDocumentProxy['getPageIndex']>[0])
+      bookmarks.push({ title: item.title, pageIndex })
+    } catch {
+      // Unresolvable destination; leave it out.
+    }
+  }
+  return bookmarks
+}
@@ -0,0 +1,302 @@
+import { Fragment, useState } from 'react'
+import { saveAs } from 'file-saver'
+import { FilePicker, ToolShell, describeBackendJob, postFormData, runBackendJob } from './shared'
+import { BoxEditor, PageBox } from './boxEditor'
+import { usePageImage, usePdfDocument } from './usePdfPage'
+
+type SearchMatch = {
+  id: string
+  page: number
+  rule: string
+  text: string
+  boxes: { x: number; y: number; width: number; height: number }[]
+}
+
+type RedactionMode = 'preserve' | 'rasterize-affected' | 'flatten'
+
+type RedactionReport = {
+  mode: RedactionMode
+  pagesRedacted: number
+  pagesRasterized: number[]
+  glyphsRemoved: number
+  imagesRemoved: number
+  annotationsRemoved: number
+  verified: boolean
+}
+
+const MODES: { value: RedactionMode; label: string }[] = [
+  { value: 'preserve', label: 'Keep text (remove covered content only)' },
+  { value: 'rasterize-affected', label: 'Rasterize affected pages only' },
+  { value: 'flatten', label: 'Flatten whole document to images' }
+]
+
+const PRESETS = [
+  { value: 'email', label: 'Email addresses' },
+  { value: 'phone', label: 'Phone numbers' },
+  { value: 'iban', label: 'IBANs' },
+  { value: 'ssn', label: 'US SSNs' },
+  { value: 'credit-card', label: 'Card numbers' }
+]
+
+function splitLines(value: string) {
+  return value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+}
+
+function matchBoxes(match: SearchMatch): PageBox[] {
+  return match.boxes.map((box, index) => ({ id: `${match.id}-${index}`, page: match.page, ...box }))
+}
+
+function describeReport(report: RedactionReport) {
+  const parts = [
+    `${report.pagesRedacted} page${report.pagesRedacted === 1 ? '' : 's'} redacted`,
+    `${report.glyphsRemoved} glyph${report.glyphsRemoved === 1 ? '' : 's'} removed`,
+    `${report.imagesRemoved} image${report.imagesRemoved === 1 ? '' : 's'} removed`,
+    `${report.annotationsRemoved} annotation${report.annotationsRemoved === 1 ? '' : 's'} removed`
+  ]
+  if (report.pagesRasterized.length) {
+    parts.push(`rasterized page${report.pagesRasterized.length === 1 ? '' : 's'} ${report.pagesRasterized.join(', ')}`)
+  }
+  return `${parts.join(', ')}. ${report.verified ? 'Verified: no text or images remain under the boxes.' : 'Not verified.'}`
+}
+
+function toRedactions(boxes: PageBox[]) {
+  return boxes.map(({ page, x, y, width, height }) => ({
+    page,
+    x: Number(x.toFixed(4)),
+    y: Number(y.toFixed(4)),
+    width: Number(width.toFixed(4)),
+    height: Number(height.toFixed(4))
+  }))
+}
+
+export function RedactTool() {
+  const [file, setFile] = useState<File | null>(null)
+  const [page, setPage] = useState(1)
+  const [boxes, setBoxes] = useState<PageBox[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+  const [mode, setMode] = useState<RedactionMode>('preserve')
+  const [presets, setPresets] = useState<string[]>([])
+  const [terms, setTerms] = useState('')
+  const [patterns, setPatterns] = useState('')
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [matches, setMatches] = useState<SearchMatch[]>([])
+  const [kept, setKept] = useState<string[]>([])
+  const { doc, pageCount, error } = usePdfDocument(file)
+  const image = usePageImage(doc, page)
+
+  const onFiles = (files: File[]) => {
+    setFile(files[0] || null)
+    setPage(1)
+    setBoxes([])
+    setSelectedId(null)
+    setStatus('')
+    setMatches([])
+    setKept([])
+  }
+
+  const goToPage = (next: number) => {
+    setPage(Math.min(pageCount, Math.max(1, next)))
+    setSelectedId(null)
+  }
+
+  const togglePreset = (value: string, checked: boolean) => {
+    setPresets(checked ? [...presets, value] : presets.filter((entry) => entry !== value))
+  }
+
+  const toggleKept = (id: string, redact: boolean) => {
+    setKept(redact ? kept.filter((entry) => entry !== id) : [...kept, id])
+  }
+
+  const search = async () => {
+    if (!file) return
+    setBusy(true)
+    setStatus('Searching text layer...')
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      form.append('search', JSON.stringify({ presets, terms: splitLines(terms), patterns: splitLines(patterns), caseSensitive }))
+      const response = await postFormData('/api/redact-search', form)
+      const payload = (await response.json()) as { matches?: SearchMatch[] }
+      const found = payload.matches || []
+      setMatches(found)
+      setKept([])
+      setStatus(found.length ? `${found.length} match${found.length === 1 ? '' : 'es'} found.` : 'No matches found.')
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Search failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const selectedMatches = matches.filter((match) => !kept.includes(match.id))
+  const redactionBoxes = [...boxes, ...selectedMatches.flatMap(matchBoxes)]
+
+  const run = async () => {
+    if (!file) return
+    if (!redactionBoxes.length) {
+      setStatus('Draw at least one redaction box or select a search match.')
+      return
+    }
+
+    setBusy(true)
+    setStatus('Processing...')
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      form.append('redactions', JSON.stringify(toRedactions(redactionBoxes)))
+      form.append('mode', mode)
+
+      const response = await runBackendJob('/api/redact-pdf', form, (job) => setStatus(describeBackendJob(job)))
+      const report = response.headers.get('X-Redaction-Report')
+      saveAs(await response.blob(), 'redacted.pdf')
+      setStatus(report ? `Done: ${describeReport(JSON.parse(report) as RedactionReport)}` : 'Done')
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Redaction failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const pageBoxes = boxes.filter((box) => box.page === page)
+  const pagesWithBoxes = Array.from(new Set(redactionBoxes.map((box) => box.page))).sort((a, b) => a - b)
+  const overlays = matches.flatMap((match) =>
+    matchBoxes(match).map((box) => ({
+      box,
+      className: kept.includes(match.id) ? 'box-editor-match kept' : 'box-editor-match',
+      title: `${match.rule}: ${match.text}`
+    }))
+  )
+
+  return (
+    <ToolShell title="Redact PDF">
+      <p className="hint">
+        Drag on the page to draw a redaction box. Drag a box to move it, use its corner handles to resize, and press
+        Delete (or ×) to remove the selected box. Search matches are outlined in red and can be kept or redacted below.
+      </p>
+      <FilePicker accept=".pdf,application/pdf" onFiles={onFiles} />
+      {error ? <p className="hint">{error}</p> : null}
+      {doc ? (
+        <>
+          <div className="row">
+            <button onClick={() => goToPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </button>
+            <span className="hint">
+              Page {page} of {pageCount}
+            </span>
+            <button onClick={() => goToPage(page + 1)} disabled={page >= pageCount}>
+              Next
+            </button>
+            <button onClick={() => setBoxes(boxes.filter((box) => box.page !== page))} disabled={!pageBoxes.length}>
+              Clear page
+            </button>
+          </div>
+          <BoxEditor
+            image={image}
+            page={page}
+            boxes={boxes}
+            onChange={setBoxes}
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+            boxClassName="box-editor-box redaction"
+            overlays={overlays}
+          />
+          <p className="hint">
+            {redactionBoxes.length} box{redactionBoxes.length === 1 ? '' : 'es'} in total
+            {pagesWithBoxes.length ? ` on page${pagesWithBoxes.length === 1 ? '' : 's'} ${pagesWithBoxes.join(', ')}` : ''}.
+          </p>
+        </>
+      ) : null}
+      <div className="config-panel">
+        <p className="hint"><strong>Search and redact</strong></p>
+        <div className="row">
+          {PRESETS.map((preset) => (
+            <label key={preset.value} className="inline-option">
+              <input
+                type="checkbox"
+                checked={presets.includes(preset.value)}
+                onChange={(e) => togglePreset(preset.value, e.target.checked)}
+              />
+              {preset.label}
+            </label>
+          ))}
+        </div>
+        <textarea
+          title="Search terms"
+          placeholder="Search terms, one per line"
+          value={terms}
+          onChange={(e) => setTerms(e.target.value)}
+        />
+        <textarea
+          title="Regular expressions"
+          placeholder="Regular expressions, one per line, e.g. ACME-\d{6}"
+          value={patterns}
+          onChange={(e) => setPatterns(e.target.value)}
+        />
+        <div className="row">
+          <label className="inline-option">
+            <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} />
+            Case sensitive
+          </label>
+          <button
+            onClick={search}
+            disabled={!file || busy || (!presets.length && !splitLines(terms).length && !splitLines(patterns).length)}
+          >
+            Find matches
+          </button>
+          <button onClick={() => setKept([])} disabled={!matches.length}>
+            Redact all
+          </button>
+          <button onClick={() => setKept(matches.map((match) => match.id))} disabled={!matches.length}>
+            Keep all
+          </button>
+        </div>
+        {matches.length ? (
+          <div className="match-table">
+            <div className="status-head">Redact</div>
+            <div className="status-head">Page</div>
+            <div className="status-head">Rule</div>
+            <div className="status-head">Match</div>
+            {matches.map((match) => (
+              <Fragment key={match.id}>
+                <div>
+                  <input
+                    type="checkbox"
+                    title="Redact this match"
+                    checked={!kept.includes(match.id)}
+                    onChange={(e) => toggleKept(match.id, e.target.checked)}
+                  />
+                </div>
+                <div>
+                  <button className="link-button" onClick={() => goToPage(match.page)}>
+                    {match.page}
+                  </button>
+                </div>
+                <div>{match.rule}</div>
+                <div>{match.text}</div>
+              </Fragment>
+            ))}
+          </div>
+        ) : null}
+      </div>
+      <div className="row">
+        <select title="Redaction mode" value={mode} onChange={(e) => setMode(e.target.value as RedactionMode)}>
+          {MODES.map((entry) => (
+            <option key={entry.value} value={entry.value}>
+              {entry.label}
+            </option>
+          ))}
+        </select>
+        <button onClick={run} disabled={!file || busy || !redactionBoxes.length}>
+          Redact
+        </button>
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+    </ToolShell>
+  )
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import { saveAs } from 'file-saver'
+import { PDFDocument, degrees } from 'pdf-lib'
+import { BackendJob, FilePicker, ToolShell, describeBackendJob, runBackendJob, toBytes, toPdfBlob } from './shared'
+import { PageRangeInput, parsePageIndices } from './pageRanges'
+import { canvasToBlob, openPdf, renderPage } from './pdfjs'
+
+type RotateMode = 'manual' | 'auto'
+
+type Orientation = { rotate: number; confidence: number; script: string | null } | null
+
+const ANGLES = [
+  { value: 90, label: '90° clockwise' },
+  { value: 180, label: '180°' },
+  { value: 270, label: '90° counter-clockwise' }
+]
+
+const CONFIDENCE_LEVELS = [
+  { value: 1, label: 'Fix any detected orientation' },
+  { value: 3, label: 'Fix confident detections' },
+  { value: 6, label: 'Fix only very confident detections' }
+]
+
+// Pages are rendered around 200 dpi, enough for OSD, and uploaded in small
+// batches so long documents do not turn into one huge request. Each batch is
+// a server job; onProgress also receives its queue state while it runs.
+const DETECT_SCALE = 2.8
+const DETECT_BATCH = 8
+
+function normalizeAngle(angle: number) {
+  return ((angle % 360) + 360) % 360
+}
+
+async function detectPageOrientations(
+  file: File,
+  indices: number[],
+  onProgress: (done: number, job?: BackendJob) => void
+) {
+  const pdf = await openPdf(file)
+  try {
+    const results: Orientation[] = []
+    for (let start = 0; start < indices.length; start += DETECT_BATCH) {
+      const form = new FormData()
+      for (const index of indices.slice(start, start + DETECT_BATCH)) {
+        const blob = await canvasToBlob(await renderPage(pdf, index + 1, DETECT_SCALE), 'image/jpeg', 0.85)
+        if (!blob) throw new Error(`Could not render page ${index + 1}`)
+        form.append('pages', blob, `page-${index + 1}.jpg`)
+      }
+      const response = await runBackendJob('/api/ocr/orientation', form, (job) => onProgress(start, job))
+      const payload = (await response.json()) as { pages?: Orientation[] }
+      results.push(...(payload.pages || []))
+      onProgress(Math.min(indices.length, start + DETECT_BATCH))
+    }
+    return results
+  } finally {
+    void pdf.destroy()
+  }
+}
+
+export function RotateTool() {
+  const [file, setFile] = useState<File | null>(null)
+  const [mode, setMode] = useState<RotateMode>('manual')
+  const [angle, setAngle] = useState(90)
+  const [minConfidence, setMinConfidence] = useState(3)
+  const [pages, setPages] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+
+  const run = async () => {
+    if (!file) return
+    setBusy(true)
+    setStatus('Processing...')
+    try {
+      const doc = await PDFDocument.load(await toBytes(file))
+      const indices = parsePageIndices(pages, doc.getPageCount())
+      // Rotation is added to each page's existing /Rotate rather than
+      // replacing it, so already-rotated pages turn by the same amount.
+      const turn = (index: number, by: number) => {
+        const page = doc.getPage(index)
+        page.setRotation(degrees(normalizeAngle(page.getRotation().angle + by)))
+      }
+
+      if (mode === 'manual') {
+        indices.forEach((index) => turn(index, angle))
+        saveAs(toPdfBlob(await doc.save()), 'rotated.pdf')
+        setStatus(`Done: rotated ${indices.length} page${indices.length === 1 ? '' : 's'}.`)
+        return
+      }
+
+      const orientations = await detectPageOrientations(file, indices, (done, job) =>
+        setStatus(`Detecting orientation: ${done} of ${indices.length} pages${job ? `. ${describeBackendJob(job)}` : '...'}`)
+      )
+      const fixed: string[] = []
+      let unsure = 0
+      orientations.forEach((orientation, position) => {
+        if (!orientation || orientation.confidence < minConfidence) {
+          unsure += 1
+          return
+        }
+        if (orientation.rotate === 0) return
+        turn(indices[position], orientation.rotate)
+        fixed.push(`${indices[position] + 1} (${orientation.rotate}°)`)
+      })
+      const skipped = unsure ? ` ${unsure} page${unsure === 1 ? '' : 's'} left as is: no confident detection.` : ''
+      if (!fixed.length) {
+        setStatus(`No pages needed rotating.${skipped}`)
+        return
+      }
+      saveAs(toPdfBlob(await doc.save()), 'rotated.pdf')
+      setStatus(`Done: rotated page${fixed.length === 1 ? '' : 's'} ${fixed.join(', ')}.${skipped}`)
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Rotation failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <ToolShell title="Rotate PDF">
+      <p className="hint">
+        Rotation is added to each selected page's current orientation. Auto-orientation renders the selected pages and
+        uses Tesseract on the server to find sideways or upside-down scans; pages with too little text are left alone.
+      </p>
+      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
+      <div className="row">
+        <select title="Rotation mode" value={mode} onChange={(e) => setMode(e.target.value as RotateMode)}>
+          <option value="manual">Rotate by</option>
+          <option value="auto">Auto-orient scanned pages</option>
+        </select>
+        {mode === 'manual' ? (
+          <select title="Rotation angle" value={angle} onChange={(e) => setAngle(Number(e.target.value))}>
+            {ANGLES.map((entry) => (
+              <option key={entry.value} value={entry.value}>
+                {entry.label}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <select
+            title="Detection confidence"
+            value={minConfidence}
+            onChange={(e) => setMinConfidence(Number(e.target.value))}
+          >
+            {CONFIDENCE_LEVELS.map((level) => (
+              <option key={level.value} value={level.value}>
+                {level.label}
+              </option>
+            ))}
+          </select>
+        )}
+        <PageRangeInput value={pages} onChange={setPages} />
+        <button onClick={run} disabled={!file || busy}>
+          Rotate
+        </button>
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+    </ToolShell>
+  )
+}
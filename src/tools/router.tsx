@@ -1,88 +1,91 @@
-import { ReactNode, useMemo, useState } from 'react'
+import { useState } from 'react'
 import { saveAs } from 'file-saver'
-import { PDFDocument, StandardFonts, rgb, degrees } from 'pdf-lib'
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib'
 import JSZip from 'jszip'
-import { apiUrl } from '../config/api'
-
-function toBytes(file: File) {
-  return file.arrayBuffer()
-}
-
-function toPdfBlob(bytes: Uint8Array<ArrayBufferLike>) {
-  return new Blob([new Uint8Array(bytes)], { type: 'application/pdf' })
-}
-
-function slugifyName(value: string) {
-  return value.toLowerCase().replace(/\s+/g, '-')
-}
-
-function readImages(files: File[]) {
-  return Promise.all(
-    files.map(
-      (file) =>
-        new Promise<string>((resolve, reject) => {
-          const reader = new FileReader()
-          reader.onload = () => resolve(String(reader.result || ''))
-          reader.onerror = () => reject(reader.error)
-          reader.readAsDataURL(file)
-        })
-    )
-  )
-}
-
-function FilePicker({
-  accept,
-  multiple,
-  onFiles
-}: {
-  accept: string
-  multiple?: boolean
-  onFiles: (files: File[]) => void
-}) {
-  return (
-    <input
-      type="file"
-      title="Select file"
-      accept={accept}
-      multiple={multiple}
-      onChange={(e) => onFiles(Array.from(e.target.files || []))}
-    />
-  )
-}
-
-function ToolShell({ title, children }: { title: string; children: ReactNode }) {
-  return (
-    <section className="tool-page">
-      <h2>{title}</h2>
-      {children}
-    </section>
+import {
+  BackendJob,
+  FilePicker,
+  ToolShell,
+  describeBackendJob,
+  readImages,
+  runBackendJob,
+  slugifyName,
+  toBytes,
+  toPdfBlob
+} from './shared'
+import { canvasToBlob, openPdf, renderPage } from './pdfjs'
+import { CompareTool } from './compare'
+import { CompressTool } from './compress'
+import { CropTool } from './crop'
+import { EditPdfTool } from './editPdf'
+import { InspectTool } from './inspect'
+import { MetadataTool } from './metadata'
+import { ExtractPagesTool, OrganizeTool } from './organize'
+import { PageNumberTool } from './pageNumbers'
+import { PdfaTool } from './pdfa'
+import { RedactTool } from './redact'
+import { RotateTool } from './rotate'
+import { SanitizeTool } from './sanitize'
+import { SignTool } from './sign'
+import { SplitTool } from './split'
+import { TextResultTool } from './textResult'
+import { VerifySignaturesTool } from './verifySignatures'
+import { WatermarkTool } from './watermark'
+
+type BackendField =
+  | { kind: 'password' | 'text'; name: string; label: string; required?: boolean }
+  | { kind: 'select'; name: string; label: string; options: { value: string; label: string }[]; defaultValue: string }
+  | { kind: 'checkbox'; name: string; label: string; defaultChecked: boolean }
+
+const PROTECT_FIELDS: BackendField[] = [
+  { kind: 'password', name: 'userPassword', label: 'Open password (optional, anyone can open when empty)' },
+  { kind: 'password', name: 'ownerPassword', label: 'Owner password (lifts the restrictions)', required: true },
+  {
+    kind: 'select',
+    name: 'encryption',
+    label: 'Encryption',
+    options: [
+      { value: 'aes-256', label: 'AES-256 (Acrobat X and later)' },
+      { value: 'aes-128', label: 'AES-128 (Acrobat 7 and later)' }
+    ],
+    defaultValue: 'aes-256'
+  },
+  {
+    kind: 'select',
+    name: 'print',
+    label: 'Printing',
+    options: [
+      { value: 'full', label: 'Allow high-quality printing' },
+      { value: 'low', label: 'Allow low-resolution printing only' },
+      { value: 'none', label: 'Do not allow printing' }
+    ],
+    defaultValue: 'full'
+  },
+  { kind: 'checkbox', name: 'allowCopy', label: 'Copying text and images', defaultChecked: true },
+  { kind: 'checkbox', name: 'allowModify', label: 'Modifying', defaultChecked: true },
+  { kind: 'checkbox', name: 'allowAnnotate', label: 'Commenting', defaultChecked: true },
+  { kind: 'checkbox', name: 'allowForms', label: 'Filling in forms', defaultChecked: true },
+  { kind: 'checkbox', name: 'allowAssembly', label: 'Page assembly', defaultChecked: true },
+  { kind: 'checkbox', name: 'allowAccessibility', label: 'Text extraction for accessibility', defaultChecked: true }
+]
+
+function initialFieldValues(fields: BackendField[]) {
+  return Object.fromEntries(
+    fields.map((field) => {
+      if (field.kind === 'select') return [field.name, field.defaultValue]
+      if (field.kind === 'checkbox') return [field.name, String(field.defaultChecked)]
+      return [field.name, '']
+    })
   )
 }
 
-async function postFormData(url: string, data: FormData) {
-  const response = await fetch(apiUrl(url), {
-    method: 'POST',
-    body: data
-  })
-
-  const contentType = response.headers.get('content-type') || ''
-  if (!response.ok) {
-    if (contentType.includes('application/json')) {
-      const payload = (await response.json()) as { error?: string }
-      throw new Error(payload.error || 'Request failed')
-    }
-    throw new Error(await response.text())
-  }
-
-  return response
-}
-
 function BackendBinaryTool({
   title,
   endpoint,
   accept,
   outputName,
   includePassword = false,
+  fields = [],
   extraFields,
   note
 }: {
@@ -91,13 +94,20 @@ function BackendBinaryTool({
   accept: string
   outputName: string
   includePassword?: boolean
+  fields?: BackendField[]
   extraFields?: Record<string, string>
   note?: string
 }) {
   const [file, setFile] = useState<File | null>(null)
   const [password, setPassword] = useState('')
+  const [values, setValues] = useState<Record<string, string>>(() => initialFieldValues(fields))
   const [busy, setBusy] = useState(false)
   const [status, setStatus] = useState('')
+  const [job, setJob] = useState<BackendJob | null>(null)
+
+  const missingRequired = fields.some(
+    (field) => (field.kind === 'password' || field.kind === 'text') && field.required && !values[field.name]?.trim()
+  )
 
   const run = async () => {
     if (!file) return
@@ -109,10 +119,14 @@ function BackendBinaryTool({
       if (includePassword) {
         data.append('password', password)
       }
+      Object.entries(values).forEach(([key, value]) => data.append(key, value))
       if (extraFields) {
         Object.entries(extraFields).forEach(([key, value]) => data.append(key, value))
       }
-      const response = await postFormData(endpoint, data)
+      const response = await runBackendJob(endpoint, data, (update) => {
+        setJob(update)
+        setStatus(describeBackendJob(update))
+      })
       const blob = await response.blob()
       saveAs(blob, outputName)
       setStatus('Done')
@@ -120,6 +134,7 @@ function BackendBinaryTool({
       setStatus(error instanceof Error ? error.message : 'Failed')
     } finally {
       setBusy(false)
+      setJob(null)
     }
   }
 
@@ -138,62 +153,53 @@ function BackendBinaryTool({
           />
         </div>
       ) : null}
+      {fields.map((field) => {
+        const setValue = (value: string) => setValues((current) => ({ ...current, [field.name]: value }))
+        if (field.kind === 'checkbox') {
+          return (
+            <label key={field.name} className="inline-option">
+              <input
+                type="checkbox"
+                checked={values[field.name] === 'true'}
+                onChange={(e) => setValue(String(e.target.checked))}
+              />
+              {field.label}
+            </label>
+          )
+        }
+        return (
+          <div key={field.name} className="row">
+            {field.kind === 'select' ? (
+              <select title={field.label} value={values[field.name]} onChange={(e) => setValue(e.target.value)}>
+                {field.options.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type={field.kind}
+                title={field.label}
+                placeholder={field.label}
+                value={values[field.name]}
+                onChange={(e) => setValue(e.target.value)}
+              />
+            )}
+          </div>
+        )
+      })}
       <div className="row">
-        <button onClick={run} disabled={!file || busy || (includePassword && !password.trim())}>
+        <button onClick={run} disabled={!file || busy || (includePassword && !password.trim()) || missingRequired}>
           Run
         </button>
       </div>
+      {job?.progress ? <progress className="job-progress" max={job.progress.total} value={job.progress.done} /> : null}
       {status ? <p className="hint">{status}</p> : null}
     </ToolShell>
   )
 }
 
-function TextResultTool({ title, endpoint, accept, note }: { title: string; endpoint: string; accept: string; note?: string }) {
-  const [file, setFile] = useState<File | null>(null)
-  const [busy, setBusy] = useState(false)
-  const [text, setText] = useState('')
-  const [status, setStatus] = useState('')
-
-  const run = async () => {
-    if (!file) return
-    setBusy(true)
-    setStatus('Processing...')
-    try {
-      const form = new FormData()
-      form.append('file', file)
-      const response = await postFormData(endpoint, form)
-      const payload = (await response.json()) as { text?: string }
-      setText(payload.text || '')
-      setStatus('Done')
-    } catch (error) {
-      setStatus(error instanceof Error ? error.message : 'Failed')
-    } finally {
-      setBusy(false)
-    }
-  }
-
-  const saveText = () => {
-    saveAs(new Blob([text], { type: 'text/plain;charset=utf-8' }), `${slugifyName(title)}.txt`)
-  }
-
-  return (
-    <ToolShell title={title}>
-      {note ? <p className="hint">{note}</p> : null}
-      <FilePicker accept={accept} onFiles={(files) => setFile(files[0] || null)} />
-      <div className="row">
-        <button onClick={run} disabled={!file || busy}>
-          Extract
-        </button>
-        <button onClick={saveText} disabled={!text}>
-          Download TXT
-        </button>
-      </div>
-      {status ? <p className="hint">{status}</p> : null}
-      {text ? <textarea title="Extracted text" value={text} onChange={(e) => setText(e.target.value)} /> : null}
-    </ToolShell>
-  )
-}
-
 function NoticeTool({ title, message }: { title: string; message: string }) {
   return (
     <ToolShell title={title}>
@@ -202,109 +208,6 @@ function NoticeTool({ title, message }: { title: string; message: string }) {
   )
 }
 
-function CropTool() {
-  const [file, setFile] = useState<File | null>(null)
-  const [marginPercent, setMarginPercent] = useState(5)
-
-  const run = async () => {
-    if (!file) return
-    const doc = await PDFDocument.load(await toBytes(file))
-    doc.getPages().forEach((page) => {
-      const { width, height } = page.getSize()
-      const marginX = (width * marginPercent) / 100
-      const marginY = (height * marginPercent) / 100
-      const cropWidth = Math.max(1, width - marginX * 2)
-      const cropHeight = Math.max(1, height - marginY * 2)
-      page.setCropBox(marginX, marginY, cropWidth, cropHeight)
-    })
-    saveAs(toPdfBlob(await doc.save()), 'cropped.pdf')
-  }
-
-  return (
-    <ToolShell title="Crop PDF">
-      <p className="hint">Applies equal crop margin to all pages.</p>
-      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
-      <div className="row">
-        <input
-          type="number"
-          title="Crop margin percent"
-          min={0}
-          max={40}
-          value={marginPercent}
-          onChange={(e) => setMarginPercent(Math.min(40, Math.max(0, Number(e.target.value) || 0)))}
-        />
-        <button onClick={run} disabled={!file}>
-          Crop
-        </button>
-      </div>
-    </ToolShell>
-  )
-}
-
-function RedactTool() {
-  const [file, setFile] = useState<File | null>(null)
-  const [rules, setRules] = useState('1,0.1,0.2,0.6,0.1')
-  const [busy, setBusy] = useState(false)
-  const [status, setStatus] = useState('')
-
-  const parseRules = () => {
-    const entries = rules
-      .split('\n')
-      .map((line) => line.trim())
-      .filter(Boolean)
-      .map((line) => line.split(',').map((item) => Number(item.trim())))
-      .filter((parts) => parts.length === 5 && parts.every((n) => Number.isFinite(n)))
-      .map(([page, x, y, width, height]) => ({ page, x, y, width, height }))
-
-    return entries
-  }
-
-  const run = async () => {
-    if (!file) return
-    const redactions = parseRules()
-    if (!redactions.length) {
-      setStatus('Enter at least one valid rule.')
-      return
-    }
-
-    setBusy(true)
-    setStatus('Processing...')
-    try {
-      const form = new FormData()
-      form.append('file', file)
-      form.append('redactions', JSON.stringify(redactions))
-
-      const response = await postFormData('/api/redact-pdf', form)
-      saveAs(await response.blob(), 'redacted.pdf')
-      setStatus('Done')
-    } catch (error) {
-      setStatus(error instanceof Error ? error.message : 'Redaction failed')
-    } finally {
-      setBusy(false)
-    }
-  }
-
-  return (
-    <ToolShell title="Redact PDF">
-      <p className="hint">Rule format per line: page,x,y,width,height (normalized 0..1 from top-left).</p>
-      <p className="hint">Example: 1,0.1,0.2,0.6,0.1</p>
-      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
-      <textarea
-        title="Redaction rules"
-        placeholder="1,0.1,0.2,0.6,0.1"
-        value={rules}
-        onChange={(e) => setRules(e.target.value)}
-      />
-      <div className="row">
-        <button onClick={run} disabled={!file || busy}>
-          Redact
-        </button>
-      </div>
-      {status ? <p className="hint">{status}</p> : null}
-    </ToolShell>
-  )
-}
-
 function ScanToPdfTool() {
   const [files, setFiles] = useState<File[]>([])
   const [busy, setBusy] = useState(false)
@@ -371,276 +274,6 @@ function MergeTool() {
   )
 }
 
-function SplitTool() {
-  const [file, setFile] = useState<File | null>(null)
-  const [mode, setMode] = useState<'single' | 'range'>('single')
-  const [range, setRange] = useState('1-1')
-
-  const run = async () => {
-    if (!file) return
-    const src = await PDFDocument.load(await toBytes(file))
-    if (mode === 'single') {
-      const zip = new JSZip()
-      for (let index = 0; index < src.getPageCount(); index += 1) {
-        const out = await PDFDocument.create()
-        const [copied] = await out.copyPages(src, [index])
-        out.addPage(copied)
-        zip.file(`page-${index + 1}.pdf`, await out.save())
-      }
-      saveAs(await zip.generateAsync({ type: 'blob' }), 'split-pages.zip')
-      return
-    }
-
-    const [startRaw, endRaw] = range.split('-')
-    const start = Math.max(1, Number(startRaw || 1))
-    const end = Math.min(src.getPageCount(), Number(endRaw || src.getPageCount()))
-    const out = await PDFDocument.create()
-    const indices = Array.from({ length: Math.max(0, end - start + 1) }, (_, i) => i + start - 1)
-    const copied = await out.copyPages(src, indices)
-    copied.forEach((p) => out.addPage(p))
-    saveAs(toPdfBlob(await out.save()), `pages-${start}-${end}.pdf`)
-  }
-
-  return (
-    <ToolShell title="Split PDF">
-      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
-      <div className="row">
-        <select title="Split mode" value={mode} onChange={(e) => setMode(e.target.value as 'single' | 'range')}>
-          <option value="single">Every page to separate file</option>
-          <option value="range">Custom page range</option>
-        </select>
-        {mode === 'range' ? <input value={range} onChange={(e) => setRange(e.target.value)} placeholder="1-5" /> : null}
-        <button onClick={run} disabled={!file}>
-          Split
-        </button>
-      </div>
-    </ToolShell>
-  )
-}
-
-function RotateTool() {
-  const [file, setFile] = useState<File | null>(null)
-  const [angle, setAngle] = useState(90)
-
-  const run = async () => {
-    if (!file) return
-    const doc = await PDFDocument.load(await toBytes(file))
-    doc.getPages().forEach((page) => {
-      page.setRotation(degrees(angle))
-    })
-    saveAs(toPdfBlob(await doc.save()), 'rotated.pdf')
-  }
-
-  return (
-    <ToolShell title="Rotate PDF">
-      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
-      <div className="row">
-        <select title="Rotation angle" value={angle} onChange={(e) => setAngle(Number(e.target.value))}>
-          <option value={90}>90°</option>
-          <option value={180}>180°</option>
-          <option value={270}>270°</option>
-        </select>
-        <button onClick={run} disabled={!file}>
-          Rotate
-        </button>
-      </div>
-    </ToolShell>
-  )
-}
-
-function OrganizeTool({ removeOnly = false }: { removeOnly?: boolean }) {
-  const [file, setFile] = useState<File | null>(null)
-  const [order, setOrder] = useState('1,2,3')
-
-  const run = async () => {
-    if (!file) return
-    const src = await PDFDocument.load(await toBytes(file))
-    const out = await PDFDocument.create()
-    const max = src.getPageCount()
-    const chosen = order
-      .split(',')
-      .map((value) => Number(value.trim()))
-      .filter((value) => Number.isFinite(value) && value >= 1 && value <= max)
-      .map((value) => value - 1)
-
-    const finalIndices = removeOnly
-      ? Array.from({ length: max }, (_, index) => index).filter((index) => !chosen.includes(index))
-      : chosen
-
-    const pages = await out.copyPages(src, finalIndices)
-    pages.forEach((page) => out.addPage(page))
-    saveAs(toPdfBlob(await out.save()), removeOnly ? 'removed-pages.pdf' : 'organized.pdf')
-  }
-
-  return (
-    <ToolShell title={removeOnly ? 'Remove Pages' : 'Organize PDF'}>
-      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
-      <p className="hint">
-        {removeOnly
-          ? 'Enter page numbers to remove (comma-separated), e.g. 2,5'
-          : 'Enter desired page order (comma-separated), e.g. 3,1,2'}
-      </p>
-      <div className="row">
-        <input title="Page list" placeholder="1,2,3" value={order} onChange={(e) => setOrder(e.target.value)} />
-        <button onClick={run} disabled={!file}>
-          Apply
-        </button>
-      </div>
-    </ToolShell>
-  )
-}
-
-function ExtractPagesTool() {
-  const [file, setFile] = useState<File | null>(null)
-  const [pages, setPages] = useState('1,2')
-
-  const run = async () => {
-    if (!file) return
-    const src = await PDFDocument.load(await toBytes(file))
-    const out = await PDFDocument.create()
-    const max = src.getPageCount()
-    const indices = pages
-      .split(',')
-      .map((value) => Number(value.trim()))
-      .filter((value) => Number.isFinite(value) && value >= 1 && value <= max)
-      .map((value) => value - 1)
-    const copied = await out.copyPages(src, indices)
-    copied.forEach((p) => out.addPage(p))
-    saveAs(toPdfBlob(await out.save()), 'extracted-pages.pdf')
-  }
-
-  return (
-    <ToolShell title="Extract Pages">
-      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
-      <div className="row">
-        <input value={pages} onChange={(e) => setPages(e.target.value)} placeholder="1,3,5" />
-        <button onClick={run} disabled={!file}>
-          Extract
-        </button>
-      </div>
-    </ToolShell>
-  )
-}
-
-function CompressTool() {
-  const [file, setFile] = useState<File | null>(null)
-
-  const run = async () => {
-    if (!file) return
-    const src = await PDFDocument.load(await toBytes(file))
-    const saved = await src.save({ useObjectStreams: true })
-    saveAs(toPdfBlob(saved), 'compressed.pdf')
-  }
-
-  return (
-    <ToolShell title="Compress PDF">
-      <p className="hint">Uses lightweight object stream optimization in-browser.</p>
-      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
-      <div className="row">
-        <button onClick={run} disabled={!file}>
-          Compress
-        </button>
-      </div>
-    </ToolShell>
-  )
-}
-
-function WatermarkTool() {
-  const [file, setFile] = useState<File | null>(null)
-  const [text, setText] = useState('CONFIDENTIAL')
-
-  const run = async () => {
-    if (!file) return
-    const doc = await PDFDocument.load(await toBytes(file))
-    const font = await doc.embedFont(StandardFonts.Helvetica)
-    doc.getPages().forEach((page) => {
-      const { width, height } = page.getSize()
-      page.drawText(text, {
-        x: width * 0.2,
-        y: height * 0.45,
-        size: 36,
-        font,
-        rotate: degrees(35),
-        color: rgb(0.8, 0.1, 0.1),
-        opacity: 0.25
-      })
-    })
-    saveAs(toPdfBlob(await doc.save()), 'watermarked.pdf')
-  }
-
-  return (
-    <ToolShell title="Add Watermark">
-      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
-      <div className="row">
-        <input value={text} onChange={(e) => setText(e.target.value)} placeholder="Watermark text" />
-        <button onClick={run} disabled={!file || !text.trim()}>
-          Add Watermark
-        </button>
-      </div>
-    </ToolShell>
-  )
-}
-
-function PageNumberTool() {
-  const [file, setFile] = useState<File | null>(null)
-
-  const run = async () => {
-    if (!file) return
-    const doc = await PDFDocument.load(await toBytes(file))
-    const font = await doc.embedFont(StandardFonts.Helvetica)
-    const total = doc.getPageCount()
-    doc.getPages().forEach((page, index) => {
-      const { width } = page.getSize()
-      page.drawText(`${index + 1}/${total}`, {
-        x: width - 70,
-        y: 18,
-        size: 11,
-        font,
-        color: rgb(0.15, 0.15, 0.15)
-      })
-    })
-    saveAs(toPdfBlob(await doc.save()), 'numbered.pdf')
-  }
-
-  return (
-    <ToolShell title="Add Page Numbers">
-      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
-      <div className="row">
-        <button onClick={run} disabled={!file}>
-          Add Page Numbers
-        </button>
-      </div>
-    </ToolShell>
-  )
-}
-
-function MetadataTool() {
-  const [file, setFile] = useState<File | null>(null)
-  const [title, setTitle] = useState('')
-  const [author, setAuthor] = useState('')
-
-  const run = async () => {
-    if (!file) return
-    const doc = await PDFDocument.load(await toBytes(file))
-    if (title) doc.setTitle(title)
-    if (author) doc.setAuthor(author)
-    saveAs(toPdfBlob(await doc.save()), 'metadata-updated.pdf')
-  }
-
-  return (
-    <ToolShell title="Edit PDF Metadata">
-      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
-      <div className="row">
-        <input placeholder="Title" value={title} onChange={(e) => setTitle(e.target.value)} />
-        <input placeholder="Author" value={author} onChange={(e) => setAuthor(e.target.value)} />
-        <button onClick={run} disabled={!file}>
-          Save Metadata
-        </button>
-      </div>
-    </ToolShell>
-  )
-}
-
 function JpgToPdfTool() {
   const [files, setFiles] = useState<File[]>([])
 
@@ -710,23 +343,12 @@ function PdfToJpgTool() {
   const run = async () => {
     if (!file) return
     setBusy(true)
-    const pdfjs = await import('pdfjs-dist')
-    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString()
-
-    const bytes = await file.arrayBuffer()
-    const doc = await pdfjs.getDocument({ data: bytes }).promise
+    const doc = await openPdf(file)
     const zip = new JSZip()
 
     for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber += 1) {
-      const page = await doc.getPage(pageNumber)
-      const viewport = page.getViewport({ scale: 2 })
-      const canvas = document.createElement('canvas')
-      const context = canvas.getContext('2d')
-      if (!context) continue
-      canvas.width = Math.floor(viewport.width)
-      canvas.height = Math.floor(viewport.height)
-      await page.render({ canvasContext: context, viewport }).promise
-      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.92))
+      const canvas = await renderPage(doc, pageNumber, 2)
+      const blob = await canvasToBlob(canvas, 'image/jpeg', 0.92)
       if (blob) {
         zip.file(`page-${pageNumber}.jpg`, blob)
       }
@@ -748,57 +370,6 @@ function PdfToJpgTool() {
   )
 }
 
-function CompareTool() {
-  const [files, setFiles] = useState<File[]>([])
-  const info = useMemo(() => {
-    if (files.length !== 2) return ''
-    return `${files[0].name} (${Math.round(files[0].size / 1024)} KB) vs ${files[1].name} (${Math.round(files[1].size / 1024)} KB)`
-  }, [files])
-
-  return (
-    <ToolShell title="Compare PDF">
-      <FilePicker accept=".pdf,application/pdf" multiple onFiles={setFiles} />
-      <p className="hint">
-        Browser mode comparison shows file-size/name diff. For visual page-by-page diff, connect this route to a backend
-        diff engine.
-      </p>
-      {info ? <p>{info}</p> : null}
-    </ToolShell>
-  )
-}
-
-function SignTool() {
-  const [file, setFile] = useState<File | null>(null)
-  const [signText, setSignText] = useState('Signed electronically')
-
-  const run = async () => {
-    if (!file) return
-    const doc = await PDFDocument.load(await toBytes(file))
-    const font = await doc.embedFont(StandardFonts.HelveticaOblique)
-    const page = doc.getPages()[doc.getPageCount() - 1]
-    page.drawText(signText, {
-      x: 40,
-      y: 40,
-      size: 14,
-      font,
-      color: rgb(0, 0, 0.6)
-    })
-    saveAs(toPdfBlob(await doc.save()), 'signed.pdf')
-  }
-
-  return (
-    <ToolShell title="Sign PDF">
-      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
-      <div className="row">
-        <input title="Signature text" placeholder="Signature text" value={signText} onChange={(e) => setSignText(e.target.value)} />
-        <button onClick={run} disabled={!file}>
-          Sign
-        </button>
-      </div>
-    </ToolShell>
-  )
-}
-
 function WordToPdfTool() {
   const [file, setFile] = useState<File | null>(null)
   const [textPreview, setTextPreview] = useState('')
@@ -945,12 +516,7 @@ export function ToolRouter({ slug }: { slug: string }) {
     case 'crop-pdf':
       return <CropTool />
     case 'edit-pdf':
-      return (
-        <NoticeTool
-          title="Edit PDF"
-          message="Full text/object-level PDF editing needs a dedicated editor engine. You can currently use rotate, crop, watermark, page numbers, metadata, and sign tools in this app."
-        />
-      )
+      return <EditPdfTool />
     case 'edit-metadata':
       return <MetadataTool />
     case 'unlock-pdf':
@@ -970,11 +536,17 @@ export function ToolRouter({ slug }: { slug: string }) {
           title="Protect PDF"
           endpoint="/api/protect-pdf"
           accept=".pdf,application/pdf"
-          includePassword
+          fields={PROTECT_FIELDS}
           outputName="protected.pdf"
-          note="Requires qpdf installed on your machine or QPDF_PATH configured."
+          note="Unticked permissions are restricted until the owner password is entered. Requires qpdf installed on your machine or QPDF_PATH configured."
         />
       )
+    case 'inspect-pdf':
+      return <InspectTool />
+    case 'sanitize-pdf':
+      return <SanitizeTool />
+    case 'verify-signatures':
+      return <VerifySignaturesTool />
     case 'jpg-to-pdf':
       return <JpgToPdfTool />
     case 'word-to-pdf':
@@ -1032,12 +604,7 @@ export function ToolRouter({ slug }: { slug: string }) {
     case 'pdf-to-text':
       return <TextResultTool title="PDF to Text" endpoint="/api/pdf-to-text" accept=".pdf,application/pdf" />
     case 'pdf-to-pdfa':
-      return (
-        <NoticeTool
-          title="PDF to PDF/A"
-          message="PDF/A conversion requires a compliance conversion engine (typically Ghostscript/LibreOffice profiles). This route is included and ready for backend wiring."
-        />
-      )
+      return <PdfaTool />
     case 'redact-pdf':
       return <RedactTool />
     case 'translate-pdf':
@@ -1063,7 +630,8 @@ export function ToolRouter({ slug }: { slug: string }) {
           title="OCR PDF"
           endpoint="/api/ocr"
           accept=".pdf,application/pdf,image/*"
-          note="Best results with scanned image files; OCR runs via backend Tesseract.js."
+          note="OCR runs via backend Tesseract.js. Searchable PDF output keeps every page as it looks and adds an invisible, selectable text layer; PDFs need pdftoppm on the server."
+          ocr
         />
       )
     case 'scan-to-pdf':
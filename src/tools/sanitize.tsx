@@ -0,0 +1,132 @@
+import { useState } from 'react'
+import { saveAs } from 'file-saver'
+import { BackendJob, FilePicker, ToolShell, describeBackendJob, runBackendJob } from './shared'
+
+type SanitizeCategory = 'javascript' | 'actions' | 'links' | 'attachments' | 'xfa' | 'hiddenLayers' | 'annotations'
+
+type SanitizeReport = {
+  options: Record<SanitizeCategory, boolean>
+  removed: { category: SanitizeCategory; detail: string }[]
+  counts: Record<SanitizeCategory, number>
+  total: number
+  decrypted: boolean
+}
+
+const CATEGORIES: { key: SanitizeCategory; label: string; hint: string; defaultChecked: boolean }[] = [
+  { key: 'javascript', label: 'JavaScript', hint: 'document scripts and script actions', defaultChecked: true },
+  {
+    key: 'actions',
+    label: 'Automatic and outside actions',
+    hint: 'OpenAction, trigger (AA) actions, Launch, remote files and form submission',
+    defaultChecked: true
+  },
+  { key: 'links', label: 'Web links', hint: 'URI actions', defaultChecked: true },
+  { key: 'attachments', label: 'Embedded files', hint: 'attachments and portfolios', defaultChecked: true },
+  { key: 'xfa', label: 'XFA forms', hint: 'the XML form layer; AcroForm fields stay', defaultChecked: true },
+  {
+    key: 'hiddenLayers',
+    label: 'Hidden layers',
+    hint: 'content in layers that are off; visible layers are merged',
+    defaultChecked: true
+  },
+  { key: 'annotations', label: 'Annotations', hint: 'comments, markup and links; form fields stay', defaultChecked: false }
+]
+
+export function SanitizeTool() {
+  const [file, setFile] = useState<File | null>(null)
+  const [password, setPassword] = useState('')
+  const [selected, setSelected] = useState<Record<SanitizeCategory, boolean>>(
+    () => Object.fromEntries(CATEGORIES.map((entry) => [entry.key, entry.defaultChecked])) as Record<SanitizeCategory, boolean>
+  )
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+  const [job, setJob] = useState<BackendJob | null>(null)
+  const [report, setReport] = useState<SanitizeReport | null>(null)
+
+  const run = async () => {
+    if (!file) return
+    setBusy(true)
+    setStatus('Processing...')
+    setReport(null)
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      CATEGORIES.forEach((entry) => form.append(entry.key, String(selected[entry.key])))
+      if (password) form.append('password', password)
+      const response = await runBackendJob('/api/sanitize-pdf', form, (update) => {
+        setJob(update)
+        setStatus(describeBackendJob(update))
+      })
+      const header = response.headers.get('X-Sanitize-Report')
+      saveAs(await response.blob(), `${file.name.replace(/\.pdf$/i, '')}-sanitized.pdf`)
+      const result = header ? (JSON.parse(header) as SanitizeReport) : null
+      setReport(result)
+      if (!result) {
+        setStatus('Done')
+      } else {
+        const removed = result.total ? `removed ${result.total} item${result.total === 1 ? '' : 's'}` : 'nothing to remove'
+        setStatus(`Done: ${removed}${result.decrypted ? '. The file was decrypted; protect it again if needed.' : '.'}`)
+      }
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Sanitizing failed')
+    } finally {
+      setBusy(false)
+      setJob(null)
+    }
+  }
+
+  return (
+    <ToolShell title="Sanitize PDF">
+      <p className="hint">
+        Removes content that can act on its own or hide from view in files from untrusted sources, and lists exactly what
+        was taken out. Page text, images and form fields are kept. Encrypted files are decrypted with qpdf on the server
+        first.
+      </p>
+      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
+      <div className="sanitize-options">
+        {CATEGORIES.map((entry) => (
+          <label key={entry.key} className="inline-option">
+            <input
+              type="checkbox"
+              checked={selected[entry.key]}
+              onChange={(e) => setSelected((current) => ({ ...current, [entry.key]: e.target.checked }))}
+            />
+            {entry.label} <span className="hint">({entry.hint})</span>
+          </label>
+        ))}
+      </div>
+      <div className="row">
+        <input
+          type="password"
+          title="Password"
+          placeholder="Password (only for encrypted files)"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <button onClick={run} disabled={!file || busy || !Object.values(selected).some(Boolean)}>
+          Sanitize
+        </button>
+      </div>
+      {job?.progress ? <progress className="job-progress" max={job.progress.total} value={job.progress.done} /> : null}
+      {status ? <p className="hint">{status}</p> : null}
+      {report?.removed.length ? (
+        <ul className="pdfa-issues">
+          {CATEGORIES.filter((entry) => report.counts[entry.key]).map((entry) => (
+            <li key={entry.key}>
+              <strong>
+                {entry.label} ({report.counts[entry.key]})
+              </strong>
+              <ul className="sanitize-removed">
+                {report.removed
+                  .filter((item) => item.category === entry.key)
+                  .map((item, index) => (
+                    <li key={index}>{item.detail}</li>
+                  ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </ToolShell>
+  )
+}
@@ -0,0 +1,112 @@
+import { ReactNode } from 'react'
+import { apiUrl } from '../config/api'
+
+export function toBytes(file: File) {
+  return file.arrayBuffer()
+}
+
+export function toPdfBlob(bytes: Uint8Array<ArrayBufferLike>) {
+  return new Blob([new Uint8Array(bytes)], { type: 'application/pdf' })
+}
+
+export function slugifyName(value: string) {
+  return value.toLowerCase().replace(/\s+/g, '-')
+}
+
+export function readImages(files: File[]) {
+  return Promise.all(
+    files.map(
+      (file) =>
+        new Promise<string>((resolve, reject) => {
+          const reader = new FileReader()
+          reader.onload = () => resolve(String(reader.result || ''))
+          reader.onerror = () => reject(reader.error)
+          reader.readAsDataURL(file)
+        })
+    )
+  )
+}
+
+export function FilePicker({
+  accept,
+  multiple,
+  onFiles
+}: {
+  accept: string
+  multiple?: boolean
+  onFiles: (files: File[]) => void
+}) {
+  return (
+    <input
+      type="file"
+      title="Select file"
+      accept={accept}
+      multiple={multiple}
+      onChange={(e) => onFiles(Array.from(e.target.files || []))}
+    />
+  )
+}
+
+export function ToolShell({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="tool-page">
+      <h2>{title}</h2>
+      {children}
+    </section>
+  )
+}
+
+async function checkResponse(response: Response) {
+  const contentType = response.headers.get('content-type') || ''
+  if (!response.ok) {
+    if (contentType.includes('application/json')) {
+      const payload = (await response.json()) as { error?: string }
+      throw new Error(payload.error || 'Request failed')
+    }
+    throw new Error(await response.text())
+  }
+
+  return response
+}
+
+export async function postFormData(url: string, data: FormData) {
+  const response = await fetch(apiUrl(url), {
+    method: 'POST',
+    body: data
+  })
+
+  return checkResponse(response)
+}
+
+export type BackendJob = {
+  id: string
+  operation: string
+  status: 'queued' | 'running' | 'done' | 'failed'
+  position: number | null
+  progress: { done: number; total: number } | null
+  message: string
+  error: string | null
+}
+
+const JOB_POLL_MS = 1000
+
+export function describeBackendJob(job: BackendJob) {
+  if (job.status === 'queued') return `Queued${job.position ? ` (position ${job.position})` : ''}...`
+  const step = job.message || 'Processing'
+  return job.progress && job.progress.total > 1 ? `${step}: ${job.progress.done} of ${job.progress.total}...` : `${step}...`
+}
+
+// Submits the request as a server job and polls it until it finishes, so
+// long conversions are not cut off by proxy timeouts. Resolves with the
+// result download, which the server hands out only once.
+export async function runBackendJob(url: string, data: FormData, onUpdate?: (job: BackendJob) => void) {
+  data.append('async', 'true')
+  let job = (await (await postFormData(url, data)).json()) as BackendJob
+  while (job.status === 'queued' || job.status === 'running') {
+    onUpdate?.(job)
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_MS))
+    job = (await (await checkResponse(await fetch(apiUrl(`/api/jobs/${job.id}`)))).json()) as BackendJob
+  }
+  if (job.status === 'failed') throw new Error(job.error || 'Job failed')
+  return checkResponse(await fetch(apiUrl(`/api/jobs/${job.id}/result`)))
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react'
+import { saveAs } from 'file-saver'
+import { FilePicker, ToolShell, describeBackendJob, runBackendJob } from './shared'
+import { BoxEditor, PageBox, createBoxId } from './boxEditor'
+import { usePageImage, usePdfDocument } from './usePdfPage'
+
+type SignatureReport = {
+  field: string
+  page: number
+  signer: { commonName: string; selfSigned: boolean }
+  revision: number
+}
+
+// Matches the server's default so the preview shows where an untouched box
+// ends up: the lower right of the last page.
+const DEFAULT_BOX = { x: 0.55, y: 0.82, width: 0.38, height: 0.1 }
+
+export function SignTool() {
+  const [file, setFile] = useState<File | null>(null)
+  const [certificate, setCertificate] = useState<File | null>(null)
+  const [password, setPassword] = useState('')
+  const [reason, setReason] = useState('')
+  const [location, setLocation] = useState('')
+  const [contactInfo, setContactInfo] = useState('')
+  const [page, setPage] = useState(1)
+  const [boxes, setBoxes] = useState<PageBox[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [signed, setSigned] = useState<File | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+  const { doc, pageCount, error } = usePdfDocument(file)
+  const image = usePageImage(doc, page)
+
+  useEffect(() => {
+    if (!doc) return
+    setPage(doc.numPages)
+    setBoxes([{ ...DEFAULT_BOX, id: createBoxId(), page: doc.numPages }])
+    setSelectedId(null)
+  }, [doc])
+
+  const onFiles = (files: File[]) => {
+    setFile(files[0] || null)
+    setSigned(null)
+    setStatus('')
+  }
+
+  const goToPage = (next: number) => {
+    setPage(Math.min(pageCount, Math.max(1, next)))
+    setSelectedId(null)
+  }
+
+  // A request adds one signature, so drawing a box replaces the previous one
+  // wherever it was.
+  const onChange = (next: PageBox[]) => setBoxes(next.slice(-1))
+
+  const run = async () => {
+    if (!file || !certificate) return
+    const box = boxes[0]
+    if (!box) {
+      setStatus('Draw the box where the signature should appear.')
+      return
+    }
+    setBusy(true)
+    setStatus('Signing...')
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      form.append('certificate', certificate)
+      form.append('password', password)
+      form.append('page', String(box.page))
+      form.append('box', JSON.stringify({ x: box.x, y: box.y, width: box.width, height: box.height }))
+      if (reason.trim()) form.append('reason', reason.trim())
+      if (location.trim()) form.append('location', location.trim())
+      if (contactInfo.trim()) form.append('contactInfo', contactInfo.trim())
+      const response = await runBackendJob('/api/sign-pdf', form, (job) => setStatus(describeBackendJob(job)))
+      const header = response.headers.get('X-Signature-Report')
+      const name = `${file.name.replace(/\.pdf$/i, '').replace(/-signed$/, '')}-signed.pdf`
+      const blob = await response.blob()
+      saveAs(blob, name)
+      setSigned(new File([blob], name, { type: 'application/pdf' }))
+      const report = header ? (JSON.parse(header) as SignatureReport) : null
+      setStatus(
+        report
+          ? `Done: ${report.field} signed on page ${report.page} by ${report.signer.commonName}` +
+              `${report.signer.selfSigned ? ' (self-signed certificate, viewers will show it as untrusted)' : ''}.` +
+              `${report.revision > 1 ? ` The file now carries ${report.revision} signatures.` : ''}`
+          : 'Done'
+      )
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Signing failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <ToolShell title="Sign PDF">
+      <p className="hint">
+        Adds a digital signature (PAdES) with a certificate from a PKCS#12 file (.p12 or .pfx). The signature covers
+        the whole document as signed; later changes, including further signatures, are appended so earlier signatures
+        stay valid. Drag on the page to place the visible signature box.
+      </p>
+      <FilePicker accept=".pdf,application/pdf" onFiles={onFiles} />
+      {error ? <p className="hint">{error}</p> : null}
+      {doc ? (
+        <>
+          <div className="row">
+            <button onClick={() => goToPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </button>
+            <span className="hint">
+              Page {page} of {pageCount}
+            </span>
+            <button onClick={() => goToPage(page + 1)} disabled={page >= pageCount}>
+              Next
+            </button>
+            <span className="hint">
+              {boxes[0] ? `Signature box on page ${boxes[0].page}.` : 'No signature box yet.'}
+            </span>
+          </div>
+          <BoxEditor
+            image={image}
+            page={page}
+            boxes={boxes}
+            onChange={onChange}
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+            boxClassName="box-editor-box signature"
+            renderLabel={() => 'Signature'}
+          />
+        </>
+      ) : null}
+      <div className="config-panel">
+        <div className="row">
+          <label className="inline-option">
+            Certificate
+            <FilePicker
+              accept=".p12,.pfx,application/x-pkcs12"
+              onFiles={(files) => setCertificate(files[0] || null)}
+            />
+          </label>
+          <input
+            type="password"
+            title="Certificate password"
+            placeholder="Certificate password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </div>
+        <div className="row">
+          <input title="Reason" placeholder="Reason (optional)" value={reason} onChange={(e) => setReason(e.target.value)} />
+          <input
+            title="Location"
+            placeholder="Location (optional)"
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+          />
+          <input
+            title="Contact"
+            placeholder="Contact (optional)"
+            value={contactInfo}
+            onChange={(e) => setContactInfo(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="row">
+        <button onClick={run} disabled={!file || !certificate || !boxes.length || busy}>
+          Sign
+        </button>
+        {signed ? (
+          <button onClick={() => onFiles([signed])} disabled={busy}>
+            Add another signature to the signed file
+          </button>
+        ) : null}
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+    </ToolShell>
+  )
+}
@@ -0,0 +1,290 @@
+import { useState } from 'react'
+import { saveAs } from 'file-saver'
+import { PDFDocument } from 'pdf-lib'
+import JSZip from 'jszip'
+import { FilePicker, ToolShell, slugifyName, toBytes, toPdfBlob } from './shared'
+import { PageRangeInput, parsePageIndices } from './pageRanges'
+import { openPdf, readTopLevelBookmarks } from './pdfjs'
+
+type SplitMode = 'single' | 'range' | 'chunks' | 'ranges' | 'size' | 'bookmarks'
+
+type SplitPart = { name: string; indices: number[] }
+
+const MODES: { value: SplitMode; label: string }[] = [
+  { value: 'single', label: 'Every page to separate file' },
+  { value: 'range', label: 'Custom page range' },
+  { value: 'chunks', label: 'Every N pages' },
+  { value: 'ranges', label: 'Multiple ranges (ZIP)' },
+  { value: 'size', label: 'By maximum file size' },
+  { value: 'bookmarks', label: 'By top-level bookmarks' }
+]
+
+// Bookmark titles become file names, so letters and digits in every script
+// are kept; only characters that file systems or ZIP tools reject are removed.
+function safeFileName(value: string) {
+  const cleaned = value
+    .normalize('NFC')
+    .replace(/[<>:"/\\|?*\u0000-\u001f\u007f]+/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+  return (
+    Array.from(cleaned)
+      .slice(0, 80)
+      .join('')
+      .replace(/^[.-]+|[.-]+$/g, '') || 'part'
+  )
+}
+
+function padIndex(index: number, total: number) {
+  return String(index + 1).padStart(String(total).length, '0')
+}
+
+async function buildPart(src: PDFDocument, indices: number[]) {
+  const out = await PDFDocument.create()
+  const copied = await out.copyPages(src, indices)
+  copied.forEach((page) => out.addPage(page))
+  return out.save()
+}
+
+function chunkParts(pageCount: number, size: number): SplitPart[] {
+  const parts: SplitPart[] = []
+  for (let start = 0; start < pageCount; start += size) {
+    const indices = Array.from({ length: Math.min(size, pageCount - start) }, (_, offset) => start + offset)
+    parts.push({ name: `pages-${start + 1}-${start + indices.length}`, indices })
+  }
+  return parts
+}
+
+// One file per line, optionally named ("Chapter 1: 1-4"). A single unnamed
+// line such as "1-4,5-9,10-end" is split at its commas instead.
+function rangeParts(definition: string, pageCount: number): SplitPart[] {
+  const lines = definition
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+  const entries =
+    lines.length === 1 && !lines[0].includes(':')
+      ? lines[0].split(',').map((token) => ({ name: '', expression: token.trim() })).filter((entry) => entry.expression)
+      : lines.map((line) => {
+          const separator = line.indexOf(':')
+          return separator >= 0
+            ? { name: line.slice(0, separator).trim(), expression: line.slice(separator + 1).trim() }
+            : { name: '', expression: line }
+        })
+
+  const problems: string[] = []
+  const parts = entries.map((entry, index) => {
+    try {
+      return { name: entry.name || `pages-${entry.expression}`, indices: parsePageIndices(entry.expression, pageCount) }
+    } catch (error) {
+      problems.push(`Part ${index + 1} (${entry.name || entry.expression}): ${error instanceof Error ? error.message : 'invalid range'}`)
+      return { name: '', indices: [] }
+    }
+  })
+  if (problems.length) {
+    throw new Error(problems.join(' '))
+  }
+  if (!parts.length) {
+    throw new Error('Enter at least one page range.')
+  }
+  return parts
+}
+
+async function bookmarkParts(file: File, pageCount: number): Promise<SplitPart[]> {
+  const doc = await openPdf(file)
+  try {
+    const starts = (await readTopLevelBookmarks(doc))
+      .filter((bookmark) => bookmark.pageIndex >= 0 && bookmark.pageIndex < pageCount)
+      .sort((a, b) => a.pageIndex - b.pageIndex)
+    // Bookmarks pointing at the same page as the next one would yield empty files.
+    const chapters = starts.filter((bookmark, index) => starts[index + 1]?.pageIndex !== bookmark.pageIndex)
+    if (!chapters.length) {
+      throw new Error('This PDF has no top-level bookmarks that point to pages.')
+    }
+    const parts: SplitPart[] = []
+    if (chapters[0].pageIndex > 0) {
+      parts.push({ name: 'Front matter', indices: Array.from({ length: chapters[0].pageIndex }, (_, index) => index) })
+    }
+    chapters.forEach((chapter, index) => {
+      const end = index + 1 < chapters.length ? chapters[index + 1].pageIndex : pageCount
+      parts.push({
+        name: chapter.title || `Chapter ${index + 1}`,
+        indices: Array.from({ length: end - chapter.pageIndex }, (_, offset) => chapter.pageIndex + offset)
+      })
+    })
+    return parts
+  } finally {
+    await doc.destroy()
+  }
+}
+
+// Grows each part page by page and measures the saved output, since shared
+// fonts and images make per-page sizes a poor estimate. A page that is larger
+// than the limit on its own still becomes its own part.
+async function sizeParts(
+  src: PDFDocument,
+  maxBytes: number,
+  onProgress: (page: number) => void
+): Promise<{ parts: SplitPart[]; oversized: number[] }> {
+  const parts: SplitPart[] = []
+  const oversized: number[] = []
+  let current: number[] = []
+
+  for (let index = 0; index < src.getPageCount(); index += 1) {
+    onProgress(index + 1)
+    const candidate = [...current, index]
+    const size = (await buildPart(src, candidate)).length
+    if (size <= maxBytes) {
+      current = candidate
+      continue
+    }
+    if (current.length) {
+      parts.push({ name: '', indices: current })
+      current = [index]
+      if ((await buildPart(src, current)).length > maxBytes) oversized.push(index + 1)
+    } else {
+      oversized.push(index + 1)
+      current = candidate
+    }
+  }
+  if (current.length) parts.push({ name: '', indices: current })
+
+  return {
+    parts: parts.map((part) => ({
+      ...part,
+      name: `pages-${part.indices[0] + 1}-${part.indices[part.indices.length - 1] + 1}`
+    })),
+    oversized
+  }
+}
+
+export function SplitTool() {
+  const [file, setFile] = useState<File | null>(null)
+  const [mode, setMode] = useState<SplitMode>('single')
+  const [range, setRange] = useState('1-1')
+  const [chunkSize, setChunkSize] = useState(2)
+  const [ranges, setRanges] = useState('1-4,5-9,10-end')
+  const [maxMegabytes, setMaxMegabytes] = useState(5)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+
+  const run = async () => {
+    if (!file) return
+    setBusy(true)
+    setStatus('Processing...')
+    try {
+      const src = await PDFDocument.load(await toBytes(file))
+      const pageCount = src.getPageCount()
+
+      if (mode === 'range') {
+        const bytes = await buildPart(src, parsePageIndices(range, pageCount))
+        saveAs(toPdfBlob(bytes), `pages-${slugifyName(range.trim() || 'all').replace(/[^a-z0-9-]+/g, '_')}.pdf`)
+        setStatus('Done')
+        return
+      }
+
+      let parts: SplitPart[]
+      let note = ''
+      if (mode === 'single') {
+        parts = chunkParts(pageCount, 1).map((part) => ({ ...part, name: `page-${part.indices[0] + 1}` }))
+      } else if (mode === 'chunks') {
+        parts = chunkParts(pageCount, Math.max(1, Math.floor(chunkSize)))
+      } else if (mode === 'ranges') {
+        parts = rangeParts(ranges, pageCount)
+      } else if (mode === 'bookmarks') {
+        parts = await bookmarkParts(file, pageCount)
+      } else {
+        const result = await sizeParts(src, maxMegabytes * 1024 * 1024, (page) =>
+          setStatus(`Measuring page ${page} of ${pageCount}...`)
+        )
+        parts = result.parts
+        if (result.oversized.length) {
+          note = ` Page${result.oversized.length === 1 ? '' : 's'} ${result.oversized.join(', ')} exceed${result.oversized.length === 1 ? 's' : ''} the limit on ${result.oversized.length === 1 ? 'its' : 'their'} own.`
+        }
+      }
+
+      const zip = new JSZip()
+      const used = new Set<string>()
+      for (const [index, part] of parts.entries()) {
+        setStatus(`Writing file ${index + 1} of ${parts.length}...`)
+        // Numbered prefixes keep the ZIP in document order and make repeated
+        // bookmark titles unique.
+        let name = mode === 'single' ? part.name : `${padIndex(index, parts.length)}-${safeFileName(part.name)}`
+        while (used.has(name)) name = `${name}-${index + 1}`
+        used.add(name)
+        zip.file(`${name}.pdf`, await buildPart(src, part.indices))
+      }
+      saveAs(await zip.generateAsync({ type: 'blob' }), mode === 'single' ? 'split-pages.zip' : `split-${mode}.zip`)
+      setStatus(`Done: ${parts.length} file${parts.length === 1 ? '' : 's'}.${note}`)
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Split failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <ToolShell title="Split PDF">
+      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
+      <div className="row">
+        <select title="Split mode" value={mode} onChange={(e) => setMode(e.target.value as SplitMode)}>
+          {MODES.map((entry) => (
+            <option key={entry.value} value={entry.value}>
+              {entry.label}
+            </option>
+          ))}
+        </select>
+        {mode === 'range' ? <PageRangeInput value={range} onChange={setRange} placeholder="1-3,7,10-end" /> : null}
+        {mode === 'chunks' ? (
+          <label className="inline-option">
+            Pages per file
+            <input
+              type="number"
+              title="Pages per file"
+              min={1}
+              value={chunkSize}
+              onChange={(e) => setChunkSize(Math.max(1, Number(e.target.value) || 1))}
+            />
+          </label>
+        ) : null}
+        {mode === 'size' ? (
+          <label className="inline-option">
+            Max size (MB)
+            <input
+              type="number"
+              title="Maximum file size in MB"
+              min={0.1}
+              step={0.1}
+              value={maxMegabytes}
+              onChange={(e) => setMaxMegabytes(Math.max(0.1, Number(e.target.value) || 0.1))}
+            />
+          </label>
+        ) : null}
+        <button onClick={run} disabled={!file || busy}>
+          Split
+        </button>
+      </div>
+      {mode === 'ranges' ? (
+        <>
+          <textarea
+            title="Page ranges"
+            placeholder={'Chapter 1: 1-4\nChapter 2: 5-9\nAppendix: 10-end'}
+            value={ranges}
+            onChange={(e) => setRanges(e.target.value)}
+          />
+          <p className="hint">
+            One file per line, optionally named as <code>Name: 1-4</code>. A single line such as <code>1-4,5-9,10-end</code>{' '}
+            makes one file per comma-separated range.
+          </p>
+        </>
+      ) : null}
+      {mode === 'size' ? (
+        <p className="hint">Each file is grown page by page and measured, so large documents take a while.</p>
+      ) : null}
+      {mode === 'bookmarks' ? (
+        <p className="hint">Each top-level bookmark starts a new file named after its title.</p>
+      ) : null}
+      {status ? <p className="hint">{status}</p> : null}
+    </ToolShell>
+  )
+}
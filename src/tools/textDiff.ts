@@ -0,0 +1,341 @@
+export type DiffOpType = 'equal' | 'insert' | 'delete'
+
+export type PageToken = {
+  text: string
+  page: number
+}
+
+export type DiffRun = {
+  type: DiffOpType
+  text: string
+  originalPage: number | null
+  revisedPage: number | null
+  displayPage: number
+  words: number
+}
+
+export type PageChangeCount = {
+  page: number
+  deletions: number
+  insertions: number
+}
+
+const MAX_EDIT_DISTANCE = 20000
+
+export function tokenizePages(pages: string[]) {
+  const tokens: PageToken[] = []
+  pages.forEach((text, index) => {
+    text
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((word) => tokens.push({ text: word, page: index + 1 }))
+  })
+  return tokens
+}
+
+type EditOp = { type: DiffOpType; aIndex: number; bIndex: number }
+
+function tokenIds(a: string[], b: string[]) {
+  const ids = new Map<string, number>()
+  const toIds = (words: string[]) =>
+    Int32Array.from(words, (word) => {
+      let id = ids.get(word)
+      if (id === undefined) {
+        id = ids.size
+        ids.set(word, id)
+      }
+      return id
+    })
+  return [toIds(a), toIds(b)]
+}
+
+// Finds the middle snake of the shortest edit script between a[aLo, aHi) and
+// b[bLo, bHi) by searching forward and backward at once, and returns the
+// point where the two searches meet, or null when the ranges share nothing.
+function middleSnake(a: Int32Array, aLo: number, aHi: number, b: Int32Array, bLo: number, bHi: number) {
+  const n = aHi - aLo
+  const m = bHi - bLo
+  const maxD = Math.ceil((n + m) / 2)
+  const offset = maxD
+  const length = 2 * maxD + 2
+  const forward = new Int32Array(length).fill(-1)
+  const backward = new Int32Array(length).fill(-1)
+  forward[offset + 1] = 0
+  backward[offset + 1] = 0
+  const delta = n - m
+  const odd = delta % 2 !== 0
+  let k1Start = 0
+  let k1End = 0
+  let k2Start = 0
+  let k2End = 0
+
+  for (let d = 0; d < maxD; d += 1) {
+    if (2 * d > MAX_EDIT_DISTANCE) {
+      throw new Error('Documents differ too much for a word-level diff.')
+    }
+    for (let k1 = -d + k1Start; k1 <= d - k1End; k1 += 2) {
+      const k1Offset = offset + k1
+      let x1 =
+        k1 === -d || (k1 !== d && forward[k1Offset - 1] < forward[k1Offset + 1])
+          ? forward[k1Offset + 1]
+          : forward[k1Offset - 1] + 1
+      let y1 = x1 - k1
+      while (x1 < n && y1 < m && a[aLo + x1] === b[bLo + y1]) {
+        x1 += 1
+        y1 += 1
+      }
+      forward[k1Offset] = x1
+      if (x1 > n) {
+        k1End += 2
+      } else if (y1 > m) {
+        k1Start += 2
+      } else if (odd) {
+        const k2Offset = offset + delta - k1
+        if (k2Offset >= 0 && k2Offset < length && backward[k2Offset] !== -1 && x1 >= n - backward[k2Offset]) {
+          return { x: aLo + x1, y: bLo + y1 }
+        }
+      }
+    }
+
+    for (let k2 = -d + k2Start; k2 <= d - k2End; k2 += 2) {
+      const k2Offset = offset + k2
+      let x2 =
+        k2 === -d || (k2 !== d && backward[k2Offset - 1] < backward[k2Offset + 1])
+          ? backward[k2Offset + 1]
+          : backward[k2Offset - 1] + 1
+      let y2 = x2 - k2
+      while (x2 < n && y2 < m && a[aHi - x2 - 1] === b[bHi - y2 - 1]) {
+        x2 += 1
+        y2 += 1
+      }
+      backward[k2Offset] = x2
+      if (x2 > n) {
+        k2End += 2
+      } else if (y2 > m) {
+        k2Start += 2
+      } else if (!odd) {
+        const k1Offset = offset + delta - k2
+        if (k1Offset >= 0 && k1Offset < length && forward[k1Offset] !== -1) {
+          const x1 = forward[k1Offset]
+          if (x1 >= n - x2) {
+            return { x: aLo + x1, y: bLo + x1 - (k1Offset - offset) }
+          }
+        }
+      }
+    }
+  }
+
+  return null
+}
+
+function diffRange(a: Int32Array, aLo: number, aHi: number, b: Int32Array, bLo: number, bHi: number, ops: EditOp[]) {
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    ops.push({ type: 'equal', aIndex: aLo, bIndex: bLo })
+    aLo += 1
+    bLo += 1
+  }
+  let suffix = 0
+  while (aHi > aLo && bHi > bLo && a[aHi - 1] === b[bHi - 1]) {
+    aHi -= 1
+    bHi -= 1
+    suffix += 1
+  }
+
+  const split = aLo < aHi && bLo < bHi ? middleSnake(a, aLo, aHi, b, bLo, bHi) : null
+  if (split) {
+    diffRange(a, aLo, split.x, b, bLo, split.y, ops)
+    diffRange(a, split.x, aHi, b, split.y, bHi, ops)
+  } else {
+    for (let x = aLo; x < aHi; x += 1) ops.push({ type: 'delete', aIndex: x, bIndex: bLo })
+    for (let y = bLo; y < bHi; y += 1) ops.push({ type: 'insert', aIndex: aHi, bIndex: y })
+  }
+
+  for (let index = 0; index < suffix; index += 1) {
+    ops.push({ type: 'equal', aIndex: aHi + index, bIndex: bHi + index })
+  }
+}
+
+// Myers O(ND) shortest edit script in linear space: each step bisects the
+// problem at the middle snake, so memory stays proportional to the document
+// length instead of keeping a trace per edit. Time still grows with the
+// number of edits, which MAX_EDIT_DISTANCE caps.
+function shortestEditScript(a: string[], b: string[]) {
+  const [aIds, bIds] = tokenIds(a, b)
+  const ops: EditOp[] = []
+  diffRange(aIds, 0, aIds.length, bIds, 0, bIds.length, ops)
+  return ops
+}
+
+export function diffPageTokens(original: PageToken[], revised: PageToken[]) {
+  const ops = shortestEditScript(
+    original.map((token) => token.text),
+    revised.map((token) => token.text)
+  )
+
+  const runs: DiffRun[] = []
+  let currentPage = revised[0]?.page || 1
+
+  ops.forEach((op) => {
+    const left = op.type === 'insert' ? null : original[op.aIndex]
+    const right = op.type === 'delete' ? null : revised[op.bIndex]
+    if (right) currentPage = right.page
+    const text = (right || left)!.text
+    const last = runs[runs.length - 1]
+
+    if (
+      last
+      && last.type === op.type
+      && last.displayPage === currentPage
+      && (op.type !== 'delete' || last.originalPage === left!.page)
+    ) {
+      last.text += ` ${text}`
+      last.words += 1
+      return
+    }
+
+    runs.push({
+      type: op.type,
+      text,
+      originalPage: left ? left.page : null,
+      revisedPage: right ? right.page : null,
+      displayPage: currentPage,
+      words: 1
+    })
+  })
+
+  return runs
+}
+
+export function countPageChanges(runs: DiffRun[], pageCount: number) {
+  const counts: PageChangeCount[] = Array.from({ length: pageCount }, (_, index) => ({
+    page: index + 1,
+    deletions: 0,
+    insertions: 0
+  }))
+
+  runs.forEach((run) => {
+    if (run.type === 'delete' && run.originalPage) {
+      counts[run.originalPage - 1].deletions += run.words
+    }
+    if (run.type === 'insert' && run.revisedPage) {
+      counts[run.revisedPage - 1].insertions += run.words
+    }
+  })
+
+  return counts
+}
+
+// What a page is compared by when pages are aligned: its text, or for pages
+// without text (scans, drawings) a hash of a small rendering.
+export type PageSignature = {
+  text: string
+  image: string | null
+}
+
+export type PagePair = {
+  original: number | null
+  revised: number | null
+}
+
+// Pages less alike than this are reported as removed and added rather than
+// as one changed page.
+const MIN_PAGE_SIMILARITY = 0.5
+// Beyond this many page pairs only identical pages are matched, which keeps
+// very long documents from spending seconds on word overlaps.
+const MAX_SIMILARITY_PAIRS = 250000
+
+function wordIds(pages: PageSignature[], ids: Map<string, number>) {
+  return pages.map((page) =>
+    Int32Array.from(
+      new Set(
+        page.text
+          .split(/\s+/)
+          .filter(Boolean)
+          .map((word) => {
+            if (!ids.has(word)) ids.set(word, ids.size)
+            return ids.get(word)!
+          })
+      )
+    ).sort()
+  )
+}
+
+function overlap(a: Int32Array, b: Int32Array) {
+  let shared = 0
+  for (let i = 0, j = 0; i < a.length && j < b.length;) {
+    if (a[i] === b[j]) {
+      shared += 1
+      i += 1
+      j += 1
+    } else if (a[i] < b[j]) {
+      i += 1
+    } else {
+      j += 1
+    }
+  }
+  return shared / (a.length + b.length - shared)
+}
+
+// Pairs the pages of two documents in order, maximizing how alike the paired
+// pages are (an LCS weighted by similarity), so one inserted or deleted page
+// shows up as such instead of shifting every later page.
+export function alignPages(original: PageSignature[], revised: PageSignature[]): PagePair[] {
+  const n = original.length
+  const m = revised.length
+  const normalize = (page: PageSignature) => ({ ...page, text: page.text.replace(/\s+/g, ' ').trim() })
+  const left = original.map(normalize)
+  const right = revised.map(normalize)
+  const exactOnly = n * m > MAX_SIMILARITY_PAIRS
+  const ids = new Map<string, number>()
+  const leftWords = exactOnly ? [] : wordIds(left, ids)
+  const rightWords = exactOnly ? [] : wordIds(right, ids)
+
+  const similarity = (i: number, j: number) => {
+    const a = left[i]
+    const b = right[j]
+    if (a.text && b.text) {
+      if (a.text === b.text) return 1
+      return exactOnly ? 0 : overlap(leftWords[i], rightWords[j])
+    }
+    if (a.text || b.text) return 0
+    // Without text, identical renderings match and any other pair may still
+    // be the same page edited; the pixel diff tells them apart.
+    return a.image !== null && a.image === b.image ? 1 : MIN_PAGE_SIMILARITY
+  }
+
+  const width = m + 1
+  const score = new Float64Array((n + 1) * width)
+  const pairScore = new Float64Array(n * m)
+  for (let i = 1; i <= n; i += 1) {
+    for (let j = 1; j <= m; j += 1) {
+      const value = similarity(i - 1, j - 1)
+      pairScore[(i - 1) * m + j - 1] = value
+      const diagonal = value >= MIN_PAGE_SIMILARITY ? score[(i - 1) * width + j - 1] + value : -1
+      score[i * width + j] = Math.max(diagonal, score[(i - 1) * width + j], score[i * width + j - 1])
+    }
+  }
+
+  const pairs: PagePair[] = []
+  let i = n
+  let j = m
+  while (i > 0 || j > 0) {
+    const value = i > 0 && j > 0 ? pairScore[(i - 1) * m + j - 1] : 0
+    if (
+      i > 0
+      && j > 0
+      && value >= MIN_PAGE_SIMILARITY
+      && score[i * width + j] === score[(i - 1) * width + j - 1] + value
+    ) {
+      pairs.push({ original: i, revised: j })
+      i -= 1
+      j -= 1
+    } else if (i > 0 && (j === 0 || score[i * width + j] === score[(i - 1) * width + j])) {
+      pairs.push({ original: i, revised: null })
+      i -= 1
+    } else {
+      pairs.push({ original: null, revised: j })
+      j -= 1
+    }
+  }
+  return pairs.reverse()
+}
@@ -0,0 +1,302 @@
+import { useEffect, useState } from 'react'
+import { saveAs } from 'file-saver'
+import { PDFDocument } from 'pdf-lib'
+import { apiUrl } from '../config/api'
+import { FilePicker, ToolShell, postFormData, slugifyName, toBytes, toPdfBlob } from './shared'
+import { PageRangeInput, parsePageRange } from './pageRanges'
+import { OcrPage, OcrReview, ocrStructureText } from './ocrReview'
+
+type OcrOutput = 'text' | 'pdf' | StructuredFormat
+
+type StructuredFormat = 'hocr' | 'alto' | 'tsv' | 'json'
+
+const STRUCTURED_FORMATS: Record<StructuredFormat, { name: string; label: string; suffix: string; type: string }> = {
+  hocr: { name: 'hOCR', label: 'hOCR', suffix: '.hocr', type: 'text/html' },
+  alto: { name: 'ALTO', label: 'ALTO XML', suffix: '-alto.xml', type: 'application/xml' },
+  tsv: { name: 'TSV', label: 'TSV (word boxes and confidences)', suffix: '.tsv', type: 'text/tab-separated-values' },
+  json: { name: 'JSON', label: 'JSON (blocks, lines, words)', suffix: '.json', type: 'application/json' }
+}
+
+function isStructuredFormat(output: OcrOutput): output is StructuredFormat {
+  return output in STRUCTURED_FORMATS
+}
+
+type OcrReport = {
+  pages: number
+  recognized: number[]
+  skipped: number[]
+  words: number
+  languages: string
+  confidence: number | null
+}
+
+type OcrStreamLine =
+  | { type: 'progress'; page: number; done: number; total: number }
+  | { type: 'done'; report: OcrReport; text: string; structure?: OcrPage[]; document?: string; pdf?: string }
+  | { type: 'error'; error: string }
+
+function describeOcrReport(report: OcrReport) {
+  const parts = [`${report.words} word${report.words === 1 ? '' : 's'} recognized on ${report.recognized.length} of ${report.pages} pages`]
+  if (report.confidence !== null) parts.push(`mean confidence ${report.confidence}%`)
+  if (report.skipped.length) parts.push(`pages ${report.skipped.join(', ')} already had text and were left as is`)
+  return parts.join('; ')
+}
+
+function isPdfFile(file: File) {
+  return file.type === 'application/pdf' || /\.pdf$/i.test(file.name)
+}
+
+function base64ToBytes(value: string) {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let index = 0; index < binary.length; index += 1) bytes[index] = binary.charCodeAt(index)
+  return bytes
+}
+
+// Reads the server's newline-delimited JSON stream line by line.
+async function readOcrStream(response: Response, onLine: (line: OcrStreamLine) => void) {
+  if (!response.body) throw new Error('Streaming is not supported in this browser')
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ''
+  for (;;) {
+    const { value, done } = await reader.read()
+    buffered += decoder.decode(value, { stream: !done })
+    const lines = buffered.split('\n')
+    buffered = lines.pop() || ''
+    lines.filter((line) => line.trim()).forEach((line) => onLine(JSON.parse(line) as OcrStreamLine))
+    if (done) break
+  }
+  if (buffered.trim()) onLine(JSON.parse(buffered) as OcrStreamLine)
+}
+
+export function TextResultTool({
+  title,
+  endpoint,
+  accept,
+  note,
+  ocr = false
+}: {
+  title: string
+  endpoint: string
+  accept: string
+  note?: string
+  ocr?: boolean
+}) {
+  const [file, setFile] = useState<File | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [text, setText] = useState('')
+  const [status, setStatus] = useState('')
+  const [output, setOutput] = useState<OcrOutput>('text')
+  const [skipText, setSkipText] = useState(true)
+  const [pages, setPages] = useState('')
+  const [installed, setInstalled] = useState<string[]>([])
+  const [languages, setLanguages] = useState('eng')
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [structure, setStructure] = useState<OcrPage[] | null>(null)
+  const [ocrDocument, setOcrDocument] = useState<{ format: StructuredFormat; content: string; edited: boolean } | null>(null)
+
+  // Bundled traineddata decides which languages can be offered; without any,
+  // the server downloads the codes typed in on first use.
+  useEffect(() => {
+    if (!ocr) return
+    let cancelled = false
+    fetch(apiUrl('/api/ocr/languages'))
+      .then((response) => (response.ok ? (response.json() as Promise<{ languages?: string[] }>) : { languages: [] }))
+      .then((payload) => {
+        const available = payload.languages || []
+        if (cancelled || !available.length) return
+        setInstalled(available)
+        setLanguages(available.includes('eng') ? 'eng' : available[0])
+      })
+      .catch(() => undefined)
+    return () => {
+      cancelled = true
+    }
+  }, [ocr])
+
+  const selectedLanguages = languages.split('+').filter(Boolean)
+  const toggleLanguage = (language: string, checked: boolean) => {
+    const next = checked ? [...selectedLanguages, language] : selectedLanguages.filter((entry) => entry !== language)
+    setLanguages(installed.filter((entry) => next.includes(entry)).join('+'))
+  }
+
+  const runOcr = async (source: File) => {
+    const form = new FormData()
+    form.append('file', source)
+    form.append('output', output)
+    form.append('skipText', String(skipText))
+    form.append('languages', languages)
+    form.append('stream', 'true')
+    // Ranges are resolved here so the server only receives explicit pages.
+    if (isPdfFile(source) && pages.trim()) {
+      const doc = await PDFDocument.load(await toBytes(source), { ignoreEncryption: true })
+      form.append('pages', JSON.stringify(parsePageRange(pages, doc.getPageCount())))
+    }
+
+    const response = await postFormData(endpoint, form)
+    let result: Extract<OcrStreamLine, { type: 'done' }> | null = null
+    await readOcrStream(response, (line) => {
+      if (line.type === 'progress') {
+        setProgress({ done: line.done, total: line.total })
+        setStatus(`Recognized page ${line.page} (${line.done} of ${line.total})...`)
+      } else if (line.type === 'error') {
+        throw new Error(line.error)
+      } else {
+        result = line
+      }
+    })
+    if (!result) throw new Error('OCR ended without a result')
+    const { report, text: recognized, structure: recognizedPages, document: content, pdf } = result as Extract<
+      OcrStreamLine,
+      { type: 'done' }
+    >
+    if (pdf) {
+      saveAs(toPdfBlob(base64ToBytes(pdf)), 'searchable.pdf')
+    } else {
+      setText(recognized)
+      setStructure(recognizedPages || null)
+    }
+    if (content !== undefined && isStructuredFormat(output)) {
+      const next = { format: output, content, edited: false }
+      setOcrDocument(next)
+      saveDocument(source, next)
+    }
+    setStatus(`Done: ${describeOcrReport(report)}.`)
+  }
+
+  const saveDocument = (source: File, { format, content }: { format: StructuredFormat; content: string }) => {
+    const { suffix, type } = STRUCTURED_FORMATS[format]
+    saveAs(new Blob([content], { type: `${type};charset=utf-8` }), `${source.name.replace(/\.[^.]+$/, '') || 'ocr'}${suffix}`)
+  }
+
+  // Corrections only change the structure in the browser; the server turns
+  // it back into the chosen format so every format is written in one place.
+  const downloadCorrected = async () => {
+    if (!file || !ocrDocument || !structure) return
+    setBusy(true)
+    try {
+      let content = ocrDocument.content
+      if (ocrDocument.edited) {
+        const form = new FormData()
+        form.append('output', ocrDocument.format)
+        form.append('title', file.name)
+        form.append('structure', JSON.stringify(structure))
+        content = await (await postFormData('/api/ocr/format', form)).text()
+        setOcrDocument({ ...ocrDocument, content, edited: false })
+      }
+      saveDocument(file, { ...ocrDocument, content })
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Download failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const onCorrect = (pages: OcrPage[]) => {
+    setStructure(pages)
+    setText(ocrStructureText(pages))
+    if (ocrDocument) setOcrDocument({ ...ocrDocument, edited: true })
+  }
+
+  const run = async () => {
+    if (!file) return
+    setBusy(true)
+    setStatus('Processing...')
+    setProgress(null)
+    setStructure(null)
+    setOcrDocument(null)
+    try {
+      if (ocr) {
+        await runOcr(file)
+        return
+      }
+      const form = new FormData()
+      form.append('file', file)
+      const response = await postFormData(endpoint, form)
+      const payload = (await response.json()) as { text?: string }
+      setText(payload.text || '')
+      setStatus('Done')
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Failed')
+    } finally {
+      setBusy(false)
+      setProgress(null)
+    }
+  }
+
+  const saveText = () => {
+    saveAs(new Blob([text], { type: 'text/plain;charset=utf-8' }), `${slugifyName(title)}.txt`)
+  }
+
+  return (
+    <ToolShell title={title}>
+      {note ? <p className="hint">{note}</p> : null}
+      <FilePicker accept={accept} onFiles={(files) => setFile(files[0] || null)} />
+      {ocr ? (
+        <>
+          <div className="row">
+            <select title="OCR output" value={output} onChange={(e) => setOutput(e.target.value as OcrOutput)}>
+              <option value="text">Plain text</option>
+              <option value="pdf">Searchable PDF</option>
+              {Object.entries(STRUCTURED_FORMATS).map(([value, format]) => (
+                <option key={value} value={value}>
+                  {format.label}
+                </option>
+              ))}
+            </select>
+            {output === 'pdf' ? (
+              <label className="inline-option">
+                <input type="checkbox" checked={skipText} onChange={(e) => setSkipText(e.target.checked)} />
+                Skip pages that already contain text
+              </label>
+            ) : null}
+            {!file || isPdfFile(file) ? <PageRangeInput value={pages} onChange={setPages} /> : null}
+          </div>
+          <div className="row">
+            <span className="hint">Languages:</span>
+            {installed.length ? (
+              installed.map((language) => (
+                <label key={language} className="inline-option">
+                  <input
+                    type="checkbox"
+                    checked={selectedLanguages.includes(language)}
+                    onChange={(e) => toggleLanguage(language, e.target.checked)}
+                  />
+                  {language}
+                </label>
+              ))
+            ) : (
+              <input
+                title="Tesseract language codes, e.g. eng+deu"
+                placeholder="eng+deu"
+                value={languages}
+                onChange={(e) => setLanguages(e.target.value.replace(/\s+/g, ''))}
+              />
+            )}
+          </div>
+        </>
+      ) : null}
+      <div className="row">
+        <button onClick={run} disabled={!file || busy || (ocr && !languages)}>
+          {ocr && output === 'pdf' ? 'Create searchable PDF' : 'Extract'}
+        </button>
+        {!ocr || output !== 'pdf' ? (
+          <button onClick={saveText} disabled={!text}>
+            Download TXT
+          </button>
+        ) : null}
+        {ocrDocument ? (
+          <button onClick={downloadCorrected} disabled={busy}>
+            Download {ocrDocument.edited ? 'corrected ' : ''}
+            {STRUCTURED_FORMATS[ocrDocument.format].name}
+          </button>
+        ) : null}
+      </div>
+      {progress ? <progress className="ocr-progress" max={progress.total} value={progress.done} /> : null}
+      {status ? <p className="hint">{status}</p> : null}
+      {structure ? <OcrReview pages={structure} onChange={onCorrect} /> : null}
+      {text ? <textarea title="Extracted text" value={text} onChange={(e) => setText(e.target.value)} /> : null}
+    </ToolShell>
+  )
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { openPdf, renderPage } from './pdfjs'
+
+export function usePdfDocument(file: File | null) {
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    let loaded: PDFDocumentProxy | null = null
+    setDoc(null)
+    setError('')
+    if (!file) return
+
+    openPdf(file)
+      .then((result) => {
+        loaded = result
+        if (cancelled) {
+          void result.destroy()
+          return
+        }
+        setDoc(result)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to open PDF')
+      })
+
+    return () => {
+      cancelled = true
+      if (loaded) void loaded.destroy()
+    }
+  }, [file])
+
+  return { doc, pageCount: doc?.numPages || 0, error }
+}
+
+export function usePageImage(doc: PDFDocumentProxy | null, pageNumber: number, scale = 1.5) {
+  const [image, setImage] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    setImage('')
+    if (!doc || pageNumber < 1 || pageNumber > doc.numPages) return
+
+    renderPage(doc, pageNumber, scale)
+      .then((canvas) => {
+        if (!cancelled) setImage(canvas.toDataURL('image/png'))
+      })
+      .catch(() => {
+        if (!cancelled) setImage('')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [doc, pageNumber, scale])
+
+  return image
+}
+
+export function usePageSize(doc: PDFDocumentProxy | null, pageNumber: number) {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setSize(null)
+    if (!doc || pageNumber < 1 || pageNumber > doc.numPages) return
+
+    doc
+      .getPage(pageNumber)
+      .then((page) => {
+        const viewport = page.getViewport({ scale: 1 })
+        if (!cancelled) setSize({ width: viewport.width, height: viewport.height })
+      })
+      .catch(() => {
+        if (!cancelled) setSize(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [doc, pageNumber])
+
+  return size
+}
+
+// Renders every page one after another so large documents fill in
+// progressively instead of blocking on the whole set.
+export function usePageThumbnails(doc: PDFDocumentProxy | null, scale = 0.3) {
+  const [thumbnails, setThumbnails] = useState<string[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    setThumbnails([])
+    if (!doc) return
+
+    const renderAll = async () => {
+      for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber += 1) {
+        if (cancelled) return
+        let image = ''
+        try {
+          image = (await renderPage(doc, pageNumber, scale)).toDataURL('image/png')
+        } catch {
+          image = ''
+        }
+        if (cancelled) return
+        setThumbnails((current) => {
+          const next = [...current]
+          next[pageNumber - 1] = image
+          return next
+        })
+      }
+    }
+    void renderAll()
+
+    return () => {
+      cancelled = true
+    }
+  }, [doc, scale])
+
+  return thumbnails
+}
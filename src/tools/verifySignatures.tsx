@@ -0,0 +1,209 @@
+import { useState } from 'react'
+import { FilePicker, ToolShell, postFormData } from './shared'
+import { ReportRows } from './inspect'
+
+type Verdict = 'valid' | 'invalid' | 'unsupported'
+
+type SignatureField = {
+  name: string
+  page: number | null
+  visible: boolean
+  signed: boolean
+  subFilter?: string | null
+  signerName?: string | null
+  reason?: string | null
+  location?: string | null
+  contactInfo?: string | null
+  signingTime?: string | null
+  signingTimeSource?: 'signature' | 'dictionary' | null
+  timestamped?: boolean
+  byteRange?: number[] | null
+  coversWholeFile?: boolean
+  changesAfterSigning?: 'none' | 'signatures' | 'other' | null
+  laterRevisions?: number
+  integrity?: { byteRangeValid: boolean; digestAlgorithm: string | null; digestMatches: boolean; signatureValid: boolean }
+  certificate?: {
+    commonName: string | null
+    organization: string | null
+    email: string | null
+    subject: string
+    issuer: string
+    serialNumber: string
+    fingerprint: string
+    validFrom: string
+    validTo: string
+    selfSigned: boolean
+    issuerIncluded: boolean
+    validAtSigningTime: boolean | null
+    expired: boolean
+  } | null
+  chain?: string[]
+  verdict?: Verdict
+  issues?: string[]
+}
+
+type VerificationReport = {
+  fileSize: number
+  revisions: number
+  encrypted: boolean
+  signatureCount: number
+  fields: SignatureField[]
+}
+
+const VERDICTS: Record<Verdict, { label: string; badge: string }> = {
+  valid: { label: 'Signature intact', badge: 'badge ok' },
+  invalid: { label: 'Signature broken', badge: 'badge err' },
+  unsupported: { label: 'Not checked', badge: 'badge warn' }
+}
+
+const CHANGES: Record<'none' | 'signatures' | 'other', { label: string; badge: string }> = {
+  none: { label: 'No changes after signing', badge: 'badge ok' },
+  signatures: { label: 'Only later signatures added', badge: 'badge ok' },
+  other: { label: 'Changed after signing', badge: 'badge warn' }
+}
+
+function formatDate(value: string | null | undefined) {
+  return value ? new Date(value).toLocaleString() : 'Unknown'
+}
+
+function yesNo(value: boolean | undefined) {
+  return value ? 'Yes' : 'No'
+}
+
+function SignatureDetails({ field }: { field: SignatureField }) {
+  const { integrity, certificate, byteRange } = field
+  const changes = field.changesAfterSigning ? CHANGES[field.changesAfterSigning] : null
+  return (
+    <>
+      <div className="row">
+        {field.verdict ? <span className={VERDICTS[field.verdict].badge}>{VERDICTS[field.verdict].label}</span> : null}
+        {changes ? <span className={changes.badge}>{changes.label}</span> : null}
+      </div>
+      {field.issues?.length ? (
+        <ul className="pdfa-issues">
+          {field.issues.map((issue, index) => (
+            <li key={index}>{issue}</li>
+          ))}
+        </ul>
+      ) : null}
+      <ReportRows
+        rows={[
+          ['Page', field.page ? `${field.page}${field.visible ? '' : ' (invisible)'}` : 'Not on a page'],
+          ['Type', field.subFilter || 'Unknown'],
+          [
+            'Signing time',
+            `${formatDate(field.signingTime)}${
+              field.signingTimeSource === 'dictionary' ? ' (claimed by the signing software)' : ''
+            }${field.timestamped ? ', with a timestamp token' : ''}`
+          ],
+          ...(field.reason ? ([['Reason', field.reason]] as [string, string][]) : []),
+          ...(field.location ? ([['Location', field.location]] as [string, string][]) : []),
+          ...(field.contactInfo ? ([['Contact', field.contactInfo]] as [string, string][]) : []),
+          ['Byte range', byteRange ? `[${byteRange.join(' ')}]` : 'Missing'],
+          ['Byte range well formed', yesNo(integrity?.byteRangeValid)],
+          ['Covers the whole file', yesNo(field.coversWholeFile)],
+          ['Revisions appended later', String(field.laterRevisions ?? 0)],
+          [
+            'Digest matches',
+            integrity?.digestAlgorithm ? `${yesNo(integrity.digestMatches)} (${integrity.digestAlgorithm})` : 'Not checked'
+          ],
+          ['Signature matches certificate', integrity?.digestAlgorithm ? yesNo(integrity.signatureValid) : 'Not checked']
+        ]}
+      />
+      {certificate ? (
+        <>
+          <h3>Signer certificate</h3>
+          <ReportRows
+            rows={[
+              ['Name', certificate.commonName || field.signerName || 'Unknown'],
+              ...(certificate.organization ? ([['Organization', certificate.organization]] as [string, string][]) : []),
+              ...(certificate.email ? ([['Email', certificate.email]] as [string, string][]) : []),
+              ['Subject', certificate.subject],
+              ['Issued by', certificate.selfSigned ? `${certificate.issuer} (self-signed)` : certificate.issuer],
+              ['Valid', `${formatDate(certificate.validFrom)} to ${formatDate(certificate.validTo)}`],
+              [
+                'Valid when signed',
+                certificate.validAtSigningTime === null ? 'Unknown' : yesNo(certificate.validAtSigningTime)
+              ],
+              ['Serial number', certificate.serialNumber],
+              ['SHA-256 fingerprint', certificate.fingerprint],
+              ['Certificates included', field.chain?.length ? field.chain.join(', ') : 'None']
+            ]}
+          />
+        </>
+      ) : null}
+    </>
+  )
+}
+
+export function VerifySignaturesTool() {
+  const [file, setFile] = useState<File | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+  const [report, setReport] = useState<VerificationReport | null>(null)
+
+  const run = async () => {
+    if (!file) return
+    setBusy(true)
+    setStatus('Processing...')
+    setReport(null)
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      const response = await postFormData('/api/verify-signatures', form)
+      const result = (await response.json()) as VerificationReport
+      setReport(result)
+      const count = (value: number, word: string) => `${value} ${word}${value === 1 ? '' : 's'}`
+      setStatus(
+        result.fields.length
+          ? `${count(result.signatureCount, 'signature')} in ${count(result.fields.length, 'signature field')}; ` +
+              `the file has ${count(result.revisions, 'revision')}.`
+          : 'The file has no signature fields.'
+      )
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Verification failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <ToolShell title="Verify Signatures">
+      <p className="hint">
+        Lists the signature fields in a PDF and checks each signature: that the signed bytes are unchanged, that the
+        signature matches the signer's certificate, and whether anything was appended after signing. Whether the signer's
+        certificate is trusted depends on your PDF reader's trust settings and is not decided here.
+      </p>
+      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
+      <div className="row">
+        <button onClick={run} disabled={!file || busy}>
+          Verify
+        </button>
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+      {report?.encrypted ? (
+        <p className="hint">The file is encrypted, so signer names and reasons from the signature fields are hidden.</p>
+      ) : null}
+      {report?.fields.length ? (
+        <div className="inspect-report">
+          {report.fields.map((field) => (
+            <section key={field.name} className="signature-report">
+              <h3>
+                {field.signed
+                  ? `${field.name}: signed by ${field.certificate?.commonName || field.signerName || 'unknown'}`
+                  : `${field.name}: not signed`}
+              </h3>
+              {field.signed ? (
+                <SignatureDetails field={field} />
+              ) : (
+                <p className="hint">
+                  Empty signature field{field.page ? ` on page ${field.page}` : ''}, ready to be signed.
+                </p>
+              )}
+            </section>
+          ))}
+        </div>
+      ) : null}
+    </ToolShell>
+  )
+}
@@ -0,0 +1,356 @@
+import { useEffect, useState } from 'react'
+import { saveAs } from 'file-saver'
+import { PDFArray, PDFDocument, PDFImage, PDFPage, degrees } from 'pdf-lib'
+import { FilePicker, ToolShell, readImages, toBytes, toPdfBlob } from './shared'
+import { PageRangeInput, parsePageIndices } from './pageRanges'
+import { displayToUser, pageGeometry } from '../../shared/pageGeometry.mjs'
+import { FONTS, FontName, createFontLoader, encodableText, fontFor, hexToRgb } from './pdfStyle'
+import { usePageImage, usePdfDocument } from './usePdfPage'
+
+type Placement =
+  | 'top-left'
+  | 'top-center'
+  | 'top-right'
+  | 'middle-left'
+  | 'center'
+  | 'middle-right'
+  | 'bottom-left'
+  | 'bottom-center'
+  | 'bottom-right'
+  | 'tile'
+
+type WatermarkOptions = {
+  kind: 'text' | 'image'
+  text: string
+  font: FontName
+  fontSize: number
+  color: string
+  image: string
+  imageScale: number
+  opacity: number
+  rotation: number
+  placement: Placement
+  layer: 'above' | 'behind'
+  margin: number
+}
+
+const PLACEMENTS: { value: Placement; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-center', label: 'Top centre' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'middle-left', label: 'Middle left' },
+  { value: 'center', label: 'Centre' },
+  { value: 'middle-right', label: 'Middle right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-center', label: 'Bottom centre' },
+  { value: 'bottom-right', label: 'Bottom right' },
+  { value: 'tile', label: 'Diagonal tiling' }
+]
+
+const PREVIEW_DELAY = 300
+
+// pdf-lib appends its drawing stream after the page content; moving it to
+// the front of /Contents paints the watermark first so content covers it.
+function sendLastStreamToBack(page: PDFPage) {
+  const contents = page.node.Contents()
+  if (!(contents instanceof PDFArray) || contents.size() < 2) return
+  const last = contents.get(contents.size() - 1)
+  contents.remove(contents.size() - 1)
+  contents.insert(0, last)
+}
+
+// Centres (in displayed page points, origin top-left) where the mark is drawn.
+// Positions account for the rotated mark's bounding box so it stays inside
+// the margins; tiling staggers every other row.
+function markCentres(
+  placement: Placement,
+  viewWidth: number,
+  viewHeight: number,
+  boxWidth: number,
+  boxHeight: number,
+  margin: number
+) {
+  if (placement === 'tile') {
+    const stepX = boxWidth + Math.max(boxWidth, boxHeight) * 0.5 + margin
+    const stepY = boxHeight + margin
+    const centres: [number, number][] = []
+    for (let row = 0, y = 0; y <= viewHeight + stepY; row += 1, y += stepY) {
+      const offset = row % 2 ? stepX / 2 : 0
+      for (let x = -offset; x <= viewWidth + stepX; x += stepX) centres.push([x, y])
+    }
+    return centres
+  }
+  const [vertical, horizontal] = placement === 'center' ? ['middle', 'center'] : placement.split('-')
+  const x =
+    horizontal === 'left' ? margin + boxWidth / 2 : horizontal === 'right' ? viewWidth - margin - boxWidth / 2 : viewWidth / 2
+  const y =
+    vertical === 'top' ? margin + boxHeight / 2 : vertical === 'bottom' ? viewHeight - margin - boxHeight / 2 : viewHeight / 2
+  return [[x, y] as [number, number]]
+}
+
+// Returns the characters of a text mark the font could not draw; they are
+// drawn as '?' (see encodableText).
+async function applyWatermark(doc: PDFDocument, indices: number[], options: WatermarkOptions) {
+  const loadFont = createFontLoader(doc)
+  let image: PDFImage | null = null
+  if (options.kind === 'image') {
+    if (!options.image) throw new Error('Choose a PNG or JPG image for the watermark.')
+    const data = await (await fetch(options.image)).arrayBuffer()
+    image = options.image.startsWith('data:image/png') ? await doc.embedPng(data) : await doc.embedJpg(data)
+  }
+  const font = options.kind === 'text' ? await loadFont(options.font) : null
+  const { text, replaced } = font ? encodableText(font, options.text) : { text: '', replaced: [] }
+  const angle = (options.rotation * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+
+  for (const index of indices) {
+    const page = doc.getPage(index)
+    const geometry = pageGeometry(page)
+    let width: number
+    let height: number
+    if (image) {
+      width = (geometry.viewWidth * options.imageScale) / 100
+      height = (width * image.height) / image.width
+    } else {
+      width = font!.widthOfTextAtSize(text, options.fontSize)
+      height = font!.heightAtSize(options.fontSize, { descender: false })
+    }
+    const boxWidth = Math.abs(width * cos) + Math.abs(height * sin)
+    const boxHeight = Math.abs(width * sin) + Math.abs(height * cos)
+    const rotate = degrees(geometry.rotation + options.rotation)
+    // The page's own /Rotate turns user space, so the mark's axes are rotated
+    // by the same amount to keep its angle relative to the displayed page.
+    const total = ((geometry.rotation + options.rotation) * Math.PI) / 180
+
+    markCentres(options.placement, geometry.viewWidth, geometry.viewHeight, boxWidth, boxHeight, options.margin).forEach(
+      ([cx, cy]) => {
+        const [ux, uy] = displayToUser(geometry, cx / geometry.viewWidth, cy / geometry.viewHeight)
+        // drawText/drawImage rotate around their origin, so step back from the
+        // centre by half the mark along its rotated axes.
+        const x = ux - (Math.cos(total) * width) / 2 + (Math.sin(total) * height) / 2
+        const y = uy - (Math.sin(total) * width) / 2 - (Math.cos(total) * height) / 2
+        if (image) {
+          page.drawImage(image, { x, y, width, height, rotate, opacity: options.opacity })
+        } else {
+          page.drawText(text, {
+            x,
+            y,
+            size: options.fontSize,
+            font: font!,
+            color: hexToRgb(options.color),
+            opacity: options.opacity,
+            rotate
+          })
+        }
+      }
+    )
+
+    if (options.layer === 'behind') sendLastStreamToBack(page)
+  }
+
+  return replaced
+}
+
+export function WatermarkTool() {
+  const [file, setFile] = useState<File | null>(null)
+  const [pages, setPages] = useState('')
+  const [options, setOptions] = useState<WatermarkOptions>({
+    kind: 'text',
+    text: 'CONFIDENTIAL',
+    font: 'helvetica-bold',
+    fontSize: 48,
+    color: '#cc1a1a',
+    image: '',
+    imageScale: 30,
+    opacity: 0.25,
+    rotation: 35,
+    placement: 'center',
+    layer: 'above',
+    margin: 36
+  })
+  const [previewFile, setPreviewFile] = useState<File | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+  const { doc: previewDoc } = usePdfDocument(previewFile)
+  const preview = usePageImage(previewDoc, 1, 1)
+
+  const update = (patch: Partial<WatermarkOptions>) => setOptions({ ...options, ...patch })
+  const ready = Boolean(file) && (options.kind === 'text' ? Boolean(options.text.trim()) : Boolean(options.image))
+
+  // The preview watermarks a one-page copy of the first selected page.
+  useEffect(() => {
+    if (!file || !ready) {
+      setPreviewFile(null)
+      return
+    }
+    let cancelled = false
+    const timer = window.setTimeout(async () => {
+      try {
+        const src = await PDFDocument.load(await toBytes(file))
+        const [first] = parsePageIndices(pages, src.getPageCount())
+        const out = await PDFDocument.create()
+        const [copied] = await out.copyPages(src, [first])
+        out.addPage(copied)
+        await applyWatermark(out, [0], options)
+        const bytes = await out.save()
+        if (!cancelled) setPreviewFile(new File([toPdfBlob(bytes)], 'preview.pdf', { type: 'application/pdf' }))
+      } catch {
+        if (!cancelled) setPreviewFile(null)
+      }
+    }, PREVIEW_DELAY)
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [file, pages, options, ready])
+
+  const onImage = async (files: File[]) => {
+    if (!files.length) return
+    const [dataUrl] = await readImages(files.slice(0, 1))
+    update({ image: dataUrl })
+  }
+
+  const run = async () => {
+    if (!file) return
+    setBusy(true)
+    setStatus('Processing...')
+    try {
+      const doc = await PDFDocument.load(await toBytes(file))
+      const replaced = await applyWatermark(doc, parsePageIndices(pages, doc.getPageCount()), options)
+      saveAs(toPdfBlob(await doc.save()), 'watermarked.pdf')
+      setStatus(
+        replaced.length
+          ? `Done. Characters the ${fontFor(options.font).label} font cannot show were drawn as "?": ${replaced.join('')}.`
+          : 'Done'
+      )
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Watermark failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <ToolShell title="Add Watermark">
+      <FilePicker accept=".pdf,application/pdf" onFiles={(files) => setFile(files[0] || null)} />
+      <div className="row">
+        <select
+          title="Watermark type"
+          value={options.kind}
+          onChange={(e) => update({ kind: e.target.value as WatermarkOptions['kind'] })}
+        >
+          <option value="text">Text</option>
+          <option value="image">Image</option>
+        </select>
+        {options.kind === 'text' ? (
+          <>
+            <input value={options.text} onChange={(e) => update({ text: e.target.value })} placeholder="Watermark text" />
+            <select title="Font" value={options.font} onChange={(e) => update({ font: e.target.value as FontName })}>
+              {FONTS.map((font) => (
+                <option key={font.value} value={font.value}>
+                  {font.label}
+                </option>
+              ))}
+            </select>
+            <label className="inline-option">
+              Size
+              <input
+                type="number"
+                title="Font size"
+                min={4}
+                max={400}
+                value={options.fontSize}
+                onChange={(e) => update({ fontSize: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </label>
+            <input type="color" title="Colour" value={options.color} onChange={(e) => update({ color: e.target.value })} />
+          </>
+        ) : (
+          <>
+            <FilePicker accept=".png,.jpg,.jpeg,image/png,image/jpeg" onFiles={onImage} />
+            <label className="inline-option">
+              Width (% of page)
+              <input
+                type="number"
+                title="Image width as a percentage of the page width"
+                min={1}
+                max={100}
+                value={options.imageScale}
+                onChange={(e) => update({ imageScale: Math.min(100, Math.max(1, Number(e.target.value) || 1)) })}
+              />
+            </label>
+          </>
+        )}
+      </div>
+      <div className="row">
+        <select
+          title="Position"
+          value={options.placement}
+          onChange={(e) => update({ placement: e.target.value as Placement })}
+        >
+          {PLACEMENTS.map((placement) => (
+            <option key={placement.value} value={placement.value}>
+              {placement.label}
+            </option>
+          ))}
+        </select>
+        <label className="inline-option">
+          Rotation
+          <input
+            type="number"
+            title="Rotation in degrees, counter-clockwise"
+            min={-180}
+            max={180}
+            value={options.rotation}
+            onChange={(e) => update({ rotation: Number(e.target.value) || 0 })}
+          />
+        </label>
+        <label className="inline-option">
+          Opacity
+          <input
+            type="range"
+            title="Opacity"
+            min={0.05}
+            max={1}
+            step={0.05}
+            value={options.opacity}
+            onChange={(e) => update({ opacity: Number(e.target.value) })}
+          />
+        </label>
+        <label className="inline-option">
+          Margin
+          <input
+            type="number"
+            title="Margin in points"
+            min={0}
+            max={200}
+            value={options.margin}
+            onChange={(e) => update({ margin: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </label>
+        <select
+          title="Layer"
+          value={options.layer}
+          onChange={(e) => update({ layer: e.target.value as WatermarkOptions['layer'] })}
+        >
+          <option value="above">Above content</option>
+          <option value="behind">Behind content</option>
+        </select>
+      </div>
+      <div className="row">
+        <PageRangeInput value={pages} onChange={setPages} />
+        <button onClick={run} disabled={!ready || busy}>
+          Add Watermark
+        </button>
+      </div>
+      {status ? <p className="hint">{status}</p> : null}
+      {preview ? (
+        <figure className="watermark-preview">
+          <figcaption className="hint">Preview of the first selected page</figcaption>
+          <img src={preview} alt="Watermark preview" />
+        </figure>
+      ) : null}
+    </ToolShell>
+  )
+}